@@ -16,7 +16,23 @@ export default [
             globals: {
                 process: 'readonly',
                 URL: 'readonly',
+                URLSearchParams: 'readonly',
                 fetch: 'readonly',
+                Headers: 'readonly',
+                Request: 'readonly',
+                Response: 'readonly',
+                RequestInit: 'readonly',
+                AbortSignal: 'readonly',
+                AbortController: 'readonly',
+                setTimeout: 'readonly',
+                clearTimeout: 'readonly',
+                crypto: 'readonly',
+                TextEncoder: 'readonly',
+                TextDecoder: 'readonly',
+                atob: 'readonly',
+                btoa: 'readonly',
+                CustomEvent: 'readonly',
+                EventTarget: 'readonly',
             },
         },
         plugins: {
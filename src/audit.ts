@@ -0,0 +1,277 @@
+import { parse_user_agent_string } from './user-agent.js';
+import {
+    AuthenticationError,
+    ContextMismatchError,
+    InvalidCodeError,
+    InvalidTokenError,
+    NetworkError,
+    NotFoundError,
+    PasswordPolicyError,
+    RateLimitedError,
+    SecondFactorRequiredError,
+    SessionExpiredError,
+} from './errors.js';
+import type { SdkLogger } from './log.js';
+
+export type AuditEventType =
+    | 'credential_created'
+    | 'password_changed'
+    | 'password_reset_requested'
+    | 'password_reset'
+    | 'password_reset_failed'
+    | 'session_created'
+    | 'authentication_failed'
+    | 'session_validated'
+    | 'validation_failed'
+    | 'context_mismatch'
+    | 'session_renewed'
+    | 'reauthenticated'
+    | 'second_factor_verified'
+    | 'second_factor_failed'
+    | 'session_archived'
+    | 'sessions_archived';
+
+/**
+ * Why an operation failed, derived from the error class
+ */
+export type AuditFailureReason =
+    | 'invalid_credentials'
+    | 'invalid_code'
+    | 'second_factor_required'
+    | 'invalid_token'
+    | 'not_found'
+    | 'expired'
+    | 'context_mismatch'
+    | 'rate_limited'
+    | 'password_policy'
+    | 'network'
+    | 'error';
+
+/**
+ * User Agent as parsed by ua-parser-js
+ */
+export interface AuditUserAgent {
+    browser?: string;
+    browser_version?: string;
+    os?: string;
+    os_version?: string;
+    cpu?: string;
+    device_type?: string;
+}
+
+/**
+ * Audit event delivered to subscribers
+ * Never contains passwords, access keys or session IDs; sessions are identified by
+ * `session_hash` so events about the same session can be correlated.
+ */
+export interface AuditEvent {
+    type: AuditEventType;
+    timestamp: Date;
+    collection_id: string;
+    credential_id?: string;
+    /** "sha256:" followed by the first 32 hex digits of the session ID's SHA-256 */
+    session_hash?: string;
+    ip_address?: string;
+    user_agent?: AuditUserAgent;
+    /** Milliseconds the operation took, including retries */
+    latency: number;
+    /** Set on failure events */
+    reason?: AuditFailureReason;
+    /** Error class name, set on failure events */
+    error?: string;
+}
+
+export type AuditListener = (event: AuditEvent) => void | Promise<void>;
+
+/**
+ * What the Collection knows about an operation; turned into an AuditEvent by `emit`
+ */
+export interface AuditRecord {
+    type: AuditEventType;
+    collection_id: string;
+    /** `Date.now()` when the operation started */
+    started: number;
+    credential_id?: string;
+    session_id?: string;
+    ip_address?: string;
+    user_agent?: string;
+    error?: unknown;
+}
+
+/**
+ * Hash a session ID for events: stable for correlation, useless as a bearer token
+ */
+async function session_hash(session_id: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(session_id));
+    const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0'));
+    return `sha256:${hex.join('').slice(0, 32)}`;
+}
+
+function parse_user_agent(user_agent: string): AuditUserAgent {
+    const result = parse_user_agent_string(user_agent);
+    return {
+        browser: result.browser.name,
+        browser_version: result.browser.version,
+        os: result.os.name,
+        os_version: result.os.version,
+        cpu: result.cpu.architecture,
+        device_type: result.device.type,
+    };
+}
+
+// Most specific classes first
+const FAILURE_REASONS: [abstract new (...args: never[]) => Error, AuditFailureReason][] = [
+    [InvalidCodeError, 'invalid_code'],
+    [SecondFactorRequiredError, 'second_factor_required'],
+    [AuthenticationError, 'invalid_credentials'],
+    [InvalidTokenError, 'invalid_token'],
+    [NotFoundError, 'not_found'],
+    [SessionExpiredError, 'expired'],
+    [ContextMismatchError, 'context_mismatch'],
+    [RateLimitedError, 'rate_limited'],
+    [PasswordPolicyError, 'password_policy'],
+    [NetworkError, 'network'],
+];
+
+/**
+ * Failure reason for an error thrown by a Collection method
+ */
+export function failure_reason(error: unknown): AuditFailureReason {
+    const entry = FAILURE_REASONS.find(([error_class]) => error instanceof error_class);
+    return entry ? entry[1] : 'error';
+}
+
+type TargetListener = NonNullable<Parameters<EventTarget['addEventListener']>[1]>;
+type TargetEvent = Parameters<EventTarget['dispatchEvent']>[0];
+
+// Marks EventTargets whose listeners are already guarded
+const GUARDED = Symbol('magicauth.audit.guarded');
+
+/**
+ * Wrap the listeners added to an EventTarget from now on so that what they throw (or reject
+ * with) is reported; EventTarget itself rethrows it as an uncaught exception, which ends a
+ * Node.js process. Listeners added before are not reachable and stay unguarded.
+ * @param target - EventTarget to guard
+ * @param report - Called with listener errors
+ */
+function guard_target(target: EventTarget, report: (error: unknown) => void): void {
+    const guarded = target as EventTarget & { [GUARDED]?: true };
+    if (guarded[GUARDED]) {
+        return;
+    }
+    guarded[GUARDED] = true;
+
+    const wrappers = new WeakMap<TargetListener, (event: TargetEvent) => void>();
+    const wrap = (listener: TargetListener) => {
+        let wrapper = wrappers.get(listener);
+        if (!wrapper) {
+            wrapper = function (this: unknown, event: TargetEvent) {
+                try {
+                    const result =
+                        typeof listener === 'function'
+                            ? listener.call(this, event)
+                            : listener.handleEvent(event);
+                    Promise.resolve(result).catch(report);
+                } catch (error) {
+                    report(error);
+                }
+            };
+            wrappers.set(listener, wrapper);
+        }
+        return wrapper;
+    };
+    const add = target.addEventListener;
+    const remove = target.removeEventListener;
+    target.addEventListener = function (type, listener, options) {
+        add.call(this, type, listener && wrap(listener), options);
+    };
+    target.removeEventListener = function (type, listener, options) {
+        remove.call(this, type, (listener && wrappers.get(listener)) ?? listener, options);
+    };
+}
+
+/**
+ * Delivers a Collection's audit events to listeners and an optional EventTarget
+ * EventTarget listeners receive a CustomEvent named after the event type with the
+ * AuditEvent as `detail`. Errors of subscribed listeners, and of EventTarget listeners added
+ * once the emitter exists, are logged and never affect the operation.
+ */
+export class AuditEmitter {
+    private listeners = new Set<AuditListener>();
+    private target?: EventTarget;
+    private log: SdkLogger;
+
+    /**
+     * @param log - Logger for listener errors
+     * @param target - EventTarget to dispatch events on
+     */
+    constructor(log: SdkLogger, target?: EventTarget) {
+        this.log = log;
+        this.target = target;
+        if (target) {
+            guard_target(target, (error) => this.report(error));
+        }
+    }
+
+    /**
+     * Whether anyone receives events (so building them can be skipped)
+     */
+    get active(): boolean {
+        return this.listeners.size > 0 || this.target !== undefined;
+    }
+
+    /**
+     * Add a listener
+     * @returns Function removing the listener again
+     */
+    subscribe(listener: AuditListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Build and deliver an event
+     */
+    async emit(record: AuditRecord): Promise<void> {
+        if (!this.active) {
+            return;
+        }
+        const event: AuditEvent = {
+            type: record.type,
+            timestamp: new Date(),
+            collection_id: record.collection_id,
+            latency: Date.now() - record.started,
+        };
+        if (record.credential_id !== undefined) {
+            event.credential_id = record.credential_id;
+        }
+        if (record.session_id !== undefined) {
+            event.session_hash = await session_hash(record.session_id);
+        }
+        if (record.ip_address !== undefined) {
+            event.ip_address = record.ip_address;
+        }
+        if (record.user_agent !== undefined) {
+            event.user_agent = parse_user_agent(record.user_agent);
+        }
+        if (record.error !== undefined) {
+            event.reason = failure_reason(record.error);
+            event.error = (record.error as Error)?.name ?? 'Error';
+        }
+
+        for (const listener of this.listeners) {
+            try {
+                Promise.resolve(listener(event)).catch((error) => this.report(error));
+            } catch (error) {
+                this.report(error);
+            }
+        }
+        this.target?.dispatchEvent(new CustomEvent(event.type, { detail: event }));
+    }
+
+    private report(error: unknown): void {
+        this.log.warn('Audit listener failed: %s', error);
+    }
+}
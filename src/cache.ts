@@ -0,0 +1,302 @@
+import { compare, type IPPolicy, type UserAgentPolicy } from './compare.js';
+import type { ClientContext } from './context.js';
+import {
+    type ApiResponse,
+    MagicAuthError,
+    NetworkError,
+    NotFoundError,
+    SessionExpiredError,
+    TimeoutError,
+} from './errors.js';
+import type { RequestOptions } from './http.js';
+import { Session } from './models.js';
+
+/**
+ * Key-value store behind the session cache
+ * Values are plain JSON-serializable objects, so a Redis-like backend can `JSON.stringify` them
+ * and use `ttl` (milliseconds) as the key expiry. Methods may be sync or async.
+ */
+export interface SessionCacheStore {
+    get(key: string): unknown | Promise<unknown>;
+    set(key: string, value: unknown, ttl: number): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Opt-in cache around `Collection.validate`
+ */
+export interface SessionCacheOptions {
+    /** How long a validated session is served from the cache, in milliseconds (default: 30000) */
+    ttl?: number;
+    /** How long "not found" and "expired" results are cached, in milliseconds (default: 0, off) */
+    negative_ttl?: number;
+    /** Backend (default: an in-memory LRU store) */
+    store?: SessionCacheStore;
+    /** Entries kept by the default in-memory store (default: 1000) */
+    max_entries?: number;
+    /** Rules for re-checking the IP address of a cached session */
+    ip_policy?: IPPolicy;
+    /** Rules for re-checking the User Agent of a cached session */
+    user_agent_policy?: UserAgentPolicy;
+}
+
+type CachedSession = { session: Record<string, unknown>; context: ClientContext; cached: number };
+type CachedFailure = { error: ApiResponse; cached: number };
+type Revocation = { revoked: number };
+
+const DEFAULT_TTL = 30_000;
+
+/**
+ * In-memory store that evicts the least recently used entry when full
+ */
+export class MemoryStore implements SessionCacheStore {
+    private entries = new Map<string, { value: unknown; expires: number }>();
+    private max_entries: number;
+
+    /**
+     * @param max_entries - Entries kept before the least recently used is evicted (default: 1000)
+     */
+    constructor(max_entries = 1000) {
+        this.max_entries = max_entries;
+    }
+
+    get(key: string): unknown {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        this.entries.delete(key);
+        if (entry.expires <= Date.now()) {
+            return undefined;
+        }
+        // Re-insert so Map order tracks recency
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    /**
+     * @param ttl - Milliseconds until the entry expires (default: never, until evicted)
+     */
+    set(key: string, value: unknown, ttl?: number): void {
+        this.entries.delete(key);
+        this.entries.set(key, {
+            value,
+            expires: ttl === undefined ? Infinity : Date.now() + ttl,
+        });
+        while (this.entries.size > this.max_entries) {
+            this.entries.delete(this.entries.keys().next().value as string);
+        }
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+}
+
+function session_key(id: string): string {
+    return `session:${id}`;
+}
+
+function credential_key(credential_id: string): string {
+    return `credential:${credential_id}`;
+}
+
+function expiry_time(session: Record<string, unknown>): number | undefined {
+    const expires = session.expires;
+    if (typeof expires !== 'string' && typeof expires !== 'number') {
+        return undefined;
+    }
+    const time = new Date(expires).getTime();
+    return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Wait for a shared request, giving up on this caller's abort signal or timeout only
+ * @throws {NetworkError} If the signal aborts first
+ * @throws {TimeoutError} If the timeout passes first
+ */
+function wait_for<T>(request: Promise<T>, options: RequestOptions): Promise<T> {
+    const { signal, timeout } = options;
+    if (!signal && !timeout) {
+        return request;
+    }
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            return reject(new NetworkError(signal.reason, 'Request aborted'));
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new NetworkError(signal?.reason, 'Request aborted'));
+        };
+        const timer = timeout
+            ? setTimeout(() => {
+                  signal?.removeEventListener('abort', onAbort);
+                  reject(new TimeoutError(timeout));
+              }, timeout)
+            : undefined;
+        signal?.addEventListener('abort', onAbort, { once: true });
+        request.then(resolve, reject).finally(() => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        });
+    });
+}
+
+/**
+ * Session cache used by a Collection
+ * Serves recently validated sessions without a round-trip after re-checking their bound
+ * context locally, caches "not found"/"expired" results for `negative_ttl`, coalesces
+ * concurrent validations and forgets sessions on logout, password change and credential
+ * changes made through the same Collection.
+ */
+export class SessionCache {
+    private ttl: number;
+    private negative_ttl: number;
+    private store: SessionCacheStore;
+    private options: SessionCacheOptions;
+    private pending = new Map<string, Promise<Session>>();
+
+    /**
+     * @param options - TTLs, store and re-check policies
+     */
+    constructor(options: SessionCacheOptions = {}) {
+        this.options = options;
+        this.ttl = options.ttl ?? DEFAULT_TTL;
+        this.negative_ttl = options.negative_ttl ?? 0;
+        this.store = options.store ?? new MemoryStore(options.max_entries);
+    }
+
+    /**
+     * Validate through the cache
+     * @param id - Session ID
+     * @param context - Request IP address and User Agent
+     * @param fetch_session - Validates against the API and returns the raw session response;
+     *     it is shared by concurrent callers, so it must not use any one caller's signal
+     * @param options - This caller's abort signal and timeout, applied to its own wait only
+     */
+    async validate(
+        id: string,
+        context: ClientContext,
+        fetch_session: () => Promise<Record<string, unknown>>,
+        options: RequestOptions = {}
+    ): Promise<Session> {
+        const cached = await this.lookup(id, context);
+        if (cached) {
+            return cached;
+        }
+
+        // Only identical contexts share a request; others may get a different answer
+        const key = `${id}\n${context.ip_address}\n${context.user_agent}`;
+        let request = this.pending.get(key);
+        if (!request) {
+            request = this.fetch(id, context, fetch_session).finally(() => {
+                this.pending.delete(key);
+            });
+            this.pending.set(key, request);
+            // Callers that gave up no longer observe the shared request
+            request.catch(() => undefined);
+        }
+        return wait_for(request, options);
+    }
+
+    /**
+     * Drop a session from the cache (eg. after logout)
+     */
+    async forget_session(id: string): Promise<void> {
+        await this.store.delete(session_key(id));
+    }
+
+    /**
+     * Make every cached session of a credential stale (eg. after password change or
+     * "sign out everywhere")
+     */
+    async revoke_credential(credential_id: string): Promise<void> {
+        const revocation: Revocation = { revoked: Date.now() };
+        await this.store.set(credential_key(credential_id), revocation, this.ttl);
+    }
+
+    /**
+     * Cached result for a session, or undefined when the API has to be asked
+     * @throws {MagicAuthError} Cached "not found" or "expired" failure
+     */
+    private async lookup(id: string, context: ClientContext): Promise<Session | undefined> {
+        const entry = (await this.store.get(session_key(id))) as
+            CachedSession | CachedFailure | undefined;
+        if (!entry) {
+            return undefined;
+        }
+        if ('error' in entry) {
+            throw MagicAuthError.fromResponse(entry.error);
+        }
+
+        const expires = expiry_time(entry.session);
+        if (expires !== undefined && expires <= Date.now()) {
+            return undefined;
+        }
+        const credential = entry.session.credential as { id?: string } | undefined;
+        if (credential?.id) {
+            const revocation = (await this.store.get(credential_key(credential.id))) as
+                Revocation | undefined;
+            if (revocation && revocation.revoked >= entry.cached) {
+                return undefined;
+            }
+        }
+        if (!this.context_matches(entry, context)) {
+            return undefined;
+        }
+        return new Session(entry.session);
+    }
+
+    /**
+     * Re-check the request context against the context the session is bound to (falling back
+     * to the context it was validated with when the API does not report it)
+     */
+    private context_matches(entry: CachedSession, context: ClientContext): boolean {
+        const bound_ip = entry.session.ip_address;
+        const bound_ua = entry.session.user_agent;
+        return (
+            compare.ipAddresses(
+                context.ip_address,
+                typeof bound_ip === 'string' ? bound_ip : entry.context.ip_address,
+                this.options.ip_policy
+            ) &&
+            compare.userAgents(
+                context.user_agent,
+                typeof bound_ua === 'string' ? bound_ua : entry.context.user_agent,
+                this.options.user_agent_policy
+            )
+        );
+    }
+
+    private async fetch(
+        id: string,
+        context: ClientContext,
+        fetch_session: () => Promise<Record<string, unknown>>
+    ): Promise<Session> {
+        // Stamp entries with the request start so a revocation during the request wins
+        const started = Date.now();
+        let data: Record<string, unknown>;
+        try {
+            data = await fetch_session();
+        } catch (error) {
+            if (
+                this.negative_ttl > 0 &&
+                (error instanceof NotFoundError || error instanceof SessionExpiredError)
+            ) {
+                const failure: CachedFailure = { error: error.response ?? {}, cached: started };
+                await this.store.set(session_key(id), failure, this.negative_ttl);
+            }
+            throw error;
+        }
+
+        // Parse before caching so an invalid response is never stored
+        const session = new Session(data);
+        const expires = expiry_time(data);
+        const ttl = Math.min(this.ttl, expires === undefined ? Infinity : expires - Date.now());
+        if (ttl > 0) {
+            const entry: CachedSession = { session: data, context, cached: started };
+            await this.store.set(session_key(id), entry, ttl);
+        }
+        return session;
+    }
+}
@@ -0,0 +1,375 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { Collection, type CollectionOptions } from './collection.js';
+import { compare, type UserAgentField, type UserAgentPolicy } from './compare.js';
+import { MagicAuthError } from './errors.js';
+
+/**
+ * Where the CLI reads its environment and writes its output (swapped out in tests)
+ */
+export interface CliIO {
+    stdout(text: string): void;
+    stderr(text: string): void;
+    env: Record<string, string | undefined>;
+}
+
+/**
+ * Connection settings of one profile in the profile file
+ */
+interface Profile {
+    base_url?: string;
+    collection_id?: string;
+    access_key?: string;
+}
+
+type Values = ReturnType<typeof parse>['values'];
+
+const USER_AGENT_FIELDS: UserAgentField[] = [
+    'cpu',
+    'os',
+    'browser',
+    'engine',
+    'device_type',
+    'device_vendor',
+];
+const VERSION_RULES: NonNullable<UserAgentPolicy['version']>[] = ['ignore', 'monotonic', 'exact'];
+
+const USAGE = `Usage: magicauth <command> [options]
+
+Commands:
+  collection create [--out <file>]
+  credential create --password <password>
+  credential password <credential_id> --current-password <password> --new-password <password>
+  session create <credential_id> --password <password> --ip <address> --user-agent <ua>
+  session validate <session_id> --ip <address> --user-agent <ua>
+  compare user-agents <request_ua> <session_ua> [--fields cpu,os,browser] [--version ignore]
+  compare ip-addresses <request_ip> <session_ip> [--ipv4-prefix 32] [--ipv6-prefix 128]
+      [--private-bypass]
+
+Connection (flags, then environment, then profile):
+  --base-url <url>         MAGICAUTH_API_URL
+  --collection <id>        MAGICAUTH_COLLECTION_ID
+  --access-key <key>       MAGICAUTH_ACCESS_KEY
+  --credentials <file>     MAGICAUTH_CREDENTIALS    Collection.create() JSON, eg. from --out
+  --profile <name>         MAGICAUTH_PROFILE        Profile in the profile file (default: "default")
+  --config <file>          MAGICAUTH_CONFIG         Profile file (default: ~/.magicauth.json)
+
+Passwords may also be given as MAGICAUTH_PASSWORD, MAGICAUTH_CURRENT_PASSWORD and
+MAGICAUTH_NEW_PASSWORD to keep them out of the process list.
+
+Output:
+  --json                   Print JSON instead of text
+
+Exit status: 0 on success or match, 1 on an error or mismatch, 2 on a usage error.`;
+
+/**
+ * Wrong or missing arguments; reported with exit status 2
+ */
+class UsageError extends Error {}
+
+function parse(argv: string[]) {
+    return parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            'base-url': { type: 'string' },
+            collection: { type: 'string' },
+            'access-key': { type: 'string' },
+            credentials: { type: 'string' },
+            profile: { type: 'string' },
+            config: { type: 'string' },
+            json: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+            out: { type: 'string' },
+            password: { type: 'string' },
+            'current-password': { type: 'string' },
+            'new-password': { type: 'string' },
+            ip: { type: 'string' },
+            'user-agent': { type: 'string' },
+            fields: { type: 'string' },
+            version: { type: 'string' },
+            'ipv4-prefix': { type: 'string' },
+            'ipv6-prefix': { type: 'string' },
+            'private-bypass': { type: 'boolean' },
+        },
+    });
+}
+
+async function read_json(file: string): Promise<unknown> {
+    try {
+        return JSON.parse(await readFile(file, 'utf8'));
+    } catch (error) {
+        throw new UsageError(`Cannot read ${file}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Load the selected profile; a missing default profile file is not an error
+ */
+async function load_profile(values: Values, env: CliIO['env']): Promise<Profile> {
+    const explicit = values.config ?? env.MAGICAUTH_CONFIG;
+    const file = explicit ?? join(env.HOME ?? homedir(), '.magicauth.json');
+    let profiles: Record<string, Profile>;
+    try {
+        profiles = JSON.parse(await readFile(file, 'utf8'));
+    } catch (error) {
+        if (explicit === undefined && (error as { code?: string }).code === 'ENOENT') {
+            return {};
+        }
+        throw new UsageError(`Cannot read ${file}: ${(error as Error).message}`);
+    }
+
+    const name = values.profile ?? env.MAGICAUTH_PROFILE;
+    const profile = profiles[name ?? 'default'];
+    if (name !== undefined && profile === undefined) {
+        throw new UsageError(`Profile "${name}" not found in ${file}`);
+    }
+    return profile ?? {};
+}
+
+/**
+ * Resolve connection settings from flags, environment, credentials file and profile
+ */
+async function connection(values: Values, env: CliIO['env']) {
+    const profile = await load_profile(values, env);
+    const credentials_file = values.credentials ?? env.MAGICAUTH_CREDENTIALS;
+    const credentials = credentials_file
+        ? ((await read_json(credentials_file)) as { id?: string; access_key?: { key?: string } })
+        : undefined;
+
+    return {
+        base_url: values['base-url'] ?? env.MAGICAUTH_API_URL ?? profile.base_url,
+        collection_id:
+            values.collection ??
+            env.MAGICAUTH_COLLECTION_ID ??
+            credentials?.id ??
+            profile.collection_id,
+        access_key:
+            values['access-key'] ??
+            env.MAGICAUTH_ACCESS_KEY ??
+            credentials?.access_key?.key ??
+            profile.access_key,
+    };
+}
+
+async function collection(values: Values, env: CliIO['env']): Promise<Collection> {
+    const settings = await connection(values, env);
+    if (!settings.collection_id || !settings.access_key) {
+        throw new UsageError(
+            'A collection ID and access key are required (--collection/--access-key, ' +
+                '--credentials or a profile)'
+        );
+    }
+    const options: CollectionOptions = settings.base_url ? { base_url: settings.base_url } : {};
+    return new Collection(settings.collection_id, settings.access_key, options);
+}
+
+/**
+ * Value of an option, falling back to an environment variable
+ */
+function required(
+    values: Values,
+    env: CliIO['env'],
+    name: 'password' | 'current-password' | 'new-password' | 'ip' | 'user-agent',
+    variable?: string
+): string {
+    const value = values[name] ?? (variable ? env[variable] : undefined);
+    if (value === undefined) {
+        throw new UsageError(`Missing --${name}`);
+    }
+    return value;
+}
+
+function positional(positionals: string[], index: number, name: string): string {
+    const value = positionals[index];
+    if (value === undefined) {
+        throw new UsageError(`Missing <${name}>`);
+    }
+    return value;
+}
+
+function prefix(value: string | undefined, name: string, max: number): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const bits = Number(value);
+    if (!Number.isInteger(bits) || bits < 0 || bits > max) {
+        throw new UsageError(`--${name} must be an integer from 0 to ${max}`);
+    }
+    return bits;
+}
+
+/**
+ * Check that every comma-separated value of an option is one of the allowed values
+ */
+function choices<T extends string>(value: string, allowed: readonly T[], name: string): T[] {
+    const list = value.split(',');
+    for (const entry of list) {
+        if (!allowed.includes(entry as T)) {
+            throw new UsageError(`--${name} must be one of: ${allowed.join(', ')}`);
+        }
+    }
+    return list as T[];
+}
+
+/**
+ * Format a result as `key: value` lines (nested objects flattened with dots)
+ */
+function text(value: unknown, path = ''): string[] {
+    if (value instanceof Date) {
+        return [`${path}: ${value.toISOString()}`];
+    }
+    if (Array.isArray(value)) {
+        return [`${path}: ${value.join(', ')}`];
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.entries(value).flatMap(([key, nested]) =>
+            text(nested, path ? `${path}.${key}` : key)
+        );
+    }
+    return [`${path}: ${value}`];
+}
+
+/**
+ * Run a command and return its result and whether it succeeded
+ */
+async function execute(
+    positionals: string[],
+    values: Values,
+    env: CliIO['env']
+): Promise<{ result: unknown; ok: boolean }> {
+    const [group, command] = positionals;
+
+    switch (`${group} ${command}`) {
+        case 'collection create': {
+            const settings = await connection(values, env);
+            const created = await Collection.create(
+                settings.base_url ? { base_url: settings.base_url } : {}
+            );
+            if (values.out) {
+                await writeFile(values.out, JSON.stringify(created, null, 4) + '\n', {
+                    mode: 0o600,
+                });
+            }
+            return { result: created, ok: true };
+        }
+        case 'credential create': {
+            const magicauth = await collection(values, env);
+            const password = required(values, env, 'password', 'MAGICAUTH_PASSWORD');
+            return { result: await magicauth.user(password), ok: true };
+        }
+        case 'credential password': {
+            const magicauth = await collection(values, env);
+            const user = await magicauth.update_password(
+                positional(positionals, 2, 'credential_id'),
+                required(values, env, 'current-password', 'MAGICAUTH_CURRENT_PASSWORD'),
+                required(values, env, 'new-password', 'MAGICAUTH_NEW_PASSWORD')
+            );
+            return { result: user, ok: true };
+        }
+        case 'session create': {
+            const magicauth = await collection(values, env);
+            const session = await magicauth.session(
+                positional(positionals, 2, 'credential_id'),
+                required(values, env, 'password', 'MAGICAUTH_PASSWORD'),
+                required(values, env, 'ip'),
+                required(values, env, 'user-agent')
+            );
+            return { result: session, ok: true };
+        }
+        case 'session validate': {
+            const magicauth = await collection(values, env);
+            const session = await magicauth.validate(
+                positional(positionals, 2, 'session_id'),
+                required(values, env, 'ip'),
+                required(values, env, 'user-agent')
+            );
+            return { result: session, ok: true };
+        }
+        case 'compare user-agents': {
+            const policy: UserAgentPolicy = {};
+            if (values.fields) {
+                policy.fields = choices(values.fields, USER_AGENT_FIELDS, 'fields');
+            }
+            if (values.version) {
+                [policy.version] = choices(values.version, VERSION_RULES, 'version');
+            }
+            const result = compare.userAgentMatch(
+                positional(positionals, 2, 'request_ua'),
+                positional(positionals, 3, 'session_ua'),
+                policy
+            );
+            return { result, ok: result.match };
+        }
+        case 'compare ip-addresses': {
+            const ipv4_prefix = prefix(values['ipv4-prefix'], 'ipv4-prefix', 32);
+            const ipv6_prefix = prefix(values['ipv6-prefix'], 'ipv6-prefix', 128);
+            const policy = { ipv4_prefix, ipv6_prefix, private_bypass: values['private-bypass'] };
+            const result = compare.ipAddressMatch(
+                positional(positionals, 2, 'request_ip'),
+                positional(positionals, 3, 'session_ip'),
+                policy
+            );
+            return { result, ok: result.match };
+        }
+        default:
+            throw new UsageError(
+                group === undefined
+                    ? 'Missing command'
+                    : `Unknown command: ${positionals.join(' ')}`
+            );
+    }
+}
+
+/**
+ * Run the `magicauth` command line
+ * @param argv - Arguments after the executable (eg. `process.argv.slice(2)`)
+ * @param io - Output streams and environment
+ * @returns Exit status
+ */
+export async function run(argv: string[], io: CliIO): Promise<number> {
+    let values: Values;
+    let positionals: string[];
+    try {
+        ({ values, positionals } = parse(argv));
+    } catch (error) {
+        io.stderr(`${(error as Error).message}\n\n${USAGE}\n`);
+        return 2;
+    }
+    if (values.help) {
+        io.stdout(`${USAGE}\n`);
+        return 0;
+    }
+
+    try {
+        const { result, ok } = await execute(positionals, values, io.env);
+        io.stdout(
+            values.json ? `${JSON.stringify(result, null, 4)}\n` : `${text(result).join('\n')}\n`
+        );
+        return ok ? 0 : 1;
+    } catch (error) {
+        if (error instanceof UsageError) {
+            io.stderr(`${error.message}\n\n${USAGE}\n`);
+            return 2;
+        }
+        if (!(error instanceof MagicAuthError)) {
+            // Eg. a file that cannot be written; report it without a stack trace
+            const message = error instanceof Error ? error.message : String(error);
+            io.stderr(
+                values.json
+                    ? `${JSON.stringify({ error: 'Error', message }, null, 4)}\n`
+                    : `Error: ${message}\n`
+            );
+            return 1;
+        }
+        if (values.json) {
+            const { name, message, status } = error;
+            io.stderr(`${JSON.stringify({ error: name, message, status }, null, 4)}\n`);
+        } else {
+            io.stderr(`${error.name}: ${error.message}\n`);
+        }
+        return 1;
+    }
+}
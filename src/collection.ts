@@ -0,0 +1,1242 @@
+import {
+    type ApiResponse,
+    ContextMismatchError,
+    InvalidCodeError,
+    InvalidTokenError,
+    MagicAuthError,
+    NotFoundError,
+    PasswordPolicyError,
+    SecondFactorRequiredError,
+    SessionExpiredError,
+} from './errors.js';
+import { HttpClient, type RequestOptions, type TransportOptions } from './http.js';
+import { create_log, log as default_log, type LogLevel, type SdkLogger } from './log.js';
+import { INSPECT, REDACTED, RedactedLogger } from './redact.js';
+import { config } from './config.js';
+import {
+    MemoryStore,
+    SessionCache,
+    type SessionCacheOptions,
+    type SessionCacheStore,
+} from './cache.js';
+import {
+    RateLimiter,
+    type RateLimitedOperation,
+    type RateLimitOptions,
+    type RateLimitUsage,
+} from './ratelimit.js';
+import { checkPassword, type PasswordPolicy } from './password.js';
+import { type MfaOptions, SecondFactor } from './mfa.js';
+import {
+    check_reset_options,
+    DEFAULT_RESET_TTL,
+    type PasswordResetOptions,
+    read_reset_token,
+    type ResetTokenPayload,
+    sign_reset_token,
+    used_reset_key,
+} from './reset.js';
+import {
+    evaluateRisk,
+    type ReauthenticationOptions,
+    type RiskAssessment,
+    type RiskContext,
+    type RiskPolicy,
+} from './risk.js';
+import {
+    check_token_context,
+    check_token_keys,
+    read_session_token,
+    sign_session_token,
+    type SessionTokenClaims,
+    type SessionTokenOptions,
+} from './token.js';
+import type { ClientContext } from './context.js';
+import {
+    AuditEmitter,
+    type AuditEventType,
+    type AuditListener,
+    type AuditRecord,
+} from './audit.js';
+import { User, Session, type CollectionResponse, parse_collection, parse_list } from './models.js';
+
+/**
+ * Check API response for error status and throw if present
+ * @param response - API response object
+ * @throws {MagicAuthError} Subclass matching the failure if response contains status or error properties
+ */
+function error_check(response: ApiResponse): void {
+    if (response.status || response.error) {
+        throw MagicAuthError.fromResponse(response);
+    }
+}
+
+const DEFAULT_REAUTHENTICATION_TTL = 60 * 60 * 1000;
+
+function reauthentication_key(session_id: string): string {
+    return `reauthenticated:${session_id}`;
+}
+
+/**
+ * Per-instance client configuration
+ * Anything left unset falls back to the global `config`
+ */
+export interface CollectionOptions {
+    /** API base URL (default: `config.API_BASE_URL`) */
+    base_url?: string;
+    /** Extra headers sent with every request */
+    headers?: Record<string, string>;
+    /** Identifies your application in the User-Agent header of API requests (eg. "my-app/1.2") */
+    user_agent?: string;
+    /** Logger for this instance; receives redacted arguments (default: the SDK's loganite logger) */
+    logger?: SdkLogger;
+    /** Lowest level logged by this instance (default: `LOG_LEVEL`, or everything for `logger`) */
+    log_level?: LogLevel;
+    /** Transport settings, merged over `config.transport` */
+    transport?: TransportOptions;
+    /** Cache `validate` results (default: off) */
+    cache?: SessionCacheOptions;
+    /** Track the collection's rate limits locally (default: off) */
+    rate_limits?: RateLimitOptions;
+    /** Check passwords locally before `user` and `update_password` send them (default: off) */
+    password_policy?: PasswordPolicy;
+    /** Enable `password_reset_token` and `reset_password` with a signing secret (default: off) */
+    password_reset?: PasswordResetOptions;
+    /** Require a TOTP or recovery code after the password for enrolled credentials (default: off) */
+    mfa?: MfaOptions;
+    /** Give sessions a signed token that `verify_token` checks without the API (default: off) */
+    session_tokens?: SessionTokenOptions;
+    /** Where and how long `reauthenticate` remembers password checks (default: 1 hour in memory) */
+    reauthentication?: ReauthenticationOptions;
+    /** Receives audit events: a listener, or an EventTarget to dispatch them on (default: none) */
+    audit?: AuditListener | EventTarget;
+}
+
+/**
+ * Build the redacting logger for a set of collection options
+ * @param options - Collection options
+ */
+function sdk_log(options: CollectionOptions): SdkLogger {
+    const logger =
+        options.logger ?? (options.log_level ? create_log(options.log_level) : default_log);
+    return new RedactedLogger(logger, options.log_level);
+}
+
+/**
+ * Build the HTTP client for a set of collection options
+ * @param options - Collection options
+ * @param log - Logger for retries
+ * @param headers - Headers that take precedence over the configured ones (eg. Authorization)
+ */
+function http_client(
+    options: CollectionOptions,
+    log: SdkLogger,
+    headers: Record<string, string> = {}
+): HttpClient {
+    const default_headers: Record<string, string> = { ...options.headers, ...headers };
+    if (options.user_agent) {
+        default_headers['User-Agent'] = `${options.user_agent} magicauth-sdk`;
+    }
+    return new HttpClient(
+        options.base_url ?? config.API_BASE_URL,
+        default_headers,
+        { ...config.transport, ...options.transport },
+        log
+    );
+}
+
+/**
+ * Collection class for interacting with MagicAuth service
+ * Represents a collection of credentials in the MagicAuth system
+ */
+export class Collection {
+    collection_id: string;
+    access_key: string;
+    options: CollectionOptions;
+    log: SdkLogger;
+    api: HttpClient;
+    cache: SessionCache | null;
+    limiter: RateLimiter | null;
+    mfa: SecondFactor | null;
+    audit: AuditEmitter;
+    private reauthentications: { store: SessionCacheStore; ttl: number };
+    private resets: { store: SessionCacheStore; in_flight: Set<string> };
+
+    /**
+     * Create a new collection in the MagicAuth service
+     * @param options - Client configuration, same as the Collection constructor takes
+     * @param request - Request timeout and abort signal
+     * @returns Collection details including id and access_key
+     * @throws {InvalidResponseError} If the response is not a collection
+     */
+    static async create(
+        options: CollectionOptions = {},
+        request: RequestOptions = {}
+    ): Promise<CollectionResponse> {
+        const log = sdk_log(options);
+        const anonymous = http_client(options, log);
+        const collection = await anonymous.post('/collections', undefined, request);
+        log.debug('POST collections response: %s', collection);
+        error_check(collection);
+        return parse_collection(collection);
+    }
+
+    /**
+     * Initialize a Collection client
+     * @param collection_id - The collection identifier
+     * @param access_key - Authentication access key
+     * @param options - Base URL, headers, user agent tag, logger and transport settings
+     */
+    constructor(collection_id: string, access_key: string, options: CollectionOptions = {}) {
+        this.collection_id = collection_id;
+        this.access_key = access_key;
+        this.options = options;
+        this.log = sdk_log(options);
+
+        this.api = http_client(options, this.log, {
+            Authorization: `Authentic ${access_key}`,
+        });
+        this.cache = options.cache ? new SessionCache(options.cache) : null;
+        this.limiter = options.rate_limits ? new RateLimiter(options.rate_limits) : null;
+        this.mfa = options.mfa ? new SecondFactor(options.mfa) : null;
+        if (options.password_reset) {
+            check_reset_options(options.password_reset);
+        }
+        if (options.session_tokens) {
+            check_token_keys(options.session_tokens.keys);
+        }
+        this.audit = new AuditEmitter(
+            this.log,
+            typeof options.audit === 'function' ? undefined : options.audit
+        );
+        if (typeof options.audit === 'function') {
+            this.audit.subscribe(options.audit);
+        }
+        this.reauthentications = {
+            store:
+                options.reauthentication?.store ??
+                new MemoryStore(options.reauthentication?.max_entries ?? 10_000),
+            ttl: options.reauthentication?.ttl ?? DEFAULT_REAUTHENTICATION_TTL,
+        };
+        this.resets = {
+            store: options.password_reset?.store ?? new MemoryStore(10_000),
+            in_flight: new Set(),
+        };
+    }
+
+    /**
+     * Serializable form without the access key (eg. for error reports)
+     */
+    toJSON(): Record<string, unknown> {
+        return {
+            collection_id: this.collection_id,
+            access_key: REDACTED,
+            base_url: this.options.base_url ?? config.API_BASE_URL,
+        };
+    }
+
+    [INSPECT](
+        _depth: number,
+        options: object,
+        inspect: (value: unknown, options: object) => string
+    ): string {
+        return `Collection ${inspect(this.toJSON(), options)}`;
+    }
+
+    /**
+     * Current client-side quota per rate limited operation
+     * @returns Limit, remaining calls and reset time of each tracked operation (empty when
+     *     rate limiting is off)
+     */
+    usage(): Partial<Record<RateLimitedOperation, RateLimitUsage>> {
+        return this.limiter?.usage() ?? {};
+    }
+
+    /**
+     * Wait for (or reject on) the client-side limit of an operation and keep the limiter in
+     * sync with the rate-limit headers of the responses
+     * @returns Request options to send the call with
+     * @throws {QuotaExceededError} If the limit is reached
+     */
+    private async rate_limit(
+        operation: RateLimitedOperation,
+        options: RequestOptions
+    ): Promise<RequestOptions> {
+        const limiter = this.limiter;
+        if (!limiter) {
+            return options;
+        }
+        await limiter.acquire(operation, options.signal);
+        return {
+            ...options,
+            on_response: (response) => {
+                limiter.update(operation, response);
+                options.on_response?.(response);
+            },
+        };
+    }
+
+    /**
+     * Apply the password policy, if any
+     * @throws {PasswordPolicyError} Listing every rule the password breaks
+     */
+    private async check_password(password: string, current_password?: string): Promise<void> {
+        const policy = this.options.password_policy;
+        if (!policy) {
+            return;
+        }
+        const result = await checkPassword(password, policy, { current_password });
+        if (!result.valid) {
+            throw new PasswordPolicyError(result.violations);
+        }
+    }
+
+    /**
+     * Run an operation and emit its audit event
+     * Failures emit `failure` (context mismatches always emit `context_mismatch`); operations
+     * without a failure event only report successes.
+     * @param record - Event type and what is known before the call
+     * @param failure - Event type for errors, or null
+     * @param operation - The API call
+     * @param details - Event fields taken from the result
+     */
+    private async audited<T>(
+        record: Pick<
+            AuditRecord,
+            'type' | 'credential_id' | 'session_id' | 'ip_address' | 'user_agent'
+        >,
+        failure: AuditEventType | null,
+        operation: () => Promise<T>,
+        details: (result: T) => Partial<AuditRecord> = () => ({})
+    ): Promise<T> {
+        if (!this.audit.active) {
+            return operation();
+        }
+        const base = { ...record, collection_id: this.collection_id, started: Date.now() };
+        let result: T;
+        try {
+            result = await operation();
+        } catch (error) {
+            if (failure) {
+                const type = error instanceof ContextMismatchError ? 'context_mismatch' : failure;
+                await this.audit.emit({ ...base, type, error });
+            }
+            throw error;
+        }
+        await this.audit.emit({ ...base, ...details(result) });
+        return result;
+    }
+
+    /**
+     * Create a new user credential
+     * @param password - Password for the new credential
+     * @param options - Request timeout, abort signal and whether to skip the password policy
+     * @returns User object with credential id (format: "Auth_U1-...")
+     * @throws {MagicAuthError} If the credential could not be created
+     * @throws {PasswordPolicyError} If the password breaks the password policy
+     * @throws {QuotaExceededError} If the client-side rate limit is reached
+     */
+    async user(password: string, options: CreateUserOptions = {}): Promise<User> {
+        return this.audited(
+            { type: 'credential_created' },
+            null,
+            async () => {
+                if (!options.skip_password_policy) {
+                    await this.check_password(password);
+                }
+                const request = await this.rate_limit('credentials_created', options);
+                const user = await this.api.post(
+                    `/collections/${this.collection_id}/credentials`,
+                    {
+                        password: password,
+                    },
+                    request
+                );
+                this.log.debug('POST credentials response: %s', user);
+                error_check(user);
+                return new User(user);
+            },
+            (user) => ({ credential_id: user.id })
+        );
+    }
+
+    /**
+     * Update password for an existing credential
+     * @param credential_id - The credential ID to update
+     * @param current_password - Current password for verification
+     * @param password - New password
+     * @param options - Request timeout and abort signal
+     * @returns Updated user object
+     * @throws {AuthenticationError} If current password is wrong
+     * @throws {NotFoundError} If credential does not exist
+     * @throws {PasswordPolicyError} If the new password breaks the password policy
+     * @throws {QuotaExceededError} If the client-side rate limit is reached
+     */
+    async update_password(
+        credential_id: string,
+        current_password: string,
+        password: string,
+        options: RequestOptions = {}
+    ): Promise<User> {
+        return this.audited(
+            { type: 'password_changed', credential_id },
+            'authentication_failed',
+            async () => {
+                await this.check_password(password, current_password);
+                const request = await this.rate_limit('credentials_updated', options);
+                const credential = await this.api.put(
+                    `/credentials/${credential_id}`,
+                    {
+                        current_password,
+                        password,
+                    },
+                    request
+                );
+                this.log.debug('PUT credentials response: %s', credential);
+                error_check(credential);
+                await this.cache?.revoke_credential(credential_id);
+                return new User(credential);
+            }
+        );
+    }
+
+    /**
+     * Create a password reset token for a credential (eg. for an emailed reset link)
+     * The token is HMAC-signed with `password_reset.secret`. It works once: `reset_password`
+     * records it in `password_reset.store` and replaces the credential it names.
+     * @param credential_id - The credential ID
+     * @param options - Token lifetime in milliseconds (default: `password_reset.ttl`)
+     * @returns Token for the reset link; treat it like a password
+     * @throws {TypeError} If the Collection has no `password_reset` option
+     */
+    async password_reset_token(
+        credential_id: string,
+        options: { ttl?: number } = {}
+    ): Promise<string> {
+        const reset = this.reset_options();
+        return this.audited({ type: 'password_reset_requested', credential_id }, null, () =>
+            sign_reset_token(
+                reset.secret,
+                credential_id,
+                options.ttl ?? reset.ttl ?? DEFAULT_RESET_TTL
+            )
+        );
+    }
+
+    /**
+     * Check a password reset token (eg. before showing the new password form)
+     * @param token - Token from `password_reset_token`
+     * @param options - Request timeout and abort signal
+     * @returns The credential the token resets
+     * @throws {InvalidTokenError} If the token is malformed, forged, expired or already used, or
+     *     its credential was deleted or disabled
+     * @throws {TypeError} If the Collection has no `password_reset` option
+     */
+    async verify_reset_token(token: string, options: RequestOptions = {}): Promise<User> {
+        return (await this.read_reset(token, options)).credential;
+    }
+
+    /**
+     * Set a new password with a reset token (forgotten password)
+     * The MagicAuth API only changes a password when given the current one, so the credential is
+     * replaced and its ID changes: a credential with the new password is created, the second
+     * factor (if any) moves to it, `password_reset.on_credential_replaced` stores the new ID and
+     * the old credential is deleted along with all of its sessions. A failure on the way puts
+     * the old credential back and leaves the token usable.
+     *
+     * The token is marked as used before the new credential is created, so concurrent calls
+     * with one token create a single credential. If the process dies before the old credential
+     * is deleted, the token stays used and the new credential is left unreferenced.
+     * @param token - Token from `password_reset_token`
+     * @param password - New password
+     * @param options - Request timeout and abort signal
+     * @returns The new credential
+     * @throws {InvalidTokenError} If the token cannot be used (see `verify_reset_token`)
+     * @throws {PasswordPolicyError} If the new password breaks the password policy
+     * @throws {QuotaExceededError} If the client-side rate limit is reached
+     * @throws {TypeError} If the Collection has no `password_reset` option
+     */
+    async reset_password(
+        token: string,
+        password: string,
+        options: RequestOptions = {}
+    ): Promise<User> {
+        const reset = this.reset_options();
+        return this.audited(
+            { type: 'password_reset' },
+            'password_reset_failed',
+            async () => {
+                const { payload, credential: previous } = await this.read_reset(token, options);
+                // Claimed in this process first, then in the store, so a concurrent call with
+                // the same token sees one or the other
+                const used = used_reset_key(payload);
+                if (this.resets.in_flight.has(used)) {
+                    throw new InvalidTokenError('revoked');
+                }
+                this.resets.in_flight.add(used);
+                try {
+                    if (await this.resets.store.get(used)) {
+                        throw new InvalidTokenError('revoked');
+                    }
+                    await this.resets.store.set(used, true, payload.expires - Date.now());
+                    try {
+                        return await this.replace_credential(previous, password, reset, options);
+                    } catch (error) {
+                        await this.resets.store.delete(used);
+                        throw error;
+                    }
+                } finally {
+                    this.resets.in_flight.delete(used);
+                }
+            },
+            (user) => ({ credential_id: user.id })
+        );
+    }
+
+    /**
+     * Verify a reset token's signature, expiry and use, and fetch its credential
+     * @throws {InvalidTokenError} If the token cannot be used
+     */
+    private async read_reset(
+        token: string,
+        options: RequestOptions
+    ): Promise<{ payload: ResetTokenPayload; credential: User }> {
+        const payload = await read_reset_token(this.reset_options().secret, token);
+        if (await this.resets.store.get(used_reset_key(payload))) {
+            throw new InvalidTokenError('revoked');
+        }
+        let credential: User;
+        try {
+            credential = await this.credential(payload.credential_id, options);
+        } catch (error) {
+            throw error instanceof NotFoundError ? new InvalidTokenError('revoked') : error;
+        }
+        if (credential.disabled) {
+            throw new InvalidTokenError('revoked');
+        }
+        return { payload, credential };
+    }
+
+    /**
+     * Create a credential with the new password in place of `previous`
+     * Undone (as far as possible) if storing the new ID or deleting the old credential fails.
+     */
+    private async replace_credential(
+        previous: User,
+        password: string,
+        reset: PasswordResetOptions,
+        options: RequestOptions
+    ): Promise<User> {
+        const user = await this.user(password, options);
+        await this.mfa?.move(previous.id, user.id);
+        let replaced = false;
+        try {
+            await reset.on_credential_replaced(previous.id, user.id);
+            replaced = true;
+            await this.delete_credential(previous.id, options);
+        } catch (error) {
+            await this.mfa?.move(user.id, previous.id);
+            try {
+                if (replaced) {
+                    await reset.on_credential_replaced(user.id, previous.id);
+                }
+                await this.delete_credential(user.id, options);
+            } catch (cleanup) {
+                this.log.warn(
+                    'Rolling back the reset to credential %s failed: %s',
+                    user.id,
+                    cleanup
+                );
+            }
+            throw error;
+        }
+        return user;
+    }
+
+    private reset_options(): PasswordResetOptions {
+        if (!this.options.password_reset) {
+            throw new TypeError('Password resets need the Collection option `password_reset`');
+        }
+        return this.options.password_reset;
+    }
+
+    /**
+     * Fetch a credential's metadata
+     * @param credential_id - The credential ID
+     * @param options - Request timeout and abort signal
+     * @returns User object
+     * @throws {NotFoundError} If credential does not exist
+     */
+    async credential(credential_id: string, options: RequestOptions = {}): Promise<User> {
+        const credential = await this.api.get(`/credentials/${credential_id}`, undefined, options);
+        this.log.debug('GET credential response: %s', credential);
+        error_check(credential);
+        return new User(credential);
+    }
+
+    /**
+     * List one page of credentials in this collection
+     * Increase `offset` by the returned length to fetch the next page; an empty list means done
+     * @param options - Page offset and limit, request timeout and abort signal
+     * @returns List of user objects
+     */
+    async credentials(options: CredentialListOptions & RequestOptions = {}): Promise<User[]> {
+        const params: Record<string, unknown> = {};
+        if (options.offset !== undefined) {
+            params.offset = options.offset;
+        }
+        if (options.limit !== undefined) {
+            params.limit = options.limit;
+        }
+        const credentials = await this.api.get(
+            `/collections/${this.collection_id}/credentials`,
+            params,
+            options
+        );
+        this.log.debug('GET credentials response: %s', credentials);
+        error_check(credentials);
+        return parse_list('User', credentials).map((credential) => new User(credential));
+    }
+
+    /**
+     * Disable a credential (lock the account)
+     * Disabled credentials cannot create sessions until re-enabled
+     * @param credential_id - The credential ID
+     * @param options - Request timeout and abort signal
+     * @returns Updated user object
+     * @throws {NotFoundError} If credential does not exist
+     */
+    async disable_credential(credential_id: string, options: RequestOptions = {}): Promise<User> {
+        const request = await this.rate_limit('credentials_updated', options);
+        const credential = await this.api.put(
+            `/credentials/${credential_id}`,
+            {
+                disabled: true,
+            },
+            request
+        );
+        this.log.debug('PUT credentials response: %s', credential);
+        error_check(credential);
+        await this.cache?.revoke_credential(credential_id);
+        return new User(credential);
+    }
+
+    /**
+     * Re-enable a disabled credential
+     * @param credential_id - The credential ID
+     * @param options - Request timeout and abort signal
+     * @returns Updated user object
+     * @throws {NotFoundError} If credential does not exist
+     */
+    async enable_credential(credential_id: string, options: RequestOptions = {}): Promise<User> {
+        const request = await this.rate_limit('credentials_updated', options);
+        const credential = await this.api.put(
+            `/credentials/${credential_id}`,
+            {
+                disabled: false,
+            },
+            request
+        );
+        this.log.debug('PUT credentials response: %s', credential);
+        error_check(credential);
+        return new User(credential);
+    }
+
+    /**
+     * Permanently delete a credential and all of its sessions
+     * @param credential_id - The credential ID
+     * @param options - Request timeout and abort signal
+     * @returns Deleted user object
+     * @throws {NotFoundError} If credential does not exist
+     */
+    async delete_credential(credential_id: string, options: RequestOptions = {}): Promise<User> {
+        const credential = await this.api.delete(
+            `/credentials/${credential_id}`,
+            undefined,
+            options
+        );
+        this.log.debug('DELETE credential response: %s', credential);
+        error_check(credential);
+        await this.cache?.revoke_credential(credential_id);
+        return new User(credential);
+    }
+
+    /**
+     * Create a new session for a credential
+     * Session is bound to the provided IP address and User Agent for security
+     * @param credential_id - The credential ID
+     * @param password - Credential password
+     * @param ip_address - Client IP address for session binding
+     * @param user_agent - Client User Agent for session binding
+     * @param options - Request timeout and abort signal
+     * @returns Session object with session id; `second_factor` is "pending" when the credential
+     *     has a second factor, and the session only works after `verify_second_factor`
+     * @throws {AuthenticationError} If password is wrong
+     * @throws {NotFoundError} If credential does not exist
+     * @throws {QuotaExceededError} If the client-side rate limit is reached
+     */
+    async session(
+        credential_id: string,
+        password: string,
+        ip_address: string,
+        user_agent: string,
+        options: RequestOptions = {}
+    ): Promise<Session> {
+        return this.audited(
+            { type: 'session_created', credential_id, ip_address, user_agent },
+            'authentication_failed',
+            async () => {
+                const request = await this.rate_limit('sessions_created', options);
+                const session = await this.api.post(
+                    `/credentials/${credential_id}/sessions`,
+                    {
+                        password,
+                        ip_address,
+                        user_agent,
+                    },
+                    request
+                );
+                this.log.debug('POST sessions response: %s', session);
+                error_check(session);
+                const result = new Session({ credential: { id: credential_id }, ...session });
+                if (await this.mfa?.required(credential_id)) {
+                    result.second_factor = 'pending';
+                }
+                return this.issue_token(result, ip_address, user_agent);
+            },
+            (session) => ({ session_id: session.id })
+        );
+    }
+
+    /**
+     * Validate an existing session
+     * Verifies session is still valid and matches IP/User Agent context
+     * @param id - Session ID
+     * @param ip_address - Current client IP address
+     * @param user_agent - Current client User Agent
+     * @param options - Request timeout and abort signal
+     * @returns Session object including credential information
+     * @throws {SessionExpiredError} If session expired
+     * @throws {NotFoundError} If session does not exist
+     * @throws {ContextMismatchError} If IP address or User Agent doesn't match
+     * @throws {SecondFactorRequiredError} If the session still needs `verify_second_factor`
+     */
+    async validate(
+        id: string,
+        ip_address: string,
+        user_agent: string,
+        options: RequestOptions = {}
+    ): Promise<Session> {
+        return this.audited(
+            { type: 'session_validated', session_id: id, ip_address, user_agent },
+            'validation_failed',
+            async () => {
+                const session = this.cache
+                    ? await this.cache.validate(
+                          id,
+                          { ip_address, user_agent },
+                          // Shared by concurrent callers: their signals apply to their own wait
+                          () =>
+                              this.fetch_session(id, ip_address, user_agent, {
+                                  on_response: options.on_response,
+                              }),
+                          options
+                      )
+                    : new Session(await this.fetch_session(id, ip_address, user_agent, options));
+                return this.check_second_factor(session);
+            },
+            (session) => ({ credential_id: session.credential.id })
+        );
+    }
+
+    /**
+     * Validate a session with its signed token, without the API while the token is fresh
+     * The token's signature, expiry and session are checked locally and the request context is
+     * compared with the bound IP address and User Agent using `session_tokens` policies. Only
+     * expired tokens fall back to `validate`, and the returned session carries a fresh token.
+     * Archiving a session does not revoke tokens already issued, so keep `ttl` short.
+     * @param token - `Session.token` from `session`, `renew_session` or `verify_second_factor`
+     * @param id - Session ID
+     * @param ip_address - Current client IP address
+     * @param user_agent - Current client User Agent
+     * @param options - Request timeout and abort signal for the fallback
+     * @returns Session object; without the API it has no `created` or `expires`
+     * @throws {InvalidTokenError} If the token is malformed, forged, signed with an unknown key or
+     *     issued for another session
+     * @throws {ContextMismatchError} If IP address or User Agent doesn't match
+     * @throws {SessionExpiredError} If the token expired and so did the session
+     * @throws {NotFoundError} If the token expired and the session does not exist
+     * @throws {TypeError} If the Collection has no `session_tokens` option
+     */
+    async verify_token(
+        token: string,
+        id: string,
+        ip_address: string,
+        user_agent: string,
+        options: RequestOptions = {}
+    ): Promise<Session> {
+        const settings = this.token_options();
+        let claims: SessionTokenClaims;
+        try {
+            claims = await read_session_token(token, settings.keys, id);
+        } catch (error) {
+            if (!(error instanceof InvalidTokenError) || error.reason !== 'expired') {
+                throw error;
+            }
+            this.log.debug('Session token expired, validating with the API');
+            const session = await this.validate(id, ip_address, user_agent, options);
+            return this.issue_token(session, ip_address, user_agent);
+        }
+        return this.audited(
+            { type: 'session_validated', session_id: id, ip_address, user_agent },
+            'validation_failed',
+            async () => {
+                check_token_context(claims, { ip_address, user_agent }, settings);
+                const session = new Session({
+                    id,
+                    credential: { id: claims.sub },
+                    ip_address: claims.ip,
+                    user_agent: claims.ua,
+                });
+                if (claims.mfa) {
+                    session.second_factor = 'verified';
+                }
+                session.token = token;
+                return session;
+            },
+            (session) => ({ credential_id: session.credential.id })
+        );
+    }
+
+    /**
+     * Attach a signed token to a session when `session_tokens` is set
+     * Pending sessions get none, since they must not validate until the second factor is verified.
+     */
+    private async issue_token(
+        session: Session,
+        ip_address: string,
+        user_agent: string
+    ): Promise<Session> {
+        const settings = this.options.session_tokens;
+        if (!settings || session.second_factor === 'pending') {
+            return session;
+        }
+        session.token = await sign_session_token(
+            settings,
+            {
+                sub: session.credential.id,
+                ip: session.ip_address ?? ip_address,
+                ua: session.user_agent ?? user_agent,
+                ...(session.second_factor === 'verified' && { mfa: true }),
+            },
+            session.id,
+            session.expires
+        );
+        return session;
+    }
+
+    private token_options(): SessionTokenOptions {
+        if (!this.options.session_tokens) {
+            throw new TypeError('verify_token needs the Collection option `session_tokens`');
+        }
+        return this.options.session_tokens;
+    }
+
+    /**
+     * Reject sessions that still need a second factor
+     * @returns The session, marked "verified" when its credential has a second factor
+     * @throws {SecondFactorRequiredError} If the session has not verified a code
+     */
+    private async check_second_factor(session: Session): Promise<Session> {
+        if (this.mfa && (await this.mfa.required(session.credential.id))) {
+            if (!(await this.mfa.verified(session.id))) {
+                throw new SecondFactorRequiredError();
+            }
+            session.second_factor = 'verified';
+        }
+        return session;
+    }
+
+    /**
+     * Validate a session against the API
+     * @returns Raw session response
+     * @throws {MagicAuthError} If validation fails
+     */
+    private async fetch_session(
+        id: string,
+        ip_address: string,
+        user_agent: string,
+        options: RequestOptions
+    ): Promise<ApiResponse> {
+        const session = await this.api.get(
+            `/sessions/${id}`,
+            {
+                ip_address,
+                user_agent,
+            },
+            options
+        );
+        this.log.debug('GET session response: %s', session);
+        error_check(session);
+        return session;
+    }
+
+    /**
+     * Extend an active session's expiry (sliding expiration)
+     * The session gets a full lifetime from now; its ID does not change
+     * @param id - Session ID
+     * @param ip_address - Current client IP address
+     * @param user_agent - Current client User Agent
+     * @param options - Request timeout and abort signal
+     * @returns Session object with the new `expires`
+     * @throws {SessionExpiredError} If session expired
+     * @throws {NotFoundError} If session does not exist
+     * @throws {ContextMismatchError} If IP address or User Agent doesn't match
+     */
+    async renew_session(
+        id: string,
+        ip_address: string,
+        user_agent: string,
+        options: RequestOptions = {}
+    ): Promise<Session> {
+        return this.audited(
+            { type: 'session_renewed', session_id: id, ip_address, user_agent },
+            'validation_failed',
+            async () => {
+                const session = await this.api.put(
+                    `/sessions/${id}`,
+                    {
+                        ip_address,
+                        user_agent,
+                    },
+                    options
+                );
+                this.log.debug('PUT session response: %s', session);
+                error_check(session);
+                await this.cache?.forget_session(id);
+                const renewed = new Session(session);
+                if (this.mfa && (await this.mfa.verified(id))) {
+                    // Keep the verification for the extended lifetime
+                    await this.mfa.mark_verified(renewed);
+                    renewed.second_factor = 'verified';
+                }
+                return this.issue_token(renewed, ip_address, user_agent);
+            },
+            (session) => ({ credential_id: session.credential.id })
+        );
+    }
+
+    /**
+     * Replace a session with a new one and archive the old one
+     * Use on privilege changes, eg. after `update_password` (with the new password) or a role
+     * change, so a session ID captured before the change stops working. If the old session
+     * cannot be archived, the new one is archived instead and the error is thrown.
+     * @param id - Current session ID
+     * @param password - Credential password
+     * @param ip_address - Current client IP address
+     * @param user_agent - Current client User Agent
+     * @param options - Request timeout and abort signal
+     * @returns The new session
+     * @throws {SessionExpiredError} If the current session expired
+     * @throws {NotFoundError} If the current session does not exist
+     * @throws {ContextMismatchError} If IP address or User Agent doesn't match
+     * @throws {AuthenticationError} If password is wrong
+     * @throws {QuotaExceededError} If the client-side rate limit is reached
+     */
+    async rotate_session(
+        id: string,
+        password: string,
+        ip_address: string,
+        user_agent: string,
+        options: RequestOptions = {}
+    ): Promise<Session> {
+        const current = await this.validate(id, ip_address, user_agent, options);
+        const session = await this.session(
+            current.credential.id,
+            password,
+            ip_address,
+            user_agent,
+            options
+        );
+        try {
+            // A verified second factor implies `mfa`
+            if (current.second_factor === 'verified' && this.mfa) {
+                await this.mfa.mark_verified(session);
+                session.second_factor = 'verified';
+                await this.issue_token(session, ip_address, user_agent);
+            }
+            await this.archive_session(id, ip_address, user_agent, options).catch((error) => {
+                // Expired or archived in the meantime is as good as archived
+                if (!(error instanceof NotFoundError || error instanceof SessionExpiredError)) {
+                    throw error;
+                }
+            });
+        } catch (error) {
+            // Keep the current session only, rather than two live ones
+            try {
+                await this.archive_session(session.id, ip_address, user_agent, {
+                    timeout: options.timeout,
+                });
+            } catch (cleanup) {
+                this.log.warn('Archiving the rotated session failed: %s', cleanup);
+            }
+            throw error;
+        }
+        return session;
+    }
+
+    /**
+     * Complete a sign in with a TOTP code or recovery code
+     * Sessions of credentials with a confirmed second factor start "pending" and fail `validate`
+     * until a code is verified. After `mfa.max_attempts` wrong codes the session is archived, and
+     * after `mfa.max_credential_attempts` across sessions the credential is locked.
+     * @param id - Session ID
+     * @param code - TOTP code or recovery code
+     * @param ip_address - Current client IP address
+     * @param user_agent - Current client User Agent
+     * @param options - Request timeout and abort signal
+     * @returns The session, marked "verified"
+     * @throws {InvalidCodeError} If the code is wrong or was used before
+     * @throws {LockedOutError} If the credential has too many wrong codes
+     * @throws {SessionExpiredError} If session expired
+     * @throws {NotFoundError} If session does not exist
+     * @throws {ContextMismatchError} If IP address or User Agent doesn't match
+     * @throws {TypeError} If the Collection has no `mfa` option
+     */
+    async verify_second_factor(
+        id: string,
+        code: string,
+        ip_address: string,
+        user_agent: string,
+        options: RequestOptions = {}
+    ): Promise<Session> {
+        return this.audited(
+            { type: 'second_factor_verified', session_id: id, ip_address, user_agent },
+            'second_factor_failed',
+            async () => {
+                if (!this.mfa) {
+                    throw new TypeError('verify_second_factor needs the Collection option `mfa`');
+                }
+                const session = new Session(
+                    await this.fetch_session(id, ip_address, user_agent, options)
+                );
+                const remaining_attempts = await this.mfa.verify_session(session, code);
+                if (remaining_attempts !== null) {
+                    if (remaining_attempts === 0) {
+                        await this.archive_session(id, ip_address, user_agent, options);
+                    }
+                    throw new InvalidCodeError(remaining_attempts);
+                }
+                session.second_factor = 'verified';
+                return this.issue_token(session, ip_address, user_agent);
+            },
+            (session) => ({ credential_id: session.credential.id })
+        );
+    }
+
+    /**
+     * Check the password of a session's credential again (step-up authentication)
+     * The session is marked as freshly authenticated for `reauthentication.ttl`, which `assess`
+     * compares with `RiskPolicy.fresh_for`. The password is verified by creating a session and
+     * archiving it right away (a failed archive is logged, not thrown); the session itself keeps
+     * its ID and expiry. Wrong passwords are not throttled here; use `BruteForceGuard`.
+     * @param session - Session ID, or the Session `validate` has just returned so it is not
+     *     validated again
+     * @param password - Credential password
+     * @param context - Current client IP address and User Agent
+     * @param options - Request timeout and abort signal
+     * @returns The validated session
+     * @throws {SessionExpiredError} If session expired
+     * @throws {NotFoundError} If session does not exist
+     * @throws {ContextMismatchError} If IP address or User Agent doesn't match
+     * @throws {AuthenticationError} If password is wrong
+     * @throws {QuotaExceededError} If the client-side rate limit is reached
+     * @throws {InvalidResponseError} If the password check does not return a session
+     */
+    async reauthenticate(
+        session: string | Session,
+        password: string,
+        context: ClientContext,
+        options: RequestOptions = {}
+    ): Promise<Session> {
+        const { ip_address, user_agent } = context;
+        const current =
+            typeof session === 'string'
+                ? await this.validate(session, ip_address, user_agent, options)
+                : session;
+        return this.audited(
+            {
+                type: 'reauthenticated',
+                credential_id: current.credential.id,
+                session_id: current.id,
+                ip_address,
+                user_agent,
+            },
+            'authentication_failed',
+            async () => {
+                const request = await this.rate_limit('sessions_created', options);
+                const check = await this.api.post(
+                    `/credentials/${current.credential.id}/sessions`,
+                    {
+                        password,
+                        ip_address,
+                        user_agent,
+                    },
+                    request
+                );
+                this.log.debug('POST sessions response: %s', check);
+                error_check(check);
+                const proof = new Session({ credential: { id: current.credential.id }, ...check });
+                // The password is verified by now, so a failed clean-up only leaves the check
+                // session to expire; it is not cancelled by the caller's signal either
+                try {
+                    const archived = await this.api.delete(
+                        `/sessions/${proof.id}`,
+                        {
+                            ip_address,
+                            user_agent,
+                        },
+                        { timeout: options.timeout }
+                    );
+                    this.log.debug('DELETE session response: %s', archived);
+                    error_check(archived);
+                } catch (error) {
+                    this.log.warn('Archiving the re-authentication session failed: %s', error);
+                }
+
+                // The API's clock, so the time compares with `created` and `expires`
+                await this.reauthentications.store.set(
+                    reauthentication_key(current.id),
+                    proof.created?.getTime() ?? Date.now(),
+                    this.reauthentications.ttl
+                );
+                return current;
+            }
+        );
+    }
+
+    /**
+     * Validate a session and classify the request as allow / re-authenticate / deny
+     * The last password check is the later of the session's creation and its last
+     * `reauthenticate`. Validation failures throw as in `validate`.
+     * @param session_id - Session ID
+     * @param context - Current client IP address and User Agent, optionally the current time
+     * @param policy - Comparison rules, age limits and which reasons deny (see `evaluateRisk`)
+     * @param options - Request timeout and abort signal
+     * @returns The session along with the decision, its reasons and the comparisons made
+     * @throws {SessionExpiredError} If session expired
+     * @throws {NotFoundError} If session does not exist
+     * @throws {ContextMismatchError} If IP address or User Agent doesn't match
+     */
+    async assess(
+        session_id: string,
+        context: Omit<RiskContext, 'authenticated_at'>,
+        policy: RiskPolicy = {},
+        options: RequestOptions = {}
+    ): Promise<RiskAssessment & { session: Session }> {
+        const session = await this.validate(
+            session_id,
+            context.ip_address,
+            context.user_agent,
+            options
+        );
+        const reauthenticated = await this.reauthentications.store.get(
+            reauthentication_key(session_id)
+        );
+        let authenticated_at = session.created;
+        if (
+            typeof reauthenticated === 'number' &&
+            (!authenticated_at || reauthenticated > authenticated_at.getTime())
+        ) {
+            authenticated_at = new Date(reauthenticated);
+        }
+        return { session, ...evaluateRisk(session, { ...context, authenticated_at }, policy) };
+    }
+
+    /**
+     * Archive a single session (logout)
+     * Session must still match the IP/User Agent context it was created with
+     * @param id - Session ID
+     * @param ip_address - Current client IP address
+     * @param user_agent - Current client User Agent
+     * @param options - Request timeout and abort signal
+     * @returns Archived session object
+     * @throws {NotFoundError} If session does not exist
+     * @throws {ContextMismatchError} If IP address or User Agent doesn't match
+     */
+    async archive_session(
+        id: string,
+        ip_address: string,
+        user_agent: string,
+        options: RequestOptions = {}
+    ): Promise<Session> {
+        return this.audited(
+            { type: 'session_archived', session_id: id, ip_address, user_agent },
+            null,
+            async () => {
+                const session = await this.api.delete(
+                    `/sessions/${id}`,
+                    {
+                        ip_address,
+                        user_agent,
+                    },
+                    options
+                );
+                this.log.debug('DELETE session response: %s', session);
+                error_check(session);
+                await this.cache?.forget_session(id);
+                await this.mfa?.forget(id);
+                return new Session(session);
+            },
+            (session) => ({ credential_id: session.credential.id })
+        );
+    }
+
+    /**
+     * Archive every active session for a credential ("sign out everywhere")
+     * @param credential_id - The credential ID
+     * @param options - Request timeout and abort signal
+     * @returns List of archived session objects
+     * @throws {NotFoundError} If credential does not exist
+     */
+    async archive_sessions(
+        credential_id: string,
+        options: RequestOptions = {}
+    ): Promise<Session[]> {
+        return this.audited({ type: 'sessions_archived', credential_id }, null, async () => {
+            const sessions = await this.api.delete(
+                `/credentials/${credential_id}/sessions`,
+                undefined,
+                options
+            );
+            this.log.debug('DELETE sessions response: %s', sessions);
+            error_check(sessions);
+            await this.cache?.revoke_credential(credential_id);
+            return parse_list('Session', sessions).map(
+                (session) =>
+                    new Session({ credential: { id: credential_id }, ...(session as object) })
+            );
+        });
+    }
+}
+
+/**
+ * Options for creating a credential
+ */
+export interface CreateUserOptions extends RequestOptions {
+    /**
+     * Create the credential even if the password breaks `password_policy`, eg. for a password
+     * the user has just proven against a legacy hash (default: false)
+     */
+    skip_password_policy?: boolean;
+}
+
+/**
+ * Options for listing credentials in a collection
+ */
+export interface CredentialListOptions {
+    /** Number of credentials to skip (default: 0) */
+    offset?: number;
+    /** Maximum number of credentials to return (default: server defined) */
+    limit?: number;
+}
@@ -0,0 +1,106 @@
+/**
+ * Most common passwords from public breach corpora, lower-case
+ * Checked case-insensitively by `checkPassword`; kept short so it ships with the SDK.
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+    '000000',
+    '00000000',
+    '111111',
+    '11111111',
+    '112233',
+    '121212',
+    '123123',
+    '123123123',
+    '123321',
+    '1234',
+    '12345',
+    '123456',
+    '1234567',
+    '12345678',
+    '123456789',
+    '1234567890',
+    '123456a',
+    '123abc',
+    '123qwe',
+    '1q2w3e',
+    '1q2w3e4r',
+    '1q2w3e4r5t',
+    '1qaz2wsx',
+    '222222',
+    '555555',
+    '654321',
+    '666666',
+    '696969',
+    '7777777',
+    '987654321',
+    'a123456',
+    'aa123456',
+    'abc123',
+    'abcd1234',
+    'access',
+    'admin',
+    'admin123',
+    'administrator',
+    'asdf',
+    'asdfgh',
+    'asdfghjkl',
+    'ashley',
+    'azerty',
+    'bailey',
+    'baseball',
+    'batman',
+    'changeme',
+    'charlie',
+    'cheese',
+    'chocolate',
+    'computer',
+    'dragon',
+    'flower',
+    'football',
+    'freedom',
+    'hello',
+    'hello123',
+    'hockey',
+    'hunter2',
+    'iloveyou',
+    'jennifer',
+    'jordan',
+    'killer',
+    'letmein',
+    'login',
+    'lovely',
+    'master',
+    'matrix',
+    'michael',
+    'monkey',
+    'mustang',
+    'ninja',
+    'p@ssw0rd',
+    'passw0rd',
+    'password',
+    'password1',
+    'password12',
+    'password123',
+    'password1234',
+    'pepper',
+    'princess',
+    'qazwsx',
+    'qwerty',
+    'qwerty123',
+    'qwertyuiop',
+    'secret',
+    'shadow',
+    'soccer',
+    'starwars',
+    'summer',
+    'sunshine',
+    'superman',
+    'test',
+    'test123',
+    'trustno1',
+    'welcome',
+    'welcome1',
+    'whatever',
+    'zaq12wsx',
+    'zxcvbnm',
+]);
@@ -0,0 +1,406 @@
+import { parse_user_agent_string } from './user-agent.js';
+import { type HeaderSource, get_header } from './context.js';
+import { type IPAddress, type IPRange, parse_ip, parse_ranges, in_ranges } from './ip.js';
+import { log, mask_ip } from './redact.js';
+
+/**
+ * User Agent attributes `compare.userAgents` can compare
+ * `version` is the browser major version and is governed by `UserAgentPolicy.version`
+ */
+export type UserAgentField = 'cpu' | 'os' | 'browser' | 'engine' | 'device_type' | 'device_vendor';
+
+/**
+ * A User-Agent string or request headers carrying User-Agent Client Hints (`Sec-CH-UA`,
+ * `Sec-CH-UA-Platform`, `Sec-CH-UA-Mobile`, `Sec-CH-UA-Arch`, `Sec-CH-UA-Bitness`,
+ * `Sec-CH-UA-Full-Version-List`); hints override what the `User-Agent` header says
+ */
+export type UserAgentInput = string | HeaderSource;
+
+/**
+ * Rules for `compare.userAgents`
+ */
+export interface UserAgentPolicy {
+    /** Attributes that must match (default: cpu, os and browser) */
+    fields?: UserAgentField[];
+    /**
+     * Browser major version check: "ignore" (default), "monotonic" (upgrades allowed, downgrades
+     * differ) or "exact"
+     */
+    version?: 'ignore' | 'monotonic' | 'exact';
+    /** Let attributes neither side reveals match (default: true) */
+    allow_unknown?: boolean;
+}
+
+/**
+ * Outcome of `compare.userAgentMatch`
+ */
+export interface UserAgentMatchResult {
+    match: boolean;
+    /** Share of the compared attributes that matched, from 0 to 1 */
+    score: number;
+    /** Attributes that differ, including "version" for a failed version check */
+    differences: (UserAgentField | 'version')[];
+    /** Compared attributes neither side reveals */
+    unknown: (UserAgentField | 'version')[];
+}
+
+type UserAgentProfile = Partial<Record<UserAgentField, string>> & { version?: number };
+
+const DEFAULT_UA_FIELDS: UserAgentField[] = ['cpu', 'os', 'browser'];
+
+// Client Hints brand and platform names as ua-parser-js reports them
+const HINT_BROWSERS: Record<string, string> = {
+    'Google Chrome': 'Chrome',
+    'Microsoft Edge': 'Edge',
+};
+const HINT_PLATFORMS: Record<string, string> = {
+    macOS: 'Mac OS',
+    'Chrome OS': 'Chromium OS',
+};
+
+function parse_user_agent(user_agent: string): UserAgentProfile {
+    const result = parse_user_agent_string(user_agent);
+    const major = parseInt(result.browser.major ?? '', 10);
+    return {
+        cpu: result.cpu.architecture,
+        os: result.os.name,
+        browser: result.browser.name,
+        engine: result.engine.name,
+        device_type: result.device.type,
+        device_vendor: result.device.vendor,
+        version: Number.isNaN(major) ? undefined : major,
+    };
+}
+
+/**
+ * Strip the quotes of a structured header string ("Windows" -> Windows)
+ */
+function hint_string(value: string | undefined): string | undefined {
+    const text = value?.trim().replace(/^"(.*)"$/, '$1');
+    return text ? text : undefined;
+}
+
+/**
+ * Pick the real brand from a Sec-CH-UA brand list, skipping GREASE entries ("Not A(Brand")
+ * and preferring a product over the Chromium base
+ */
+function hint_brand(value: string | undefined): { name: string; major?: number } | undefined {
+    const brands = [...(value ?? '').matchAll(/"([^"]*)"\s*;\s*v="([^"]*)"/g)]
+        .map(([, name, version]) => ({ name, major: parseInt(version, 10) }))
+        .filter((brand) => !/^not.a.brand$/i.test(brand.name));
+    const brand = brands.find((entry) => entry.name !== 'Chromium') ?? brands[0];
+    if (!brand) {
+        return undefined;
+    }
+    return {
+        name: HINT_BROWSERS[brand.name] ?? brand.name,
+        major: Number.isNaN(brand.major) ? undefined : brand.major,
+    };
+}
+
+function hint_cpu(arch: string | undefined, bitness: string | undefined): string | undefined {
+    if (arch === 'x86') {
+        return bitness === '64' ? 'amd64' : 'ia32';
+    }
+    if (arch === 'arm') {
+        return bitness === '64' ? 'arm64' : 'arm';
+    }
+    return arch;
+}
+
+/**
+ * Build a comparable profile from a User-Agent string or Client Hints headers
+ */
+function user_agent_profile(input: UserAgentInput): UserAgentProfile {
+    if (typeof input === 'string') {
+        return parse_user_agent(input);
+    }
+
+    const profile = parse_user_agent(get_header(input, 'user-agent') ?? '');
+    const brand = hint_brand(
+        get_header(input, 'sec-ch-ua-full-version-list') ?? get_header(input, 'sec-ch-ua')
+    );
+    if (brand) {
+        profile.browser = brand.name;
+        profile.version = brand.major;
+        profile.engine = 'Blink'; // Only Chromium-based browsers send Client Hints
+    }
+
+    const platform = hint_string(get_header(input, 'sec-ch-ua-platform'));
+    if (platform) {
+        profile.os = HINT_PLATFORMS[platform] ?? platform;
+    }
+    const mobile = get_header(input, 'sec-ch-ua-mobile')?.trim();
+    if (mobile) {
+        profile.device_type = mobile === '?1' ? 'mobile' : undefined;
+    }
+    const arch = hint_string(get_header(input, 'sec-ch-ua-arch'));
+    if (arch) {
+        profile.cpu = hint_cpu(arch, hint_string(get_header(input, 'sec-ch-ua-bitness')));
+    }
+    return profile;
+}
+
+function same_value(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+function version_differs(
+    request_version: number,
+    session_version: number,
+    mode: UserAgentPolicy['version']
+): boolean {
+    return mode === 'exact'
+        ? request_version !== session_version
+        : request_version < session_version;
+}
+
+function match_user_agents(
+    request_ua: UserAgentProfile,
+    session_ua: UserAgentProfile,
+    policy: UserAgentPolicy
+): UserAgentMatchResult {
+    const differences: UserAgentMatchResult['differences'] = [];
+    const unknown: UserAgentMatchResult['unknown'] = [];
+    let compared = 0;
+
+    for (const field of policy.fields ?? DEFAULT_UA_FIELDS) {
+        const request_value = request_ua[field];
+        const session_value = session_ua[field];
+        if (request_value === undefined && session_value === undefined) {
+            unknown.push(field);
+            continue;
+        }
+        compared++;
+        if (
+            request_value === undefined ||
+            session_value === undefined ||
+            !same_value(request_value, session_value)
+        ) {
+            differences.push(field);
+        }
+    }
+
+    const mode = policy.version ?? 'ignore';
+    if (mode !== 'ignore') {
+        if (request_ua.version === undefined || session_ua.version === undefined) {
+            unknown.push('version');
+        } else {
+            compared++;
+            if (version_differs(request_ua.version, session_ua.version, mode)) {
+                differences.push('version');
+            }
+        }
+    }
+
+    return {
+        match: differences.length === 0 && (policy.allow_unknown !== false || unknown.length === 0),
+        score: compared === 0 ? 1 : (compared - differences.length) / compared,
+        differences,
+        unknown,
+    };
+}
+
+/**
+ * Rules for `compare.ipAddresses`
+ */
+export interface IPPolicy {
+    /** IPv4 prefix length treated as the same network, eg. 24 (default: 32, exact match) */
+    ipv4_prefix?: number;
+    /** IPv6 prefix length treated as the same network, eg. 56 or 64 (default: 128, exact match) */
+    ipv6_prefix?: number;
+    /**
+     * Accept any request IP when the session IP is private, loopback or link-local, as
+     * sessions created on a LAN or localhost do (default: false)
+     */
+    private_bypass?: boolean;
+    /** Request IPs that always match: CIDRs, addresses or range names (eg. an office VPN) */
+    allow?: string[];
+    /** Request IPs that never match, checked before everything else */
+    deny?: string[];
+}
+
+export type IPMatchReason =
+    'invalid' | 'denied' | 'allowed' | 'private_bypass' | 'exact' | 'subnet' | 'mismatch';
+
+/**
+ * Outcome of `compare.ipAddressMatch`
+ */
+export interface IPMatchResult {
+    match: boolean;
+    reason: IPMatchReason;
+}
+
+// Exact match only; the private-range bypass is opt-in
+const DEFAULT_IP_POLICY: IPPolicy = {};
+
+const BYPASS_RANGES = ['private', 'loopback', 'linkLocal'];
+
+type ParsedPolicy = {
+    ipv4_prefix: number;
+    ipv6_prefix: number;
+    private_bypass: boolean;
+    allow: (IPRange | string)[];
+    deny: (IPRange | string)[];
+};
+
+// Policies are usually module-level constants, so parse each one once
+const parsed_policies = new WeakMap<IPPolicy, ParsedPolicy>();
+
+function prefix_length(value: number | undefined, max: number, name: string): number {
+    if (value === undefined) {
+        return max;
+    }
+    if (!Number.isInteger(value) || value < 0 || value > max) {
+        throw new TypeError(`Invalid IP policy: ${name} must be an integer from 0 to ${max}`);
+    }
+    return value;
+}
+
+function parse_policy(policy: IPPolicy): ParsedPolicy {
+    let parsed = parsed_policies.get(policy);
+    if (!parsed) {
+        parsed = {
+            ipv4_prefix: prefix_length(policy.ipv4_prefix, 32, 'ipv4_prefix'),
+            ipv6_prefix: prefix_length(policy.ipv6_prefix, 128, 'ipv6_prefix'),
+            private_bypass: policy.private_bypass ?? false,
+            allow: parse_ranges(policy.allow ?? []),
+            deny: parse_ranges(policy.deny ?? []),
+        };
+        parsed_policies.set(policy, parsed);
+    }
+    return parsed;
+}
+
+function match_ip_addresses(
+    request_ip_address: string,
+    session_ip_address: string,
+    policy: IPPolicy
+): IPMatchResult {
+    const rules = parse_policy(policy);
+    const request_address = parse_ip(request_ip_address);
+    const session_address = parse_ip(session_ip_address);
+    if (request_address === null || session_address === null) {
+        return { match: false, reason: 'invalid' };
+    }
+
+    if (in_ranges(request_address, rules.deny)) {
+        return { match: false, reason: 'denied' };
+    }
+    if (in_ranges(request_address, rules.allow)) {
+        return { match: true, reason: 'allowed' };
+    }
+    if (rules.private_bypass && BYPASS_RANGES.includes(session_address.range())) {
+        return { match: true, reason: 'private_bypass' };
+    }
+    if (request_address.toString() === session_address.toString()) {
+        return { match: true, reason: 'exact' };
+    }
+    if (same_network(request_address, session_address, rules)) {
+        return { match: true, reason: 'subnet' };
+    }
+    return { match: false, reason: 'mismatch' };
+}
+
+function same_network(a: IPAddress, b: IPAddress, rules: ParsedPolicy): boolean {
+    if (a.kind() !== b.kind()) {
+        return false;
+    }
+    const bits = a.kind() === 'ipv4' ? rules.ipv4_prefix : rules.ipv6_prefix;
+    return a.match(b, bits);
+}
+
+/**
+ * Utility functions for comparing client context
+ * Used for session security validation
+ */
+export const compare = {
+    /**
+     * Compare two User Agents for session validation
+     * Without a policy compares CPU architecture, OS name, and browser name (not versions)
+     * This allows browser updates while detecting device/browser changes
+     * @param request_user_agent - Current request User Agent string or Client Hints headers
+     * @param session_user_agent - User Agent stored in session
+     * @param policy - Fields to compare, version and unknown-field handling
+     * @returns true if User Agents match on the compared attributes
+     */
+    userAgents(
+        request_user_agent: UserAgentInput,
+        session_user_agent: UserAgentInput,
+        policy?: UserAgentPolicy
+    ): boolean {
+        return compare.userAgentMatch(request_user_agent, session_user_agent, policy).match;
+    },
+
+    /**
+     * Compare two User Agents and report how similar they are
+     * @param request_user_agent - Current request User Agent string or Client Hints headers
+     * @param session_user_agent - User Agent stored in session
+     * @param policy - Fields to compare, version and unknown-field handling
+     * @returns Match flag, similarity score and the differing and unknown fields
+     */
+    userAgentMatch(
+        request_user_agent: UserAgentInput,
+        session_user_agent: UserAgentInput,
+        policy: UserAgentPolicy = {}
+    ): UserAgentMatchResult {
+        const request_ua = user_agent_profile(request_user_agent);
+        const session_ua = user_agent_profile(session_user_agent);
+        const result = match_user_agents(request_ua, session_ua, policy);
+
+        log.debug(
+            'Comparing user agents\n    %s\n    %s\n    %20.20s = %s\n    %20.20s = %s',
+            JSON.stringify(request_ua),
+            JSON.stringify(session_ua),
+            'score',
+            result.score,
+            'differences',
+            result.differences.join(', ')
+        );
+        return result;
+    },
+
+    /**
+     * Compare two IP addresses for session validation
+     * Without a policy only the exact address matches, private session IPs included. Pass a
+     * policy for subnet tolerance, allow/deny lists or the opt-in private-range bypass.
+     * @param request_ip_address - Current request IP address
+     * @param session_ip_address - IP address stored in session
+     * @param policy - Subnet tolerance, private-range bypass and allow/deny lists
+     * @returns true if the IPs match under the policy
+     * @throws {TypeError} If the policy is invalid
+     */
+    ipAddresses(
+        request_ip_address: string,
+        session_ip_address: string,
+        policy?: IPPolicy
+    ): boolean {
+        return compare.ipAddressMatch(request_ip_address, session_ip_address, policy).match;
+    },
+
+    /**
+     * Compare two IP addresses and report why they matched or not
+     * Rules are applied in order: invalid addresses, deny list, allow list, private-range
+     * bypass, exact match, subnet match.
+     * @param request_ip_address - Current request IP address
+     * @param session_ip_address - IP address stored in session
+     * @param policy - Subnet tolerance, private-range bypass and allow/deny lists
+     * @returns Match flag and reason
+     * @throws {TypeError} If the policy is invalid
+     */
+    ipAddressMatch(
+        request_ip_address: string,
+        session_ip_address: string,
+        policy: IPPolicy = DEFAULT_IP_POLICY
+    ): IPMatchResult {
+        const result = match_ip_addresses(request_ip_address, session_ip_address, policy);
+        log.debug(
+            'Comparing user IPs\n    %20.20s = %s\n    %20.20s = %s',
+            mask_ip(request_ip_address),
+            mask_ip(session_ip_address),
+            'result',
+            result.reason
+        );
+        return result;
+    },
+};
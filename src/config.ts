@@ -0,0 +1,14 @@
+import type { TransportOptions } from './http.js';
+
+// Mutable config object to allow API_BASE_URL to be changed (for testing)
+// Used as the fallback for Collection instances created without their own options
+export const config: { API_BASE_URL: string; transport: TransportOptions } = {
+    API_BASE_URL: 'https://vault.magicauth.ca',
+    transport: {},
+};
+
+/**
+ * Default base URL, as it was when the module loaded
+ * @deprecated Read `config.API_BASE_URL`, which follows changes, or pass `base_url` to Collection
+ */
+export const API_BASE_URL = config.API_BASE_URL;
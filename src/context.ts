@@ -0,0 +1,149 @@
+import { type IPAddress, parse_ip, parse_ranges, in_ranges } from './ip.js';
+
+/**
+ * Client context a session is bound to
+ * Pass to `Collection.session` and `Collection.validate`
+ */
+export interface ClientContext {
+    ip_address: string;
+    user_agent: string;
+}
+
+/**
+ * Request accepted by `extractContext`: Node's IncomingMessage (and frameworks built on it) or
+ * a Fetch API Request
+ */
+export interface ContextRequest {
+    headers: HeaderSource;
+    socket?: { remoteAddress?: string };
+}
+
+/**
+ * Node header object (lower-case names) or Fetch API Headers
+ */
+export type HeaderSource =
+    { get(name: string): string | null } | Record<string, string | string[] | undefined>;
+
+export interface ExtractContextOptions {
+    /**
+     * Proxies whose forwarding headers are believed: CIDRs, addresses, range names
+     * ("loopback", "private", "linkLocal", "uniqueLocal", "carrierGradeNat") or a predicate
+     * receiving the normalized address. Default: none, so only the peer address is used.
+     */
+    trustedProxies?: string[] | ((ip_address: string) => boolean);
+    /**
+     * Address of the directly connected peer. Defaults to `request.socket.remoteAddress`; a Fetch
+     * API Request has no socket, so pass the address the runtime reports (eg. Deno's
+     * `info.remoteAddr.hostname` or Cloudflare's `CF-Connecting-IP`). Without a peer address
+     * forwarding headers are ignored and the IP address is ''.
+     */
+    remoteAddress?: string;
+    /**
+     * Header the trusted proxies append the client address to (default: "x-forwarded-for").
+     * Only this header is read, so a client cannot choose the address through another header
+     * the proxies pass on unchanged.
+     */
+    forwardedHeader?: ForwardedHeader;
+}
+
+/**
+ * Forwarding headers `extractContext` can walk
+ */
+export type ForwardedHeader = 'forwarded' | 'x-forwarded-for' | 'x-real-ip';
+
+/**
+ * Read a header from either kind of header source, joining repeated Node headers
+ */
+export function get_header(headers: HeaderSource, name: string): string | undefined {
+    if (typeof headers.get === 'function') {
+        return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+    }
+    const value = (headers as Record<string, string | string[] | undefined>)[name];
+    return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Extract the `for=` values of an RFC 7239 Forwarded header, nearest hop last
+ */
+function parse_forwarded(header: string): string[] {
+    return header.split(',').map((element) => {
+        for (const pair of element.split(';')) {
+            const index = pair.indexOf('=');
+            if (index > 0 && pair.slice(0, index).trim().toLowerCase() === 'for') {
+                return pair
+                    .slice(index + 1)
+                    .trim()
+                    .replace(/^"(.*)"$/, '$1');
+            }
+        }
+        return '';
+    });
+}
+
+/**
+ * Addresses claimed by the configured forwarding header, client first and nearest proxy last
+ */
+function forwarded_chain(request: ContextRequest, name: ForwardedHeader): string[] {
+    const value = get_header(request.headers, name);
+    if (!value) {
+        return [];
+    }
+    if (name === 'forwarded') {
+        return parse_forwarded(value);
+    }
+    return value.split(',').map((entry) => entry.trim());
+}
+
+/**
+ * Build the trusted proxy check from the option value
+ */
+function trust_check(
+    trusted: ExtractContextOptions['trustedProxies'] = []
+): (address: IPAddress) => boolean {
+    if (typeof trusted === 'function') {
+        return (address) => trusted(address.toString());
+    }
+    const ranges = parse_ranges(trusted);
+    return (address) => in_ranges(address, ranges);
+}
+
+/**
+ * Determine the client IP address and User Agent of a request
+ * Walks the forwarding chain (the `forwardedHeader`, then the peer address) from the nearest hop
+ * outwards, skipping trusted proxies; the first untrusted address is the client. The header is
+ * therefore ignored unless the peer is a trusted proxy, and without a known peer address no
+ * header is believed at all. Unparsable entries (eg. "unknown") stop the walk at the last good
+ * hop.
+ * @param request - Node IncomingMessage or Fetch API Request
+ * @param options - Trusted proxies, peer address and forwarding header
+ * @returns Context with the normalized IP address ('' if none could be determined)
+ * @throws {TypeError} If a trusted proxy entry is not a valid address, CIDR or range name
+ */
+export function extractContext(
+    request: ContextRequest,
+    options: ExtractContextOptions = {}
+): ClientContext {
+    const is_trusted = trust_check(options.trustedProxies);
+    const peer = options.remoteAddress ?? request.socket?.remoteAddress;
+    const hops =
+        peer === undefined
+            ? []
+            : [...forwarded_chain(request, options.forwardedHeader ?? 'x-forwarded-for'), peer];
+
+    let client: IPAddress | null = null;
+    for (let index = hops.length - 1; index >= 0; index--) {
+        const address = parse_ip(hops[index]);
+        if (address === null) {
+            break;
+        }
+        client = address;
+        if (!is_trusted(address)) {
+            break;
+        }
+    }
+
+    return {
+        ip_address: client?.toString() ?? '',
+        user_agent: get_header(request.headers, 'user-agent') ?? '',
+    };
+}
@@ -0,0 +1,264 @@
+import type { PasswordViolation } from './password.js';
+
+/**
+ * Raw API response body
+ * Error responses carry `status`, `error` and `message` properties
+ */
+export interface ApiResponse {
+    status?: number;
+    error?: string;
+    message?: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Base class for every error thrown by the SDK
+ * Keeps the raw API error fields so callers can inspect them without parsing the message
+ */
+export class MagicAuthError extends Error {
+    status?: number;
+    error?: string;
+    api_message?: string;
+    response?: ApiResponse;
+
+    /**
+     * Build the matching MagicAuthError subclass for an API error response
+     * @param response - API response containing `status` and/or `error`
+     * @returns Error instance whose class describes the failure
+     */
+    static fromResponse(response: ApiResponse): MagicAuthError {
+        const ErrorClass = classify(response);
+        return new ErrorClass(response);
+    }
+
+    /**
+     * @param response - API error response
+     * @param message - Overrides the default `"${status} ${error}: ${message}"` format
+     */
+    constructor(response: ApiResponse = {}, message?: string) {
+        super(message ?? `${response.status} ${response.error}: ${response.message}`);
+        this.name = new.target.name;
+        this.status = response.status;
+        this.error = response.error;
+        this.api_message = response.message;
+        this.response = response;
+    }
+}
+
+/**
+ * Wrong password for a credential (or current password on update)
+ */
+export class AuthenticationError extends MagicAuthError {}
+
+/**
+ * Wrong or reused second factor code
+ */
+export class InvalidCodeError extends AuthenticationError {
+    /** Attempts left before the session is archived (undefined outside of sign ins) */
+    remaining_attempts?: number;
+
+    /**
+     * @param remaining_attempts - Attempts left for the session
+     */
+    constructor(remaining_attempts?: number) {
+        super({}, 'Invalid second factor code');
+        this.remaining_attempts = remaining_attempts;
+    }
+}
+
+/**
+ * Session of a credential with a second factor that has not verified a code yet
+ */
+export class SecondFactorRequiredError extends AuthenticationError {
+    constructor() {
+        super({}, 'Session requires a second factor');
+    }
+}
+
+/**
+ * Password reset or session token that cannot be used
+ * - `malformed`: not a token of that kind
+ * - `signature`: signed with another secret or an unknown key, or altered
+ * - `expired`: past its expiry
+ * - `revoked`: the credential was reset with it already, deleted or disabled (reset tokens)
+ * - `session`: issued for another session (session tokens)
+ */
+export class InvalidTokenError extends MagicAuthError {
+    reason: 'malformed' | 'signature' | 'expired' | 'revoked' | 'session';
+
+    /**
+     * @param reason - Why the token was rejected
+     * @param kind - Token kind for the message
+     */
+    constructor(reason: InvalidTokenError['reason'], kind = 'password reset') {
+        super({}, `Invalid ${kind} token (${reason})`);
+        this.reason = reason;
+    }
+}
+
+/**
+ * Session exists but is past its expiry
+ */
+export class SessionExpiredError extends MagicAuthError {}
+
+/**
+ * Session IP address or User Agent does not match the request context
+ */
+export class ContextMismatchError extends MagicAuthError {}
+
+/**
+ * Credential, session or collection does not exist
+ */
+export class NotFoundError extends MagicAuthError {}
+
+/**
+ * Collection access key is missing, invalid or not allowed for the resource
+ */
+export class UnauthorizedAccessKeyError extends MagicAuthError {}
+
+/**
+ * Collection rate limit exceeded
+ */
+export class RateLimitedError extends MagicAuthError {}
+
+/**
+ * Call refused by the client-side rate limiter before reaching the API
+ */
+export class QuotaExceededError extends RateLimitedError {
+    operation: string;
+    retry_after: number;
+
+    /**
+     * @param operation - Rate limited operation (eg. "sessions_created")
+     * @param retry_after - Milliseconds until the call would be allowed
+     */
+    constructor(operation: string, retry_after: number) {
+        super({}, `Rate limit for ${operation} reached, retry in ${Math.ceil(retry_after)}ms`);
+        this.operation = operation;
+        this.retry_after = retry_after;
+    }
+}
+
+/**
+ * Attempt refused by the brute-force guard because of repeated failures
+ */
+export class LockedOutError extends MagicAuthError {
+    scope: 'credential' | 'ip_address';
+    retry_after: number;
+
+    /**
+     * @param scope - Counter that caused the lockout
+     * @param retry_after - Milliseconds until attempts are allowed again
+     */
+    constructor(scope: 'credential' | 'ip_address', retry_after: number) {
+        const subject = scope === 'credential' ? 'credential' : 'IP address';
+        const seconds = Math.ceil(retry_after / 1000);
+        super({}, `Too many failed attempts for this ${subject}, retry in ${seconds}s`);
+        this.scope = scope;
+        this.retry_after = retry_after;
+    }
+}
+
+/**
+ * Password rejected by the client-side password policy before reaching the API
+ */
+export class PasswordPolicyError extends MagicAuthError {
+    violations: PasswordViolation[];
+
+    /**
+     * @param violations - Every rule the password breaks
+     */
+    constructor(violations: PasswordViolation[]) {
+        super(
+            {},
+            `Password does not meet the policy: ${violations.map((v) => v.message).join('; ')}`
+        );
+        this.violations = violations;
+    }
+}
+
+/**
+ * Request never produced an API response (DNS, connection, TLS, unreadable body)
+ */
+export class NetworkError extends MagicAuthError {
+    cause?: unknown;
+
+    /**
+     * @param cause - Underlying error thrown by the transport
+     * @param message - Human readable description
+     */
+    constructor(cause: unknown, message?: string) {
+        super(
+            {},
+            message ?? `Network error: ${cause instanceof Error ? cause.message : String(cause)}`
+        );
+        this.cause = cause;
+    }
+}
+
+/**
+ * Request attempt exceeded the configured timeout
+ */
+export class TimeoutError extends NetworkError {
+    timeout: number;
+
+    /**
+     * @param timeout - Timeout that was exceeded, in milliseconds
+     */
+    constructor(timeout: number) {
+        super(undefined, `Request timed out after ${timeout}ms`);
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * API response did not have the expected shape (API changed or a proxy answered instead)
+ */
+export class InvalidResponseError extends MagicAuthError {
+    model: string;
+    data: unknown;
+
+    /**
+     * @param model - Name of the model being read (eg. "Session")
+     * @param message - Description of the first invalid field
+     * @param data - The rejected response body
+     */
+    constructor(model: string, message: string, data: unknown) {
+        super({}, message);
+        this.model = model;
+        this.data = data;
+    }
+}
+
+type MagicAuthErrorClass = new (response: ApiResponse) => MagicAuthError;
+
+/**
+ * Pick the error class for an API error response
+ * The HTTP-like `status` decides the category; `error` and `message` text only tell apart the
+ * 401/403 cases, which the API uses for passwords, sessions and access keys alike. Other
+ * statuses never look at the text, so a 400 naming a field (eg. "password") stays generic.
+ */
+function classify(response: ApiResponse): MagicAuthErrorClass {
+    const status = response.status;
+    const text = `${response.error ?? ''} ${response.message ?? ''}`;
+
+    if (status === 429) {
+        return RateLimitedError;
+    }
+    if (status === 404) {
+        return NotFoundError;
+    }
+    if (status !== 401 && status !== 403) {
+        return MagicAuthError;
+    }
+    if (/access.?key|authorization|collection/i.test(text)) {
+        return UnauthorizedAccessKeyError;
+    }
+    if (/expired/i.test(text)) {
+        return SessionExpiredError;
+    }
+    if (/context|mismatch|ip.?address|user.?agent/i.test(text)) {
+        return ContextMismatchError;
+    }
+    return AuthenticationError;
+}
@@ -0,0 +1,307 @@
+import { MemoryStore, type SessionCacheStore } from './cache.js';
+import type { Collection } from './collection.js';
+import type { ClientContext } from './context.js';
+import { AuthenticationError, LockedOutError, NetworkError, NotFoundError } from './errors.js';
+import { sleep, type RequestOptions } from './http.js';
+import { network_cidr, parse_ip } from './ip.js';
+import type { Session, User } from './models.js';
+
+/**
+ * Brute-force protection settings
+ */
+export interface BruteForceGuardOptions {
+    /** Failures per credential before it is locked (default: 5) */
+    max_attempts?: number;
+    /** Failures per IP address (or IPv6 network) before it is locked (default: 20) */
+    max_ip_attempts?: number;
+    /** How long failures are counted after the first one, in milliseconds (default: 15 minutes) */
+    window?: number;
+    /** How long a lockout lasts, in milliseconds (default: 15 minutes) */
+    lockout?: number;
+    /** Delay before the attempt after the first failure, doubled per failure (default: 250) */
+    delay?: number;
+    /** Cap for the progressive delay, in milliseconds (default: 5000) */
+    max_delay?: number;
+    /** IPv4 prefix length counted as one client (default: 32) */
+    ipv4_prefix?: number;
+    /** IPv6 prefix length counted as one client (default: 64) */
+    ipv6_prefix?: number;
+    /** Backend for the counters (default: an in-memory LRU store) */
+    store?: SessionCacheStore;
+    /** Entries kept by the default in-memory store (default: 10000) */
+    max_entries?: number;
+}
+
+/**
+ * Throttling state of a credential and IP address
+ * `scope` tells which counter is locked, so it is only set when `locked` is true
+ */
+export type LockoutState =
+    | {
+          locked: true;
+          /** Counter that caused the lockout */
+          scope: 'credential' | 'ip_address';
+          /** Milliseconds until attempts are allowed again */
+          retry_after: number;
+          /** Always 0 while locked */
+          remaining_attempts: number;
+          /** Always 0 while locked */
+          delay: number;
+      }
+    | {
+          locked: false;
+          scope?: undefined;
+          /** Always 0 when not locked */
+          retry_after: number;
+          /** Failures left before a lockout, counting whichever counter is closest */
+          remaining_attempts: number;
+          /** Milliseconds the next attempt will be delayed by */
+          delay: number;
+      };
+
+type Counter = { failures: number; first: number; locked_until: number };
+
+const MINUTE = 60_000;
+
+/**
+ * Throttles `Collection.session`, `update_password` and `reauthenticate` after failed attempts
+ * Wrong passwords and unknown credentials are counted per credential ID and per client IP
+ * address (IPv6 per network, since clients usually own a whole /64). Each failure delays the
+ * next attempt progressively and reaching a maximum locks the credential or address for
+ * `lockout`. A successful attempt clears the credential's count; the address count is left to
+ * expire so one valid account does not reset a password spraying run.
+ *
+ * Counters are read and written without locking, so concurrent attempts through a shared
+ * store may each miss the other's failure.
+ */
+export class BruteForceGuard {
+    private collection: Collection;
+    private store: SessionCacheStore;
+    private max_attempts: number;
+    private max_ip_attempts: number;
+    private window: number;
+    private lockout: number;
+    private delay: number;
+    private max_delay: number;
+    private ipv4_prefix: number;
+    private ipv6_prefix: number;
+
+    /**
+     * @param collection - Collection whose calls are guarded
+     * @param options - Limits, timings and store
+     */
+    constructor(collection: Collection, options: BruteForceGuardOptions = {}) {
+        this.collection = collection;
+        this.store = options.store ?? new MemoryStore(options.max_entries ?? 10_000);
+        this.max_attempts = options.max_attempts ?? 5;
+        this.max_ip_attempts = options.max_ip_attempts ?? 20;
+        this.window = options.window ?? 15 * MINUTE;
+        this.lockout = options.lockout ?? 15 * MINUTE;
+        this.delay = options.delay ?? 250;
+        this.max_delay = options.max_delay ?? 5000;
+        this.ipv4_prefix = options.ipv4_prefix ?? 32;
+        this.ipv6_prefix = options.ipv6_prefix ?? 64;
+    }
+
+    /**
+     * Create a session (sign in) unless the credential or IP address is locked
+     * @param credential_id - Credential ID
+     * @param password - User password
+     * @param ip_address - Client IP address
+     * @param user_agent - Client User Agent string
+     * @param options - Request timeout and abort signal (also aborts the delay)
+     * @returns Session object with session id
+     * @throws {LockedOutError} If the credential or IP address is locked
+     * @throws {AuthenticationError} If password is wrong (counted as a failure)
+     * @throws {NotFoundError} If credential does not exist (counted as a failure)
+     */
+    async session(
+        credential_id: string,
+        password: string,
+        ip_address: string,
+        user_agent: string,
+        options: RequestOptions = {}
+    ): Promise<Session> {
+        return this.attempt(credential_id, ip_address, options, () =>
+            this.collection.session(credential_id, password, ip_address, user_agent, options)
+        );
+    }
+
+    /**
+     * Change a password unless the credential is locked
+     * Counted per credential only; pass `ip_address` to count the client's address too.
+     * @param credential_id - Credential ID
+     * @param current_password - Current password
+     * @param password - New password
+     * @param options - Request timeout, abort signal and client IP address
+     * @returns Updated user object
+     * @throws {LockedOutError} If the credential or IP address is locked
+     * @throws {AuthenticationError} If current password is wrong (counted as a failure)
+     * @throws {NotFoundError} If credential does not exist (counted as a failure)
+     */
+    async update_password(
+        credential_id: string,
+        current_password: string,
+        password: string,
+        options: RequestOptions & { ip_address?: string } = {}
+    ): Promise<User> {
+        const { ip_address, ...request } = options;
+        return this.attempt(credential_id, ip_address, request, () =>
+            this.collection.update_password(credential_id, current_password, password, request)
+        );
+    }
+
+    /**
+     * Check a session's password again unless its credential or the IP address is locked
+     * The session is validated first to find its credential, and only once; validation failures
+     * are not counted.
+     * @param session_id - Session ID
+     * @param password - Credential password
+     * @param context - Current client IP address and User Agent
+     * @param options - Request timeout and abort signal (also aborts the delay)
+     * @returns The validated session
+     * @throws {LockedOutError} If the credential or IP address is locked
+     * @throws {AuthenticationError} If password is wrong (counted as a failure)
+     */
+    async reauthenticate(
+        session_id: string,
+        password: string,
+        context: ClientContext,
+        options: RequestOptions = {}
+    ): Promise<Session> {
+        const { ip_address, user_agent } = context;
+        const session = await this.collection.validate(session_id, ip_address, user_agent, options);
+        return this.attempt(session.credential.id, ip_address, options, () =>
+            this.collection.reauthenticate(session, password, context, options)
+        );
+    }
+
+    /**
+     * Current throttling state, eg. to tell the user when to try again
+     * @param credential_id - Credential ID
+     * @param ip_address - Client IP address
+     */
+    async status(credential_id: string, ip_address?: string): Promise<LockoutState> {
+        const now = Date.now();
+        const credential = await this.read(credential_key(credential_id), now);
+        const ip_key = this.ip_key(ip_address);
+        const ip = ip_key ? await this.read(ip_key, now) : undefined;
+
+        for (const [scope, counter] of [
+            ['credential', credential],
+            ['ip_address', ip],
+        ] as const) {
+            if (counter && counter.locked_until > now) {
+                return {
+                    locked: true,
+                    scope,
+                    retry_after: counter.locked_until - now,
+                    remaining_attempts: 0,
+                    delay: 0,
+                };
+            }
+        }
+
+        const failures = Math.max(credential?.failures ?? 0, ip?.failures ?? 0);
+        return {
+            locked: false,
+            retry_after: 0,
+            remaining_attempts: Math.min(
+                this.max_attempts - (credential?.failures ?? 0),
+                this.max_ip_attempts - (ip?.failures ?? 0)
+            ),
+            delay: failures > 0 ? Math.min(this.delay * 2 ** (failures - 1), this.max_delay) : 0,
+        };
+    }
+
+    /**
+     * Clear the counters of a credential and/or IP address (eg. after a password reset)
+     */
+    async reset(credential_id?: string, ip_address?: string): Promise<void> {
+        if (credential_id !== undefined) {
+            await this.store.delete(credential_key(credential_id));
+        }
+        const ip_key = this.ip_key(ip_address);
+        if (ip_key) {
+            await this.store.delete(ip_key);
+        }
+    }
+
+    private async attempt<T>(
+        credential_id: string,
+        ip_address: string | undefined,
+        options: RequestOptions,
+        call: () => Promise<T>
+    ): Promise<T> {
+        const state = await this.status(credential_id, ip_address);
+        if (state.locked) {
+            throw new LockedOutError(state.scope, state.retry_after);
+        }
+        if (state.delay > 0) {
+            try {
+                await sleep(state.delay, options.signal);
+            } catch (error) {
+                throw new NetworkError(error, 'Request aborted');
+            }
+        }
+
+        let result: T;
+        try {
+            result = await call();
+        } catch (error) {
+            if (error instanceof AuthenticationError || error instanceof NotFoundError) {
+                await this.fail(credential_key(credential_id), this.max_attempts);
+                const ip_key = this.ip_key(ip_address);
+                if (ip_key) {
+                    await this.fail(ip_key, this.max_ip_attempts);
+                }
+            }
+            throw error;
+        }
+        await this.store.delete(credential_key(credential_id));
+        return result;
+    }
+
+    /**
+     * Store key of an address's bucket, or undefined for a missing or invalid address (which
+     * would otherwise lump unrelated clients together)
+     */
+    private ip_key(ip_address: string | undefined): string | undefined {
+        const address = ip_address ? parse_ip(ip_address) : null;
+        if (address === null) {
+            return undefined;
+        }
+        const bits = address.kind() === 'ipv4' ? this.ipv4_prefix : this.ipv6_prefix;
+        return `guard:ip:${network_cidr(address, bits)}`;
+    }
+
+    /**
+     * Counter still in effect, or undefined once its window and lockout have passed
+     */
+    private async read(key: string, now: number): Promise<Counter | undefined> {
+        const counter = (await this.store.get(key)) as Counter | undefined;
+        if (!counter || (counter.locked_until <= now && counter.first + this.window <= now)) {
+            return undefined;
+        }
+        if (counter.locked_until > 0 && counter.locked_until <= now) {
+            // Lockout served; start counting afresh
+            return undefined;
+        }
+        return counter;
+    }
+
+    private async fail(key: string, max_attempts: number): Promise<void> {
+        const now = Date.now();
+        const counter = (await this.read(key, now)) ?? { failures: 0, first: now, locked_until: 0 };
+        counter.failures += 1;
+        if (counter.failures >= max_attempts) {
+            counter.locked_until = now + this.lockout;
+        }
+        const expires = Math.max(counter.first + this.window, counter.locked_until);
+        await this.store.set(key, counter, expires - now);
+    }
+}
+
+function credential_key(credential_id: string): string {
+    return `guard:credential:${credential_id}`;
+}
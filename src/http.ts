@@ -0,0 +1,338 @@
+import { type ApiResponse, NetworkError, TimeoutError, InvalidResponseError } from './errors.js';
+import type { SdkLogger } from './log.js';
+import { INSPECT, log as default_log, redact } from './redact.js';
+
+/**
+ * Transport settings shared by every request of an HttpClient
+ */
+export interface TransportOptions {
+    /** fetch implementation (default: global `fetch`) */
+    fetch?: typeof fetch;
+    /** Per-attempt timeout in milliseconds (default: 10000, 0 disables) */
+    timeout?: number;
+    /** Extra attempts after the first one fails with a retryable error (default: 2) */
+    retries?: number;
+    /** Base delay for exponential backoff in milliseconds (default: 200) */
+    retry_delay?: number;
+    /**
+     * Upper bound for a single backoff in milliseconds (default: 5000); a response asking for a
+     * longer `Retry-After` is returned to the caller without retrying
+     */
+    max_retry_delay?: number;
+}
+
+/**
+ * Settings for a single call
+ */
+export interface RequestOptions {
+    /** Aborts the request (including pending retries) */
+    signal?: AbortSignal;
+    /** Overrides the transport timeout for this call */
+    timeout?: number;
+    /** Called with every HTTP response, including retried ones (eg. to read headers) */
+    on_response?: (response: Response) => void;
+}
+
+const DEFAULT_TRANSPORT: Required<Omit<TransportOptions, 'fetch'>> = {
+    timeout: 10_000,
+    retries: 2,
+    retry_delay: 200,
+    max_retry_delay: 5_000,
+};
+
+// Status codes where the server did not process the request and asks us to come back
+const RETRY_STATUSES = new Set([429, 502, 503, 504]);
+// Status codes that are safe to retry even for non-idempotent requests
+const UNPROCESSED_STATUSES = new Set([429, 503]);
+// Connection errors raised before any byte of the request reached the server
+const UNSENT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+/**
+ * Error `code` of a fetch failure, searched along the `cause` chain (undici nests it)
+ */
+function error_code(error: unknown): string | undefined {
+    for (let current = error, depth = 0; current && depth < 4; depth++) {
+        const { code, cause } = current as { code?: unknown; cause?: unknown };
+        if (typeof code === 'string') {
+            return code;
+        }
+        current = cause;
+    }
+    return undefined;
+}
+
+/**
+ * Parse a `Retry-After` header into milliseconds
+ * @returns undefined if the header is missing or malformed
+ */
+export function retry_after(response: Response): number | undefined {
+    const header = response.headers.get('Retry-After');
+    if (header === null) {
+        return undefined;
+    }
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Resolve after `ms`, or reject early when `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            return reject(signal.reason);
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Turn a fetch Response into an ApiResponse
+ * Non-JSON bodies (eg. a proxy's HTML error page) are described using the HTTP status so
+ * error_check still recognises them as failures
+ */
+function parse_response(response: Response, text: string): ApiResponse {
+    let body: unknown;
+    try {
+        body = text === '' ? undefined : JSON.parse(text);
+    } catch {
+        body = undefined;
+    }
+
+    if (!response.ok) {
+        const fields =
+            typeof body === 'object' && body !== null && !Array.isArray(body)
+                ? (body as ApiResponse)
+                : { message: text.slice(0, 200) || undefined };
+        return {
+            ...fields,
+            status: fields.status || response.status,
+            error: fields.error || response.statusText || 'HTTP Error',
+        };
+    }
+
+    if (body === undefined) {
+        throw new InvalidResponseError(
+            'Response',
+            `Invalid response body (HTTP ${response.status}): expected JSON`,
+            text
+        );
+    }
+    return body as ApiResponse;
+}
+
+/**
+ * Minimal JSON HTTP client with timeouts and retries
+ */
+export class HttpClient {
+    private transport: Required<Omit<TransportOptions, 'fetch'>> & Pick<TransportOptions, 'fetch'>;
+
+    constructor(
+        private baseUrl: string,
+        private defaultHeaders: Record<string, string> = {},
+        transport: TransportOptions = {},
+        private log: SdkLogger = default_log
+    ) {
+        this.transport = { ...DEFAULT_TRANSPORT, ...transport };
+    }
+
+    /**
+     * Serializable form with the Authorization header masked
+     */
+    toJSON(): Record<string, unknown> {
+        return { base_url: this.baseUrl, headers: redact(this.defaultHeaders) };
+    }
+
+    [INSPECT](
+        _depth: number,
+        options: object,
+        inspect: (value: unknown, options: object) => string
+    ): string {
+        return `HttpClient ${inspect(this.toJSON(), options)}`;
+    }
+
+    async post(
+        path: string,
+        data?: Record<string, unknown>,
+        options?: RequestOptions
+    ): Promise<ApiResponse> {
+        return this.request(
+            this.baseUrl + path,
+            {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...this.defaultHeaders },
+                body: data ? JSON.stringify(data) : undefined,
+            },
+            false,
+            options
+        );
+    }
+
+    async put(
+        path: string,
+        data?: Record<string, unknown>,
+        options?: RequestOptions
+    ): Promise<ApiResponse> {
+        return this.request(
+            this.baseUrl + path,
+            {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', ...this.defaultHeaders },
+                body: data ? JSON.stringify(data) : undefined,
+            },
+            false,
+            options
+        );
+    }
+
+    async get(
+        path: string,
+        params?: Record<string, unknown>,
+        options?: RequestOptions
+    ): Promise<ApiResponse> {
+        return this.request(
+            this.url(path, params),
+            {
+                headers: this.defaultHeaders,
+            },
+            true,
+            options
+        );
+    }
+
+    async delete(
+        path: string,
+        params?: Record<string, unknown>,
+        options?: RequestOptions
+    ): Promise<ApiResponse> {
+        return this.request(
+            this.url(path, params),
+            {
+                method: 'DELETE',
+                headers: this.defaultHeaders,
+            },
+            false,
+            options
+        );
+    }
+
+    private url(path: string, params?: Record<string, unknown>): URL {
+        const url = new URL(this.baseUrl + path);
+        if (params) {
+            Object.entries(params).forEach(([key, value]) => {
+                url.searchParams.append(key, String(value));
+            });
+        }
+        return url;
+    }
+
+    /**
+     * Send a request, retrying retryable failures with exponential backoff
+     * @param idempotent - Whether the request may be repeated after the server might have
+     *     processed it (timeouts, 502/504, dropped connections); only GET requests are, since a
+     *     replayed password change or archive fails once the first attempt went through
+     * @throws {NetworkError} If the request fails on every attempt or is aborted
+     * @throws {InvalidResponseError} If a successful response body is not JSON
+     */
+    private async request(
+        url: string | URL,
+        init: RequestInit,
+        idempotent: boolean,
+        options: RequestOptions = {}
+    ): Promise<ApiResponse> {
+        const { retries, retry_delay, max_retry_delay } = this.transport;
+
+        for (let attempt = 0; ; attempt++) {
+            let delay: number | undefined;
+            try {
+                const [response, text] = await this.attempt(url, init, options);
+                options.on_response?.(response);
+                const retryable = idempotent
+                    ? RETRY_STATUSES.has(response.status)
+                    : UNPROCESSED_STATUSES.has(response.status);
+                if (!retryable || attempt >= retries) {
+                    return parse_response(response, text);
+                }
+                delay = retry_after(response);
+                if (delay !== undefined && delay > max_retry_delay) {
+                    return parse_response(response, text);
+                }
+                this.log.debug('HTTP %s on attempt %s, retrying', response.status, attempt + 1);
+            } catch (error) {
+                const retryable =
+                    !(error instanceof InvalidResponseError) &&
+                    !options.signal?.aborted &&
+                    (idempotent || UNSENT_ERROR_CODES.has(error_code(error) ?? ''));
+                if (!retryable || attempt >= retries) {
+                    throw error;
+                }
+                this.log.debug('Request error on attempt %s, retrying: %s', attempt + 1, error);
+            }
+
+            // Full jitter: random delay up to the exponential backoff ceiling
+            delay ??= Math.random() * Math.min(max_retry_delay, retry_delay * 2 ** attempt);
+            try {
+                await sleep(delay, options.signal);
+            } catch (error) {
+                throw new NetworkError(error, 'Request aborted');
+            }
+        }
+    }
+
+    /**
+     * Run a single fetch and read its body within the configured timeout
+     * @throws {TimeoutError} If the attempt exceeds the timeout
+     * @throws {NetworkError} If fetch fails or the caller aborts
+     */
+    private async attempt(
+        url: string | URL,
+        init: RequestInit,
+        options: RequestOptions
+    ): Promise<[Response, string]> {
+        if (options.signal?.aborted) {
+            throw new NetworkError(options.signal.reason, 'Request aborted');
+        }
+
+        const timeout = options.timeout ?? this.transport.timeout;
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(options.signal?.reason);
+        let timed_out = false;
+        const timer =
+            timeout > 0
+                ? setTimeout(() => {
+                      timed_out = true;
+                      controller.abort();
+                  }, timeout)
+                : undefined;
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        const fetch_impl = this.transport.fetch ?? globalThis.fetch;
+        try {
+            const response = await fetch_impl(url, { ...init, signal: controller.signal });
+            return [response, await response.text()];
+        } catch (error) {
+            if (timed_out) {
+                throw new TimeoutError(timeout);
+            }
+            if (options.signal?.aborted) {
+                throw new NetworkError(error, 'Request aborted');
+            }
+            throw new NetworkError(error);
+        } finally {
+            clearTimeout(timer);
+            options.signal?.removeEventListener('abort', onAbort);
+        }
+    }
+}
@@ -1,306 +1,120 @@
-import { Logger } from 'loganite';
-import * as ipaddr from 'ipaddr.js';
-import UserAgentParser from 'ua-parser-js';
-
-const log = new Logger('magicauth-sdk', globalThis.process?.env?.LOG_LEVEL || 'fatal');
-
-class HttpClient {
-    constructor(
-        private baseUrl: string,
-        private defaultHeaders: Record<string, string> = {}
-    ) {}
-
-    async post(path: string, data?: Record<string, unknown>): Promise<ApiResponse> {
-        const response = await fetch(this.baseUrl + path, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', ...this.defaultHeaders },
-            body: data ? JSON.stringify(data) : undefined,
-        });
-        return response.json() as Promise<ApiResponse>;
-    }
-
-    async put(path: string, data?: Record<string, unknown>): Promise<ApiResponse> {
-        const response = await fetch(this.baseUrl + path, {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json', ...this.defaultHeaders },
-            body: data ? JSON.stringify(data) : undefined,
-        });
-        return response.json() as Promise<ApiResponse>;
-    }
-
-    async get(path: string, params?: Record<string, unknown>): Promise<ApiResponse> {
-        const url = new URL(this.baseUrl + path);
-        if (params) {
-            Object.entries(params).forEach(([key, value]) => {
-                url.searchParams.append(key, String(value));
-            });
-        }
-        const response = await fetch(url, {
-            headers: this.defaultHeaders,
-        });
-        return response.json() as Promise<ApiResponse>;
-    }
-}
-
-interface ApiResponse {
-    status?: number;
-    error?: string;
-    message?: string;
-    [key: string]: unknown;
-}
-
-interface CollectionResponse {
-    id: string;
-    access_key: {
-        id: string;
-        key: string;
-        created: string;
-    };
-    created: string;
-    rate_limiting: {
-        credentials_created: number;
-        credentials_updated: number;
-        sessions_created: number;
-    };
-}
-
-/**
- * Check API response for error status and throw if present
- * @param response - API response object
- * @throws {Error} If response contains status or error properties
- */
-function error_check(response: ApiResponse): void {
-    if (response.status || response.error) {
-        throw new Error(`${response.status} ${response.error}: ${response.message}`);
-    }
-}
-
-/**
- * Collection class for interacting with MagicAuth service
- * Represents a collection of credentials in the MagicAuth system
- */
-export class Collection {
-    collection_id: string;
-    access_key: string;
-    bindings?: unknown;
-    api: HttpClient;
-
-    /**
-     * Create a new collection in the MagicAuth service
-     * @returns Collection details including id and access_key
-     */
-    static async create(): Promise<CollectionResponse> {
-        const anonymous = new HttpClient(config.API_BASE_URL);
-        return (await anonymous.post('/collections')) as unknown as CollectionResponse;
-    }
-
-    /**
-     * Initialize a Collection client
-     * @param collection_id - The collection identifier
-     * @param access_key - Authentication access key
-     * @param bindings - Optional bindings (currently unused)
-     */
-    constructor(collection_id: string, access_key: string, bindings?: unknown) {
-        this.collection_id = collection_id;
-        this.access_key = access_key;
-        this.bindings = bindings;
-
-        this.api = new HttpClient(config.API_BASE_URL, {
-            Authorization: `Authentic ${access_key}`,
-        });
-    }
-
-    /**
-     * Create a new user credential
-     * @param password - Password for the new credential
-     * @returns User object with credential id (format: "Auth_U1-...")
-     */
-    async user(password: string): Promise<User> {
-        const user = await this.api.post(`/collections/${this.collection_id}/credentials`, {
-            password: password,
-        });
-        log.debug('POST credentials response: %s', user);
-        error_check(user);
-        return new User(user);
-    }
-
-    /**
-     * Update password for an existing credential
-     * @param credential_id - The credential ID to update
-     * @param current_password - Current password for verification
-     * @param password - New password
-     * @returns Updated user object
-     */
-    async update_password(
-        credential_id: string,
-        current_password: string,
-        password: string
-    ): Promise<User> {
-        const credential = await this.api.put(`/credentials/${credential_id}`, {
-            current_password,
-            password,
-        });
-        log.debug('PUT credentials response: %s', credential);
-        error_check(credential);
-        return new User(credential);
-    }
-
-    /**
-     * Create a new session for a credential
-     * Session is bound to the provided IP address and User Agent for security
-     * @param credential_id - The credential ID
-     * @param password - Credential password
-     * @param ip_address - Client IP address for session binding
-     * @param user_agent - Client User Agent for session binding
-     * @returns Session object with session id
-     */
-    async session(
-        credential_id: string,
-        password: string,
-        ip_address: string,
-        user_agent: string
-    ): Promise<Session> {
-        const session = await this.api.post(`/credentials/${credential_id}/sessions`, {
-            password,
-            ip_address,
-            user_agent,
-        });
-        log.debug('POST sessions response: %s', session);
-        error_check(session);
-        return new Session(session);
-    }
-
-    /**
-     * Validate an existing session
-     * Verifies session is still valid and matches IP/User Agent context
-     * @param id - Session ID
-     * @param ip_address - Current client IP address
-     * @param user_agent - Current client User Agent
-     * @returns Session object including credential information
-     * @throws {Error} If session expired, not found, or context doesn't match
-     */
-    async validate(id: string, ip_address: string, user_agent: string): Promise<Session> {
-        const session = await this.api.get(`/sessions/${id}`, {
-            ip_address,
-            user_agent,
-        });
-        log.debug('GET session response: %s', session);
-        error_check(session);
-        return new Session(session);
-    }
-}
-
-/**
- * User data container
- * Simple wrapper that copies all properties from API response
- */
-export class User {
-    id?: string;
-    [key: string]: unknown;
-
-    /**
-     * @param data - User data from API (typically includes 'id' field)
-     */
-    constructor(data: Record<string, unknown>) {
-        Object.entries(data).forEach(([k, v]) => {
-            this[k] = v;
-        });
-    }
-}
-
-/**
- * Session data container
- * Simple wrapper that copies all properties from API response
- */
-export class Session {
-    id?: string;
-    credential?: {
-        id: string;
-    };
-    [key: string]: unknown;
-
-    /**
-     * @param data - Session data from API (includes 'id' and optionally 'credential')
-     */
-    constructor(data: Record<string, unknown>) {
-        Object.entries(data).forEach(([k, v]) => {
-            this[k] = v;
-        });
-    }
-}
-
-/**
- * Utility functions for comparing client context
- * Used for session security validation
- */
-export const compare = {
-    /**
-     * Compare two User Agent strings for session validation
-     * Compares CPU architecture, OS name, and browser name (not versions)
-     * This allows browser updates while detecting device/browser changes
-     * @param request_user_agent - Current request User Agent
-     * @param session_user_agent - User Agent stored in session
-     * @returns true if User Agents match on key attributes
-     */
-    userAgents(request_user_agent: string, session_user_agent: string): boolean {
-        const request_ua = new UserAgentParser(request_user_agent).getResult();
-        const session_ua = new UserAgentParser(session_user_agent).getResult();
-
-        log.debug(
-            'Comparing user agents\n    %s\n    %s\n    %20.20s = %s\n    %20.20s = %s\n    %20.20s = %s',
-            request_user_agent,
-            session_user_agent,
-            request_ua.cpu.architecture,
-            session_ua.cpu.architecture,
-            request_ua.os.name,
-            session_ua.os.name,
-            request_ua.browser.name,
-            session_ua.browser.name
-        );
-
-        if (
-            request_ua.cpu.architecture !== session_ua.cpu.architecture ||
-            request_ua.os.name !== session_ua.os.name ||
-            request_ua.browser.name !== session_ua.browser.name
-        ) {
-            return false;
-        }
-        return true;
-    },
-
-    /**
-     * Compare two IP addresses for session validation
-     * IMPORTANT: Always returns true if session IP is private (for localhost dev)
-     * @param request_ip_address - Current request IP address
-     * @param session_ip_address - IP address stored in session
-     * @returns true if IPs match or session IP is private
-     */
-    ipAddresses(request_ip_address: string, session_ip_address: string): boolean {
-        log.debug('Comparing user IPs\n    %20.20s = %s', request_ip_address, session_ip_address);
-
-        try {
-            const sessionAddr = ipaddr.process(session_ip_address);
-            const range = sessionAddr.range();
-
-            // Allow if session IP is private (for localhost development)
-            if (range === 'private' || range === 'loopback' || range === 'linkLocal') {
-                return true;
-            }
-
-            // Compare IPs for equality
-            const requestAddr = ipaddr.process(request_ip_address);
-            return sessionAddr.toString() === requestAddr.toString();
-        } catch (error) {
-            log.error('IP comparison error: %s', error);
-            return false;
-        }
-    },
-};
-
-// Mutable config object to allow API_BASE_URL to be changed (for testing)
-export const config = {
-    API_BASE_URL: 'https://vault.magicauth.ca',
-};
-
-// Re-export for convenience
-export const API_BASE_URL = config.API_BASE_URL;
+export {
+    MagicAuthError,
+    AuthenticationError,
+    SessionExpiredError,
+    ContextMismatchError,
+    NotFoundError,
+    UnauthorizedAccessKeyError,
+    RateLimitedError,
+    QuotaExceededError,
+    LockedOutError,
+    InvalidCodeError,
+    InvalidTokenError,
+    SecondFactorRequiredError,
+    PasswordPolicyError,
+    NetworkError,
+    TimeoutError,
+    InvalidResponseError,
+} from './errors.js';
+export type { ApiResponse } from './errors.js';
+export { Collection } from './collection.js';
+export type { CollectionOptions, CreateUserOptions, CredentialListOptions } from './collection.js';
+export { RateLimiter } from './ratelimit.js';
+export type { RateLimitedOperation, RateLimitOptions, RateLimitUsage } from './ratelimit.js';
+export { checkPassword, DEFAULT_PASSWORD_POLICY } from './password.js';
+export type {
+    CheckPasswordOptions,
+    PasswordCheckResult,
+    PasswordPolicy,
+    PasswordRule,
+    PasswordViolation,
+} from './password.js';
+export { importCredentials, lazyMigration } from './migration.js';
+export type {
+    ImportOptions,
+    ImportRecord,
+    ImportResult,
+    ImportSummary,
+    LazyMigrationOptions,
+    LazySignIn,
+} from './migration.js';
+export { AuditEmitter } from './audit.js';
+export type {
+    AuditEvent,
+    AuditEventType,
+    AuditFailureReason,
+    AuditListener,
+    AuditUserAgent,
+} from './audit.js';
+export { shouldRenew } from './renewal.js';
+export type { RenewalPolicy } from './renewal.js';
+export { SecondFactor, generateTotpSecret, totpCode, totpUri, verifyTotp } from './mfa.js';
+export type {
+    MfaOptions,
+    MfaStore,
+    SecondFactorStatus,
+    TotpAlgorithm,
+    TotpEnrollment,
+    TotpOptions,
+} from './mfa.js';
+export type { PasswordResetOptions } from './reset.js';
+export { publicKeySet, verifyToken } from './token.js';
+export type {
+    SessionTokenAlgorithm,
+    SessionTokenClaims,
+    SessionTokenJwk,
+    SessionTokenKey,
+    SessionTokenOptions,
+    SessionTokenPublicKey,
+    TokenContext,
+} from './token.js';
+export { evaluateRisk } from './risk.js';
+export type {
+    ReauthenticationOptions,
+    RiskAssessment,
+    RiskContext,
+    RiskDecision,
+    RiskPolicy,
+    RiskReason,
+} from './risk.js';
+export { BruteForceGuard } from './guard.js';
+export type { BruteForceGuardOptions, LockoutState } from './guard.js';
+export { SessionCache, MemoryStore } from './cache.js';
+export type { SessionCacheOptions, SessionCacheStore } from './cache.js';
+export { User, Session } from './models.js';
+export type { CollectionResponse } from './models.js';
+export type { RequestOptions, TransportOptions } from './http.js';
+export type { LogLevel, SdkLogger } from './log.js';
+export { compare } from './compare.js';
+export type {
+    IPPolicy,
+    IPMatchReason,
+    IPMatchResult,
+    UserAgentField,
+    UserAgentInput,
+    UserAgentPolicy,
+    UserAgentMatchResult,
+} from './compare.js';
+export { extractContext } from './context.js';
+export type {
+    ClientContext,
+    ContextRequest,
+    ExtractContextOptions,
+    ForwardedHeader,
+    HeaderSource,
+} from './context.js';
+export {
+    sessionMiddleware,
+    sessionPlugin,
+    issueSessionCookie,
+    clearSessionCookie,
+} from './middleware.js';
+export type {
+    CookieOptions,
+    CookieResponse,
+    MagicAuthRequestState,
+    MiddlewareOptions,
+    MiddlewareRequest,
+    SessionPlugin,
+} from './middleware.js';
+export { config, API_BASE_URL } from './config.js';
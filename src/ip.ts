@@ -0,0 +1,86 @@
+import ipaddr from 'ipaddr.js';
+
+export type IPAddress = ipaddr.IPv4 | ipaddr.IPv6;
+export type IPRange = [IPAddress, number];
+
+// Range names accepted wherever a CIDR list is, matched with ipaddr's `range()`
+const NAMED_RANGES = new Set([
+    'loopback',
+    'private',
+    'linkLocal',
+    'uniqueLocal',
+    'carrierGradeNat',
+]);
+
+/**
+ * Parse a strict IP address, normalizing IPv4-mapped IPv6 (::ffff:a.b.c.d) to IPv4
+ * Accepts bracketed IPv6 and a trailing port ("[::1]:8080", "203.0.113.5:443"). IPv4 must be
+ * four-part decimal so "0x7f.1"-style forms cannot sneak past range checks.
+ * @returns null if the value is not an IP address
+ */
+export function parse_ip(value: string): IPAddress | null {
+    let address = value.trim();
+    const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(address);
+    if (bracketed) {
+        address = bracketed[1];
+    } else if (/^[\d.]+:\d+$/.test(address)) {
+        address = address.slice(0, address.lastIndexOf(':'));
+    }
+
+    if (ipaddr.IPv4.isValid(address) && !ipaddr.IPv4.isValidFourPartDecimal(address)) {
+        return null;
+    }
+    if (!ipaddr.isValid(address)) {
+        return null;
+    }
+    return ipaddr.process(address);
+}
+
+/**
+ * Parse a list of CIDRs, plain addresses (treated as /32 or /128) and range names
+ * ("loopback", "private", "linkLocal", "uniqueLocal", "carrierGradeNat")
+ * @throws {TypeError} If an entry is none of those
+ */
+export function parse_ranges(list: string[]): (IPRange | string)[] {
+    return list.map((entry) => {
+        if (NAMED_RANGES.has(entry)) {
+            return entry;
+        }
+        if (ipaddr.isValidCIDR(entry)) {
+            const [address, bits] = ipaddr.parseCIDR(entry);
+            if (address.kind() === 'ipv6' && (address as ipaddr.IPv6).isIPv4MappedAddress()) {
+                return [(address as ipaddr.IPv6).toIPv4Address(), Math.max(0, bits - 96)];
+            }
+            return [address, bits];
+        }
+        const address = parse_ip(entry);
+        if (address === null) {
+            throw new TypeError(`Invalid IP range: ${entry}`);
+        }
+        return [address, address.kind() === 'ipv4' ? 32 : 128];
+    });
+}
+
+/**
+ * Check whether an address falls in any of the parsed ranges
+ */
+export function in_ranges(address: IPAddress, ranges: (IPRange | string)[]): boolean {
+    return ranges.some((range) => {
+        if (typeof range === 'string') {
+            return address.range() === range;
+        }
+        return address.kind() === range[0].kind() && address.match(range);
+    });
+}
+
+/**
+ * Network an address belongs to in CIDR notation, eg. "2001:db8:1:2::/64"
+ */
+export function network_cidr(address: IPAddress, bits: number): string {
+    const cidr = `${address.toString()}/${bits}`;
+    const network =
+        address.kind() === 'ipv4'
+            ? ipaddr.IPv4.networkAddressFromCIDR(cidr)
+            : ipaddr.IPv6.networkAddressFromCIDR(cidr);
+    return `${network.toString()}/${bits}`;
+}
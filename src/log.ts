@@ -0,0 +1,43 @@
+import { Logger } from 'loganite';
+
+/**
+ * Logger accepted by the SDK; `console` and loganite's Logger both satisfy it
+ */
+export interface SdkLogger {
+    debug(message: string, ...args: unknown[]): void;
+    info(message: string, ...args: unknown[]): void;
+    warn(message: string, ...args: unknown[]): void;
+    error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * loganite log levels, most verbose first
+ */
+export type LogLevel = 'trace' | 'debug' | 'info' | 'normal' | 'warn' | 'error' | 'fatal';
+
+interface RuntimeGlobals {
+    process?: { env?: Record<string, string | undefined> };
+    Deno?: { env: { get(name: string): string | undefined } };
+}
+
+/**
+ * Read an environment variable on runtimes that have one
+ * Browsers and workers have no environment; Deno throws without `--allow-env`.
+ */
+function env(name: string): string | undefined {
+    const runtime = globalThis as RuntimeGlobals;
+    try {
+        return runtime.process?.env?.[name] ?? runtime.Deno?.env.get(name);
+    } catch {
+        return undefined;
+    }
+}
+
+export const log: SdkLogger = new Logger('magicauth-sdk', env('LOG_LEVEL') || 'fatal');
+
+/**
+ * SDK logger with its own level (independent of `LOG_LEVEL`)
+ */
+export function create_log(level: LogLevel): SdkLogger {
+    return new Logger('magicauth-sdk', level);
+}
@@ -0,0 +1,567 @@
+import { InvalidCodeError, LockedOutError, MagicAuthError, NotFoundError } from './errors.js';
+import type { Session } from './models.js';
+import { timing_safe_equal } from './signing.js';
+
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+/**
+ * Storage for second factors
+ * Enrollments are written without `ttl` and must survive restarts (eg. a database table, not an
+ * evicting cache); used codes, failed attempts and verified sessions are written with `ttl` in
+ * milliseconds. Values are JSON compatible. Methods may be sync or async.
+ */
+export interface MfaStore {
+    get(key: string): unknown | Promise<unknown>;
+    set(key: string, value: unknown, ttl?: number): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+}
+
+/**
+ * TOTP parameters (RFC 6238); the defaults are what authenticator apps expect
+ */
+export interface TotpOptions {
+    /** HMAC hash (default: "SHA1") */
+    algorithm?: TotpAlgorithm;
+    /** Code length (default: 6) */
+    digits?: number;
+    /** Seconds per code (default: 30) */
+    period?: number;
+}
+
+/**
+ * Second factor settings of a Collection
+ */
+export interface MfaOptions extends TotpOptions {
+    /** Where enrollments and verification state are kept */
+    store: MfaStore;
+    /** Service name shown in authenticator apps */
+    issuer: string;
+    /** Periods accepted before and after the current one, for clock skew (default: 1) */
+    window?: number;
+    /** Recovery codes issued per credential (default: 10) */
+    recovery_codes?: number;
+    /** Wrong codes per session before the session is archived (default: 5) */
+    max_attempts?: number;
+    /**
+     * Wrong codes per credential, across all its sessions, before the credential is locked
+     * (default: 10)
+     */
+    max_credential_attempts?: number;
+    /**
+     * How long a credential's wrong codes are counted after the last one, and how long a
+     * lockout lasts, in milliseconds (default: 15 minutes)
+     */
+    lockout?: number;
+}
+
+/**
+ * Secret to show the user when enrolling an authenticator app
+ */
+export interface TotpEnrollment {
+    /** Base32 secret, for manual entry */
+    secret: string;
+    /** otpauth:// URI, for a QR code */
+    uri: string;
+}
+
+/**
+ * Second factor state of a credential
+ */
+export interface SecondFactorStatus {
+    /** A TOTP secret was enrolled */
+    enrolled: boolean;
+    /** The enrollment was confirmed with a code; sign ins need a second factor */
+    confirmed: boolean;
+    /** Unused recovery codes */
+    recovery_codes: number;
+}
+
+type Enrollment = {
+    secret: string;
+    algorithm: TotpAlgorithm;
+    digits: number;
+    period: number;
+    confirmed: boolean;
+    /** SHA-256 hex digests of the unused recovery codes */
+    recovery: string[];
+    created: number;
+};
+
+/** Wrong codes of a credential; `until` is when the count (and any lockout) ends */
+type Failures = { count: number; until: number };
+
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const HASHES: Record<TotpAlgorithm, string> = {
+    SHA1: 'SHA-1',
+    SHA256: 'SHA-256',
+    SHA512: 'SHA-512',
+};
+// Verified sessions without a known expiry are remembered this long
+const DEFAULT_VERIFIED_TTL = 24 * 60 * 60 * 1000;
+const DEFAULT_LOCKOUT = 15 * 60 * 1000;
+
+function base32_encode(bytes: Uint8Array): string {
+    let output = '';
+    let buffer = 0;
+    let bits = 0;
+    for (const byte of bytes) {
+        buffer = ((buffer << 8) | byte) & 0xfff;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32[(buffer >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32[(buffer << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+function base32_decode(secret: string): ArrayBuffer {
+    const input = secret.toUpperCase().replace(/[\s=-]/g, '');
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const character of input) {
+        const value = BASE32.indexOf(character);
+        if (value < 0) {
+            throw new TypeError(`Invalid base32 character "${character}" in TOTP secret`);
+        }
+        buffer = ((buffer << 5) | value) & 0xfff;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((buffer >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+    return new Uint8Array(bytes).buffer;
+}
+
+async function sha256_hex(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join(
+        ''
+    );
+}
+
+/**
+ * HOTP value for a counter (RFC 4226)
+ */
+async function hotp(
+    key: ArrayBuffer,
+    counter: number,
+    algorithm: TotpAlgorithm,
+    digits: number
+): Promise<string> {
+    const hmac_key = await crypto.subtle.importKey(
+        'raw',
+        key,
+        { name: 'HMAC', hash: HASHES[algorithm] },
+        false,
+        ['sign']
+    );
+    const message = new DataView(new ArrayBuffer(8));
+    message.setUint32(0, Math.floor(counter / 2 ** 32));
+    message.setUint32(4, counter >>> 0);
+    const mac = new Uint8Array(await crypto.subtle.sign('HMAC', hmac_key, message));
+    const offset = mac[mac.length - 1] & 0x0f;
+    const binary =
+        ((mac[offset] & 0x7f) << 24) |
+        (mac[offset + 1] << 16) |
+        (mac[offset + 2] << 8) |
+        mac[offset + 3];
+    return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * Generate a random TOTP secret
+ * @param bytes - Secret length in bytes (default: 20, as RFC 4226 recommends for SHA1)
+ * @returns Base32 secret without padding
+ */
+export function generateTotpSecret(bytes = 20): string {
+    return base32_encode(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/**
+ * Build the otpauth:// URI authenticator apps read from QR codes
+ * @param secret - Base32 secret
+ * @param account - Account name shown in the app (eg. the user's email address)
+ * @param issuer - Service name shown in the app
+ * @param options - Algorithm, digits and period when not the defaults
+ */
+export function totpUri(
+    secret: string,
+    account: string,
+    issuer: string,
+    options: TotpOptions = {}
+): string {
+    const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: options.algorithm ?? 'SHA1',
+        digits: String(options.digits ?? 6),
+        period: String(options.period ?? 30),
+    });
+    return `otpauth://totp/${label}?${params}`;
+}
+
+/**
+ * Code of a TOTP secret at a time, eg. for tests
+ * @param secret - Base32 secret
+ * @param options - TOTP parameters and time in milliseconds (default: `Date.now()`)
+ * @throws {TypeError} If the secret is not base32
+ */
+export async function totpCode(
+    secret: string,
+    options: TotpOptions & { time?: number } = {}
+): Promise<string> {
+    const period = options.period ?? 30;
+    const counter = Math.floor((options.time ?? Date.now()) / 1000 / period);
+    return hotp(base32_decode(secret), counter, options.algorithm ?? 'SHA1', options.digits ?? 6);
+}
+
+/**
+ * Check a TOTP code, accepting `window` periods of clock skew either side
+ * Does not prevent replays on its own; compare the returned counter with the last one accepted.
+ * @param secret - Base32 secret
+ * @param code - Code entered by the user
+ * @param options - TOTP parameters, window (default: 1) and time (default: `Date.now()`)
+ * @returns Time step counter the code belongs to, or null if it is wrong
+ * @throws {TypeError} If the secret is not base32
+ */
+export async function verifyTotp(
+    secret: string,
+    code: string,
+    options: TotpOptions & { window?: number; time?: number } = {}
+): Promise<number | null> {
+    const algorithm = options.algorithm ?? 'SHA1';
+    const digits = options.digits ?? 6;
+    const period = options.period ?? 30;
+    const window = options.window ?? 1;
+    const key = base32_decode(secret);
+    const current = Math.floor((options.time ?? Date.now()) / 1000 / period);
+    const normalized = code.replace(/\s/g, '');
+
+    let matched: number | null = null;
+    // Check every step so timing does not reveal which one matched
+    for (let counter = current - window; counter <= current + window; counter++) {
+        if (timing_safe_equal(await hotp(key, counter, algorithm, digits), normalized)) {
+            matched ??= counter;
+        }
+    }
+    return matched;
+}
+
+function recovery_code(): string {
+    const code = base32_encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`.toLowerCase();
+}
+
+function normalize_recovery_code(code: string): string {
+    return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+const enrollment_key = (credential_id: string) => `mfa:${credential_id}`;
+const used_key = (credential_id: string) => `mfa_used:${credential_id}`;
+const attempts_key = (session_id: string) => `mfa_attempts:${session_id}`;
+const failures_key = (credential_id: string) => `mfa_failures:${credential_id}`;
+const verified_key = (session_id: string) => `mfa_verified:${session_id}`;
+
+/**
+ * TOTP and recovery code second factor for credentials, kept in an `MfaStore`
+ * The MagicAuth API only checks passwords, so enrollments live in the store and the Collection
+ * tracks which sessions verified a code. Wrong codes are counted per session and per credential,
+ * so opening new sessions does not reset the count. Records are read and written without
+ * locking; a code submitted twice at the same moment through a shared store may be accepted
+ * twice.
+ */
+export class SecondFactor {
+    private store: MfaStore;
+    private issuer: string;
+    private totp: Required<TotpOptions>;
+    private window: number;
+    private recovery_codes_count: number;
+    private max_attempts: number;
+    private max_credential_attempts: number;
+    private lockout: number;
+
+    /**
+     * @param options - Store, issuer, TOTP parameters and limits
+     */
+    constructor(options: MfaOptions) {
+        this.store = options.store;
+        this.issuer = options.issuer;
+        this.totp = {
+            algorithm: options.algorithm ?? 'SHA1',
+            digits: options.digits ?? 6,
+            period: options.period ?? 30,
+        };
+        this.window = options.window ?? 1;
+        this.recovery_codes_count = options.recovery_codes ?? 10;
+        this.max_attempts = options.max_attempts ?? 5;
+        this.max_credential_attempts = options.max_credential_attempts ?? 10;
+        this.lockout = options.lockout ?? DEFAULT_LOCKOUT;
+    }
+
+    /**
+     * Start enrolling an authenticator app; replaces an unconfirmed enrollment
+     * The second factor is required from `confirm` on.
+     * @param credential_id - Credential ID
+     * @param account - Account name shown in the app (eg. the user's email address)
+     * @returns Secret and otpauth:// URI to show the user once
+     * @throws {MagicAuthError} If the credential already has a confirmed second factor
+     */
+    async enroll(credential_id: string, account: string): Promise<TotpEnrollment> {
+        if ((await this.enrollment(credential_id))?.confirmed) {
+            throw new MagicAuthError(
+                {},
+                'Credential already has a second factor; disable it first'
+            );
+        }
+        const secret = generateTotpSecret();
+        const enrollment: Enrollment = {
+            secret,
+            ...this.totp,
+            confirmed: false,
+            recovery: [],
+            created: Date.now(),
+        };
+        await this.store.set(enrollment_key(credential_id), enrollment);
+        return { secret, uri: totpUri(secret, account, this.issuer, this.totp) };
+    }
+
+    /**
+     * Confirm an enrollment with a code from the app, proving it was set up
+     * Sessions of the credential need `verify_second_factor` from now on, including existing ones.
+     * @param credential_id - Credential ID
+     * @param code - Current code
+     * @returns Recovery codes to show the user once
+     * @throws {NotFoundError} If the credential has no pending enrollment
+     * @throws {InvalidCodeError} If the code is wrong
+     */
+    async confirm(credential_id: string, code: string): Promise<string[]> {
+        const enrollment = await this.enrollment(credential_id);
+        if (!enrollment || enrollment.confirmed) {
+            throw new NotFoundError({}, 'No pending second factor enrollment for credential');
+        }
+        if ((await this.check_totp(credential_id, enrollment, code)) === null) {
+            throw new InvalidCodeError();
+        }
+        enrollment.confirmed = true;
+        return this.issue_recovery_codes(credential_id, enrollment);
+    }
+
+    /**
+     * Replace the recovery codes of a confirmed second factor
+     * @param credential_id - Credential ID
+     * @returns New recovery codes to show the user once; the old ones stop working
+     * @throws {NotFoundError} If the credential has no confirmed second factor
+     */
+    async regenerate_recovery_codes(credential_id: string): Promise<string[]> {
+        const enrollment = await this.enrollment(credential_id);
+        if (!enrollment?.confirmed) {
+            throw new NotFoundError({}, 'Credential has no second factor');
+        }
+        return this.issue_recovery_codes(credential_id, enrollment);
+    }
+
+    /**
+     * Remove a credential's second factor (eg. after a lost device, once identity is verified)
+     * @param credential_id - Credential ID
+     */
+    async disable(credential_id: string): Promise<void> {
+        await this.store.delete(enrollment_key(credential_id));
+        await this.store.delete(used_key(credential_id));
+        await this.store.delete(failures_key(credential_id));
+    }
+
+    /**
+     * Move a credential's second factor to another credential (eg. after a password reset
+     * replaced the credential)
+     * The last used time step and the wrong code count move along, so a code used before the
+     * move cannot be replayed and a lockout is not lifted by it.
+     * @param from_credential_id - Credential that has the second factor
+     * @param to_credential_id - Credential that gets it
+     */
+    async move(from_credential_id: string, to_credential_id: string): Promise<void> {
+        const enrollment = await this.enrollment(from_credential_id);
+        if (!enrollment) {
+            return;
+        }
+        await this.store.set(enrollment_key(to_credential_id), enrollment);
+        const last_used = await this.store.get(used_key(from_credential_id));
+        if (last_used !== undefined && last_used !== null) {
+            await this.store.set(used_key(to_credential_id), last_used, this.used_ttl(enrollment));
+        }
+        const failures = await this.failures(from_credential_id);
+        if (failures) {
+            await this.store.set(
+                failures_key(to_credential_id),
+                failures,
+                failures.until - Date.now()
+            );
+        }
+        await this.disable(from_credential_id);
+    }
+
+    /**
+     * Second factor state of a credential
+     * @param credential_id - Credential ID
+     */
+    async status(credential_id: string): Promise<SecondFactorStatus> {
+        const enrollment = await this.enrollment(credential_id);
+        return {
+            enrolled: enrollment !== undefined,
+            confirmed: enrollment?.confirmed ?? false,
+            recovery_codes: enrollment?.confirmed ? enrollment.recovery.length : 0,
+        };
+    }
+
+    /**
+     * Whether sessions of a credential need a verified code
+     * @param credential_id - Credential ID
+     */
+    async required(credential_id: string): Promise<boolean> {
+        return (await this.enrollment(credential_id))?.confirmed ?? false;
+    }
+
+    /**
+     * Whether a session verified a code
+     * @param session_id - Session ID
+     */
+    async verified(session_id: string): Promise<boolean> {
+        return (await this.store.get(verified_key(session_id))) === true;
+    }
+
+    /**
+     * Check a TOTP or recovery code for a session and mark the session as verified
+     * Accepted TOTP codes and recovery codes cannot be used again. Once the credential has
+     * `max_credential_attempts` wrong codes, codes are refused unchecked until the lockout ends.
+     * @param session - Session as returned by the API
+     * @param code - TOTP code or recovery code
+     * @returns Attempts left for the session when the code is wrong, or null when it was accepted
+     * @throws {LockedOutError} If the credential is locked
+     */
+    async verify_session(session: Session, code: string): Promise<number | null> {
+        const credential_id = session.credential.id;
+        const failures = await this.failures(credential_id);
+        if (failures && failures.count >= this.max_credential_attempts) {
+            throw new LockedOutError('credential', failures.until - Date.now());
+        }
+        const enrollment = await this.enrollment(credential_id);
+        const accepted =
+            enrollment?.confirmed &&
+            (new RegExp(`^\\d{${enrollment.digits}}$`).test(code.replace(/\s/g, ''))
+                ? (await this.check_totp(credential_id, enrollment, code)) !== null
+                : await this.use_recovery_code(credential_id, enrollment, code));
+
+        if (!accepted) {
+            const counted: Failures = {
+                count: (failures?.count ?? 0) + 1,
+                until: Date.now() + this.lockout,
+            };
+            await this.store.set(failures_key(credential_id), counted, this.lockout);
+            const attempts = (Number(await this.store.get(attempts_key(session.id))) || 0) + 1;
+            await this.store.set(attempts_key(session.id), attempts, this.session_ttl(session));
+            return Math.max(0, this.max_attempts - attempts);
+        }
+        await this.store.delete(attempts_key(session.id));
+        await this.store.delete(failures_key(credential_id));
+        await this.mark_verified(session);
+        return null;
+    }
+
+    /**
+     * Remember that a session verified a code for as long as it is valid
+     * @param session - Session with its current `expires`
+     */
+    async mark_verified(session: Session): Promise<void> {
+        await this.store.set(verified_key(session.id), true, this.session_ttl(session));
+    }
+
+    /**
+     * Forget a session's verification and failed attempts (eg. after it was archived)
+     * @param session_id - Session ID
+     */
+    async forget(session_id: string): Promise<void> {
+        await this.store.delete(verified_key(session_id));
+        await this.store.delete(attempts_key(session_id));
+    }
+
+    private async enrollment(credential_id: string): Promise<Enrollment | undefined> {
+        const enrollment = await this.store.get(enrollment_key(credential_id));
+        return enrollment ? (enrollment as Enrollment) : undefined;
+    }
+
+    private async failures(credential_id: string): Promise<Failures | undefined> {
+        const failures = (await this.store.get(failures_key(credential_id))) as
+            Failures | undefined;
+        return failures && failures.until > Date.now() ? failures : undefined;
+    }
+
+    /**
+     * How long a used time step is remembered: once the window has moved past the step, the
+     * code cannot be replayed anyway
+     */
+    private used_ttl(enrollment: Enrollment): number {
+        return (2 * this.window + 1) * enrollment.period * 1000;
+    }
+
+    private session_ttl(session: Session): number {
+        return session.expires
+            ? Math.max(1, session.expires.getTime() - Date.now())
+            : DEFAULT_VERIFIED_TTL;
+    }
+
+    /**
+     * Verify a TOTP code and reject codes of time steps already used (replay protection)
+     * @returns Accepted time step, or null
+     */
+    private async check_totp(
+        credential_id: string,
+        enrollment: Enrollment,
+        code: string
+    ): Promise<number | null> {
+        const counter = await verifyTotp(enrollment.secret, code, {
+            algorithm: enrollment.algorithm,
+            digits: enrollment.digits,
+            period: enrollment.period,
+            window: this.window,
+        });
+        const last_used = Number(await this.store.get(used_key(credential_id)));
+        if (counter === null || (Number.isFinite(last_used) && counter <= last_used)) {
+            return null;
+        }
+        await this.store.set(used_key(credential_id), counter, this.used_ttl(enrollment));
+        return counter;
+    }
+
+    private async use_recovery_code(
+        credential_id: string,
+        enrollment: Enrollment,
+        code: string
+    ): Promise<boolean> {
+        const digest = await sha256_hex(normalize_recovery_code(code));
+        const index = enrollment.recovery.findIndex((stored) => timing_safe_equal(stored, digest));
+        if (index < 0) {
+            return false;
+        }
+        enrollment.recovery.splice(index, 1);
+        await this.store.set(enrollment_key(credential_id), enrollment);
+        return true;
+    }
+
+    private async issue_recovery_codes(
+        credential_id: string,
+        enrollment: Enrollment
+    ): Promise<string[]> {
+        const codes = Array.from({ length: this.recovery_codes_count }, recovery_code);
+        enrollment.recovery = await Promise.all(
+            codes.map((code) => sha256_hex(normalize_recovery_code(code)))
+        );
+        await this.store.set(enrollment_key(credential_id), enrollment);
+        return codes;
+    }
+}
@@ -0,0 +1,431 @@
+import type { Collection } from './collection.js';
+import { type ClientContext, extractContext, type ExtractContextOptions } from './context.js';
+import {
+    AuthenticationError,
+    ContextMismatchError,
+    NotFoundError,
+    SecondFactorRequiredError,
+    SessionExpiredError,
+} from './errors.js';
+import type { Session } from './models.js';
+import { type RenewalPolicy, shouldRenew } from './renewal.js';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+/**
+ * The parts of an incoming request the middleware reads
+ * Satisfied by Node's IncomingMessage, Express, Connect and Fastify requests
+ */
+export interface MiddlewareRequest {
+    headers: Headers;
+    ip?: string;
+    socket?: { remoteAddress?: string };
+    cookies?: Record<string, string | undefined>;
+    magicauth?: MagicAuthRequestState<unknown> | null;
+}
+
+/**
+ * Authentication result attached to the request as `request.magicauth`
+ */
+export interface MagicAuthRequestState<U> {
+    session: Session;
+    credential_id: string;
+    /** Result of the `user` lookup callback (undefined when no callback is configured) */
+    user?: U;
+}
+
+/**
+ * Response that can receive a Set-Cookie header
+ * Node's ServerResponse (and Express/Connect) expose setHeader/getHeader, Fastify's reply `header`
+ */
+export type CookieResponse =
+    | {
+          setHeader(name: string, value: string | string[]): unknown;
+          getHeader(name: string): unknown;
+      }
+    | { header(name: string, value: string): unknown };
+
+/**
+ * Session cookie attributes
+ */
+export interface CookieOptions {
+    /** Cookie name (default: "session_id") */
+    name?: string;
+    path?: string;
+    domain?: string;
+    /** Default: true */
+    secure?: boolean;
+    /** Default: true */
+    http_only?: boolean;
+    /** Default: "Strict" */
+    same_site?: 'Strict' | 'Lax' | 'None';
+    /** Lifetime in seconds; defaults to the session's remaining lifetime when known */
+    max_age?: number;
+}
+
+/**
+ * Options shared by the Express/Connect middleware and the Fastify plugin
+ */
+export interface MiddlewareOptions<U> {
+    /** Session cookie settings; `name` is also where the session id is read from */
+    cookie?: CookieOptions;
+    /** Derive IP address and User Agent from the request (default: request IP and User-Agent) */
+    context?: (request: MiddlewareRequest) => ClientContext;
+    /**
+     * Proxies whose forwarding headers are believed (see `extractContext`); when set, the client
+     * IP comes from `extractContext` instead of the framework's `request.ip`
+     */
+    trustedProxies?: ExtractContextOptions['trustedProxies'];
+    /** Header the trusted proxies append the client address to (default: "x-forwarded-for") */
+    forwardedHeader?: ExtractContextOptions['forwardedHeader'];
+    /** Resolve the application user for a credential; returning null/undefined rejects the request */
+    user?: (credential_id: string, session: Session) => Promise<U | null | undefined>;
+    /** Let requests without a session cookie through unauthenticated (default: false) */
+    optional?: boolean;
+    /**
+     * Extend sessions that are due (see `shouldRenew`) and reissue their cookie; `true` uses the
+     * default policy (default: false)
+     */
+    renew?: boolean | RenewalPolicy;
+    /**
+     * Where sessions still waiting for `verify_second_factor` are redirected (303) with their
+     * cookie kept (default: a 403 `{ error: "Second factor required" }`; with `optional` they
+     * pass through unauthenticated)
+     */
+    second_factor?: string;
+}
+
+type NodeResponse = {
+    statusCode: number;
+    setHeader(name: string, value: string | string[]): unknown;
+    getHeader(name: string): unknown;
+    end(body?: string): unknown;
+};
+
+type FastifyReply = {
+    code(status: number): FastifyReply;
+    header(name: string, value: string): unknown;
+    send(body?: unknown): unknown;
+};
+
+type FastifyInstance = {
+    decorateRequest(name: string, value: unknown): unknown;
+    addHook(
+        name: 'preHandler',
+        hook: (request: MiddlewareRequest, reply: FastifyReply) => Promise<unknown>
+    ): unknown;
+};
+
+/**
+ * Flag fastify-plugin sets so a plugin's hooks apply outside its own encapsulation scope
+ */
+const SKIP_OVERRIDE: unique symbol = Symbol.for('skip-override');
+
+/**
+ * Fastify plugin returned by `sessionPlugin`
+ */
+export type SessionPlugin = ((fastify: FastifyInstance) => Promise<void>) & {
+    [SKIP_OVERRIDE]: boolean;
+};
+
+const DEFAULT_COOKIE_NAME = 'session_id';
+
+/**
+ * Failures that mean "this session is not usable" (respond 401) as opposed to outages or
+ * misconfiguration, which are passed on as errors so the session cookie survives them.
+ * Sessions pending a second factor are usable once they verify a code, so they are routed to
+ * that step instead.
+ */
+function is_unauthenticated(error: unknown): boolean {
+    return (
+        (error instanceof AuthenticationError && !(error instanceof SecondFactorRequiredError)) ||
+        error instanceof SessionExpiredError ||
+        error instanceof ContextMismatchError ||
+        error instanceof NotFoundError
+    );
+}
+
+function header(headers: Headers, name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Read a cookie from `request.cookies` (cookie-parser, @fastify/cookie) or the Cookie header
+ */
+function read_cookie(request: MiddlewareRequest, name: string): string | undefined {
+    if (request.cookies?.[name]) {
+        return request.cookies[name];
+    }
+    for (const pair of (header(request.headers, 'cookie') ?? '').split(';')) {
+        const index = pair.indexOf('=');
+        if (index > 0 && pair.slice(0, index).trim() === name) {
+            try {
+                return decodeURIComponent(pair.slice(index + 1).trim());
+            } catch {
+                return undefined;
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Default context: the framework's request IP and the User-Agent header
+ */
+function default_context(request: MiddlewareRequest): ClientContext {
+    return {
+        ip_address: request.ip ?? request.socket?.remoteAddress ?? '',
+        user_agent: header(request.headers, 'user-agent') ?? '',
+    };
+}
+
+/**
+ * Context function for the middleware options: custom, proxy-aware or the default
+ */
+function context_reader<U>(
+    options: MiddlewareOptions<U>
+): (request: MiddlewareRequest) => ClientContext {
+    if (options.context) {
+        return options.context;
+    }
+    const { trustedProxies, forwardedHeader } = options;
+    if (trustedProxies) {
+        return (request) => extractContext(request, { trustedProxies, forwardedHeader });
+    }
+    return default_context;
+}
+
+function serialize_cookie(name: string, value: string, options: CookieOptions): string {
+    const parts = [`${name}=${encodeURIComponent(value)}`, `Path=${options.path ?? '/'}`];
+    if (options.domain) {
+        parts.push(`Domain=${options.domain}`);
+    }
+    if (options.max_age !== undefined) {
+        parts.push(`Max-Age=${Math.max(0, Math.floor(options.max_age))}`);
+        if (options.max_age <= 0) {
+            parts.push('Expires=Thu, 01 Jan 1970 00:00:00 GMT');
+        }
+    }
+    if (options.http_only ?? true) {
+        parts.push('HttpOnly');
+    }
+    if (options.secure ?? true) {
+        parts.push('Secure');
+    }
+    parts.push(`SameSite=${options.same_site ?? 'Strict'}`);
+    return parts.join('; ');
+}
+
+/**
+ * Append a Set-Cookie header without dropping cookies set earlier in the request
+ */
+function append_cookie(response: CookieResponse, cookie: string): void {
+    if ('setHeader' in response) {
+        const existing = response.getHeader('Set-Cookie');
+        const cookies =
+            existing === undefined ? [] : Array.isArray(existing) ? existing : [String(existing)];
+        response.setHeader('Set-Cookie', [...cookies, cookie]);
+    } else {
+        response.header('Set-Cookie', cookie);
+    }
+}
+
+/**
+ * Set the session cookie with secure defaults (HttpOnly, Secure, SameSite=Strict)
+ * @param response - Node/Express/Connect response or Fastify reply
+ * @param session - Session returned by `Collection.session`
+ * @param options - Cookie attributes
+ */
+export function issueSessionCookie(
+    response: CookieResponse,
+    session: Session,
+    options: CookieOptions = {}
+): void {
+    let max_age = options.max_age;
+    if (max_age === undefined && session.expires) {
+        max_age = (session.expires.getTime() - Date.now()) / 1000;
+    }
+    append_cookie(
+        response,
+        serialize_cookie(options.name ?? DEFAULT_COOKIE_NAME, session.id, { ...options, max_age })
+    );
+}
+
+/**
+ * Expire the session cookie
+ * @param response - Node/Express/Connect response or Fastify reply
+ * @param options - Cookie attributes; `name`, `path` and `domain` must match the issued cookie
+ */
+export function clearSessionCookie(response: CookieResponse, options: CookieOptions = {}): void {
+    append_cookie(
+        response,
+        serialize_cookie(options.name ?? DEFAULT_COOKIE_NAME, '', { ...options, max_age: 0 })
+    );
+}
+
+/**
+ * Extend a session and reissue its cookie
+ * A failed renewal is logged and the validated session is kept; it still works until it expires.
+ */
+async function renew(
+    collection: Collection,
+    session: Session,
+    context: ClientContext,
+    response: CookieResponse,
+    cookie?: CookieOptions
+): Promise<Session> {
+    try {
+        const renewed = await collection.renew_session(
+            session.id,
+            context.ip_address,
+            context.user_agent
+        );
+        issueSessionCookie(response, renewed, cookie);
+        return renewed;
+    } catch (error) {
+        collection.log.warn('Session renewal failed: %s', error);
+        return session;
+    }
+}
+
+/**
+ * Validate the request's session (renewing it when due) and build the request state
+ * @returns null when there is no session cookie
+ * @throws {MagicAuthError} If validation fails
+ */
+async function authenticate<U>(
+    collection: Collection,
+    request: MiddlewareRequest,
+    response: CookieResponse,
+    options: MiddlewareOptions<U>
+): Promise<MagicAuthRequestState<U> | null> {
+    const session_id = read_cookie(request, options.cookie?.name ?? DEFAULT_COOKIE_NAME);
+    if (!session_id) {
+        return null;
+    }
+
+    const context = context_reader(options)(request);
+    let session = await collection.validate(session_id, context.ip_address, context.user_agent);
+    if (options.renew && shouldRenew(session, options.renew === true ? {} : options.renew)) {
+        session = await renew(collection, session, context, response, options.cookie);
+    }
+    const state: MagicAuthRequestState<U> = {
+        session,
+        credential_id: session.credential.id,
+    };
+
+    if (options.user) {
+        const user = await options.user(session.credential.id, session);
+        if (user === null || user === undefined) {
+            throw new NotFoundError({
+                status: 404,
+                error: 'Not Found',
+                message: `No user for credential ${session.credential.id}`,
+            });
+        }
+        state.user = user;
+    }
+    return state;
+}
+
+/**
+ * Express/Connect middleware that authenticates requests with the MagicAuth session cookie
+ * On success `request.magicauth` holds the session, credential id and (optionally) user.
+ * Invalid, expired or mismatched sessions get a 401 and a cleared cookie; outages are passed
+ * to `next(error)` so the session survives them. With `renew`, sessions due for renewal are
+ * extended and their cookie is reissued.
+ * @param collection - Collection the sessions belong to
+ * @param options - Cookie, context, user lookup and renewal settings
+ */
+export function sessionMiddleware<U = unknown>(
+    collection: Collection,
+    options: MiddlewareOptions<U> = {}
+) {
+    return async function magicauth_session(
+        request: MiddlewareRequest,
+        response: NodeResponse,
+        next: (error?: unknown) => void
+    ): Promise<void> {
+        let state: MagicAuthRequestState<U> | null;
+        try {
+            state = await authenticate(collection, request, response, options);
+        } catch (error) {
+            if (error instanceof SecondFactorRequiredError) {
+                // The cookie is kept: the session works once it verifies a code
+                if (!options.optional) {
+                    request.magicauth = null;
+                    if (options.second_factor) {
+                        response.statusCode = 303;
+                        response.setHeader('Location', options.second_factor);
+                        response.end();
+                    } else {
+                        response.statusCode = 403;
+                        response.setHeader('Content-Type', 'application/json');
+                        response.end(JSON.stringify({ error: 'Second factor required' }));
+                    }
+                    return;
+                }
+            } else if (is_unauthenticated(error)) {
+                clearSessionCookie(response, options.cookie);
+            } else {
+                return next(error);
+            }
+            state = null;
+        }
+
+        request.magicauth = state;
+        if (state === null && !options.optional) {
+            response.statusCode = 401;
+            response.setHeader('Content-Type', 'application/json');
+            response.end(JSON.stringify({ error: 'Authentication required' }));
+            return;
+        }
+        next();
+    };
+}
+
+/**
+ * Fastify plugin that authenticates requests with the MagicAuth session cookie
+ * Registers a preHandler hook with the same behaviour as `sessionMiddleware`. Like plugins
+ * wrapped with fastify-plugin, the hook applies to the scope that registers it.
+ * @param collection - Collection the sessions belong to
+ * @param options - Cookie, context, user lookup and renewal settings
+ */
+export function sessionPlugin<U = unknown>(
+    collection: Collection,
+    options: MiddlewareOptions<U> = {}
+): SessionPlugin {
+    const plugin = async function magicauth_session(fastify: FastifyInstance): Promise<void> {
+        fastify.decorateRequest('magicauth', null);
+        fastify.addHook('preHandler', async (request, reply) => {
+            let state: MagicAuthRequestState<U> | null;
+            try {
+                state = await authenticate(collection, request, reply, options);
+            } catch (error) {
+                if (error instanceof SecondFactorRequiredError) {
+                    // The cookie is kept: the session works once it verifies a code
+                    if (!options.optional) {
+                        request.magicauth = null;
+                        if (!options.second_factor) {
+                            return reply.code(403).send({ error: 'Second factor required' });
+                        }
+                        reply.header('Location', options.second_factor);
+                        return reply.code(303).send();
+                    }
+                } else if (is_unauthenticated(error)) {
+                    clearSessionCookie(reply, options.cookie);
+                } else {
+                    throw error;
+                }
+                state = null;
+            }
+
+            request.magicauth = state;
+            if (state === null && !options.optional) {
+                return reply.code(401).send({ error: 'Authentication required' });
+            }
+        });
+    };
+    return Object.assign(plugin, { [SKIP_OVERRIDE]: true });
+}
@@ -0,0 +1,287 @@
+import type { Collection } from './collection.js';
+import {
+    AuthenticationError,
+    MagicAuthError,
+    NetworkError,
+    PasswordPolicyError,
+    QuotaExceededError,
+    RateLimitedError,
+} from './errors.js';
+import { retry_after, sleep, type RequestOptions } from './http.js';
+import type { Session, User } from './models.js';
+import { RateLimiter } from './ratelimit.js';
+
+/**
+ * User to create a credential for
+ */
+export interface ImportRecord<K = string> {
+    /** Your identifier for the user (eg. the users table primary key), echoed in the result */
+    key: K;
+    /** Plaintext password */
+    password: string;
+}
+
+/**
+ * Outcome of one record
+ */
+export type ImportResult<K = string> =
+    | { key: K; index: number; ok: true; credential_id: string }
+    | { key: K; index: number; ok: false; error: MagicAuthError };
+
+export interface ImportOptions<K = string> {
+    /** Credentials created at the same time (default: 4) */
+    concurrency?: number;
+    /**
+     * Credentials created per minute, eg. the collection's `rate_limiting.credentials_created`.
+     * Not needed when the Collection has `rate_limits`. (default: unlimited)
+     */
+    rate_limit?: number;
+    /** Rate-limited attempts of one record before it is reported as failed (default: 5) */
+    max_rate_limit_retries?: number;
+    /** Records to skip, ie. the position from the last `on_checkpoint` (default: 0) */
+    start?: number;
+    /** Called with every result, eg. to write the credential ID back */
+    on_result?: (result: ImportResult<K>) => void | Promise<void>;
+    /**
+     * Called, in order, whenever every record before `position` has been handled (including
+     * `on_result`); pass the last position as `start` to resume
+     */
+    on_checkpoint?: (position: number) => void | Promise<void>;
+    /** Stops starting new records; records in flight are finished */
+    signal?: AbortSignal;
+}
+
+export interface ImportSummary {
+    created: number;
+    failed: number;
+    /** Records handled, counting skipped ones (a checkpoint for the whole input) */
+    position: number;
+}
+
+/**
+ * Callbacks wiring `lazyMigration` to your user table
+ */
+export interface LazyMigrationOptions<U> {
+    /** Credential ID of a user, or null/undefined while they are still on the legacy hash */
+    credential_id(user: U): string | null | undefined;
+    /** Check a password against the legacy hash (eg. `bcrypt.compare`) */
+    verify_legacy(user: U, password: string): boolean | Promise<boolean>;
+    /** Store the new credential ID (and drop the legacy hash) */
+    save_credential(user: U, credential_id: string): void | Promise<void>;
+    /**
+     * Called when a proven legacy password breaks the Collection's `password_policy`, before the
+     * credential is created anyway; eg. flag the user so they must change it after signing in
+     */
+    on_policy_violation?(user: U, error: PasswordPolicyError): void | Promise<void>;
+}
+
+/**
+ * Sign-in function returned by `lazyMigration`
+ */
+export type LazySignIn<U> = (
+    user: U,
+    password: string,
+    ip_address: string,
+    user_agent: string,
+    options?: RequestOptions
+) => Promise<Session>;
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_RATE_LIMIT_DELAY = 1000;
+
+/**
+ * Iterate sync and async iterables alike
+ */
+function iterator_of<T>(records: AsyncIterable<T> | Iterable<T>): AsyncIterator<T> | Iterator<T> {
+    return Symbol.asyncIterator in records
+        ? (records as AsyncIterable<T>)[Symbol.asyncIterator]()
+        : (records as Iterable<T>)[Symbol.iterator]();
+}
+
+/**
+ * Create credentials for many users
+ * Records are read lazily with at most `concurrency` requests in flight. Rate limit errors
+ * (from the API or the Collection's own `rate_limits`) pause the record and retry it; other
+ * API errors are reported as a failed result and the import continues. A record that fails
+ * with anything but a MagicAuthError (or a throwing callback) stops the import.
+ *
+ * The input must yield records in the same order on every run for `start` to resume
+ * correctly. Records handled after the last checkpoint are imported again on resume, so
+ * prefer writing the credential ID in `on_result` and skipping users that already have one.
+ * @param collection - Collection to create the credentials in
+ * @param records - Users and their plaintext passwords
+ * @param options - Concurrency, rate limit, callbacks and resume position
+ * @returns Counts of created and failed records and the final position
+ * @throws {NetworkError} If the signal aborts the import (after records in flight finish)
+ */
+export async function importCredentials<K = string>(
+    collection: Collection,
+    records: AsyncIterable<ImportRecord<K>> | Iterable<ImportRecord<K>>,
+    options: ImportOptions<K> = {}
+): Promise<ImportSummary> {
+    const iterator = iterator_of(records);
+    const start = options.start ?? 0;
+    const max_retries = options.max_rate_limit_retries ?? 5;
+    const limiter =
+        options.rate_limit !== undefined
+            ? new RateLimiter({
+                  limits: { credentials_created: options.rate_limit },
+                  on_limit: 'queue',
+                  max_wait: Infinity,
+              })
+            : null;
+    const summary: ImportSummary = { created: 0, failed: 0, position: start };
+
+    let next_index = 0;
+    for (; next_index < start; next_index++) {
+        if ((await iterator.next()).done) {
+            return summary;
+        }
+    }
+
+    // Checkpoints advance over the contiguous run of handled records
+    const handled = new Set<number>();
+    let checkpoints: Promise<void> = Promise.resolve();
+    function advance(index: number): Promise<void> {
+        handled.add(index);
+        let position = summary.position;
+        while (handled.delete(position)) {
+            position += 1;
+        }
+        if (position === summary.position) {
+            return checkpoints;
+        }
+        summary.position = position;
+        const on_checkpoint = options.on_checkpoint;
+        if (on_checkpoint) {
+            checkpoints = checkpoints.then(() => on_checkpoint(position));
+        }
+        return checkpoints;
+    }
+
+    async function create(record: ImportRecord<K>): Promise<string> {
+        for (let attempt = 0; ; attempt++) {
+            await limiter?.acquire('credentials_created');
+            let wait: number | undefined;
+            try {
+                const user = await collection.user(record.password, {
+                    on_response: (response) => {
+                        limiter?.update('credentials_created', response);
+                        if (response.status === 429) {
+                            wait = retry_after(response);
+                        }
+                    },
+                });
+                return user.id;
+            } catch (error) {
+                if (!(error instanceof RateLimitedError) || attempt >= max_retries) {
+                    throw error;
+                }
+                if (error instanceof QuotaExceededError) {
+                    wait = error.retry_after;
+                }
+                await sleep(wait ?? DEFAULT_RATE_LIMIT_DELAY * 2 ** attempt);
+            }
+        }
+    }
+
+    let stopped = false;
+    async function worker(): Promise<void> {
+        while (!stopped && !options.signal?.aborted) {
+            const index = next_index++;
+            const item = await iterator.next();
+            if (item.done) {
+                return;
+            }
+            const record = item.value;
+
+            let result: ImportResult<K>;
+            try {
+                const credential_id = await create(record);
+                result = { key: record.key, index, ok: true, credential_id };
+                summary.created += 1;
+            } catch (error) {
+                if (!(error instanceof MagicAuthError)) {
+                    throw error;
+                }
+                result = { key: record.key, index, ok: false, error };
+                summary.failed += 1;
+            }
+            await options.on_result?.(result);
+            await advance(index);
+        }
+    }
+
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    await Promise.all(
+        Array.from({ length: concurrency }, () =>
+            worker().catch((error) => {
+                stopped = true;
+                throw error;
+            })
+        )
+    );
+    await checkpoints;
+    if (options.signal?.aborted) {
+        throw new NetworkError(options.signal.reason, 'Import aborted');
+    }
+    return summary;
+}
+
+/**
+ * Create the credential of a legacy user whose password was just proven
+ * @throws {MagicAuthError} If the credential could not be created
+ */
+async function create_credential<U>(
+    collection: Collection,
+    options: LazyMigrationOptions<U>,
+    user: U,
+    password: string,
+    request: RequestOptions
+): Promise<User> {
+    try {
+        return await collection.user(password, request);
+    } catch (error) {
+        if (!(error instanceof PasswordPolicyError)) {
+            throw error;
+        }
+        await options.on_policy_violation?.(user, error);
+        return collection.user(password, { ...request, skip_password_policy: true });
+    }
+}
+
+/**
+ * Sign-in that moves users off a legacy password hash on their first successful login
+ * Users with a credential ID sign in with `Collection.session`. Others are checked with
+ * `verify_legacy`; on success a credential is created with the password they just proved,
+ * saved with `save_credential`, and a session is created for it. A proven password that breaks
+ * `password_policy` is migrated as is, after `on_policy_violation`, so the user is not locked
+ * out of an account whose password predates the policy.
+ *
+ * Two simultaneous first logins of the same user each create a credential; the one saved last
+ * wins, so serialize per user if that matters.
+ * @param collection - Collection to create credentials and sessions in
+ * @param options - Callbacks reading and updating your user record
+ * @returns Sign-in function taking the user record instead of a credential ID
+ */
+export function lazyMigration<U>(
+    collection: Collection,
+    options: LazyMigrationOptions<U>
+): LazySignIn<U> {
+    return async (user, password, ip_address, user_agent, request = {}) => {
+        let credential_id = options.credential_id(user);
+        if (!credential_id) {
+            if (!(await options.verify_legacy(user, password))) {
+                throw new AuthenticationError({
+                    status: 401,
+                    error: 'Unauthorized',
+                    message: 'Invalid password',
+                });
+            }
+            const created = await create_credential(collection, options, user, password, request);
+            credential_id = created.id;
+            await options.save_credential(user, credential_id);
+        }
+        return collection.session(credential_id, password, ip_address, user_agent, request);
+    };
+}
@@ -0,0 +1,230 @@
+import { InvalidResponseError } from './errors.js';
+
+type ResponseData = Record<string, unknown>;
+
+/**
+ * Describe a value for validation error messages
+ */
+function describe_value(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    return typeof value === 'string' ? `string ${JSON.stringify(value)}` : typeof value;
+}
+
+/**
+ * Reads typed fields from an API response, throwing InvalidResponseError on the first
+ * field that is missing or has the wrong type
+ */
+class ResponseReader {
+    constructor(
+        private model: string,
+        private data: unknown,
+        private path = ''
+    ) {
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+            this.fail(path || 'response', 'an object', data);
+        }
+    }
+
+    private fail(field: string, expected: string, value: unknown): never {
+        throw new InvalidResponseError(
+            this.model,
+            `Invalid ${this.model} response: expected '${field}' to be ${expected}, got ${describe_value(value)}`,
+            this.data
+        );
+    }
+
+    private value(key: string): unknown {
+        return (this.data as ResponseData)[key];
+    }
+
+    private field(key: string): string {
+        return this.path ? `${this.path}.${key}` : key;
+    }
+
+    string(key: string): string {
+        const value = this.value(key);
+        if (typeof value !== 'string' || value === '') {
+            this.fail(this.field(key), 'a non-empty string', value);
+        }
+        return value;
+    }
+
+    optionalString(key: string): string | undefined {
+        return this.value(key) === undefined ? undefined : this.string(key);
+    }
+
+    number(key: string): number {
+        const value = this.value(key);
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+            this.fail(this.field(key), 'a number', value);
+        }
+        return value;
+    }
+
+    optionalBoolean(key: string): boolean | undefined {
+        const value = this.value(key);
+        if (value !== undefined && typeof value !== 'boolean') {
+            this.fail(this.field(key), 'a boolean', value);
+        }
+        return value as boolean | undefined;
+    }
+
+    /**
+     * Timestamps are accepted as ISO strings or epoch milliseconds
+     */
+    date(key: string): Date {
+        const value = this.value(key);
+        const date =
+            typeof value === 'string' || typeof value === 'number' ? new Date(value) : undefined;
+        if (date === undefined || Number.isNaN(date.getTime())) {
+            this.fail(this.field(key), 'a timestamp', value);
+        }
+        return date;
+    }
+
+    optionalDate(key: string): Date | undefined {
+        return this.value(key) === undefined ? undefined : this.date(key);
+    }
+
+    nullableDate(key: string): Date | null | undefined {
+        return this.value(key) === null ? null : this.optionalDate(key);
+    }
+
+    object(key: string): ResponseReader {
+        return new ResponseReader(this.model, this.value(key), this.field(key));
+    }
+}
+
+/**
+ * Validate a list response
+ * @param model - Name of the listed model (eg. "Session")
+ * @param data - Raw API response
+ * @throws {InvalidResponseError} If data is not an array
+ */
+export function parse_list(model: string, data: unknown): unknown[] {
+    if (!Array.isArray(data)) {
+        throw new InvalidResponseError(
+            model,
+            `Invalid ${model} list response: expected an array, got ${describe_value(data)}`,
+            data
+        );
+    }
+    return data;
+}
+
+/**
+ * Credential model
+ */
+export class User {
+    /** Credential ID (format: "Auth_U1-...") */
+    id: string;
+    created?: Date;
+    /** Time of the last session created with this credential; null if never used */
+    last_used?: Date | null;
+    disabled: boolean;
+
+    /**
+     * @param data - Credential data from API (always includes 'id' field)
+     * @throws {InvalidResponseError} If data does not match the credential shape
+     */
+    constructor(data: unknown) {
+        const reader = new ResponseReader('User', data);
+        this.id = reader.string('id');
+        this.created = reader.optionalDate('created');
+        this.last_used = reader.nullableDate('last_used');
+        this.disabled = reader.optionalBoolean('disabled') ?? false;
+    }
+}
+
+/**
+ * Session model
+ */
+export class Session {
+    /** Session ID (base64 string) */
+    id: string;
+    credential: {
+        /** Credential ID (format: "Auth_U1-...") */
+        id: string;
+    };
+    created?: Date;
+    expires?: Date;
+    /** IP address the session is bound to */
+    ip_address?: string;
+    /** User Agent the session is bound to */
+    user_agent?: string;
+    /**
+     * Second factor state, set by Collections with `mfa` for credentials that have one:
+     * "pending" sessions only work after `verify_second_factor`
+     */
+    second_factor?: 'pending' | 'verified';
+    /**
+     * Signed session token for `verify_token`, set by Collections with `session_tokens` on new,
+     * renewed and verified sessions
+     */
+    token?: string;
+
+    /**
+     * @param data - Session data from API (always includes 'id' and 'credential' fields)
+     * @throws {InvalidResponseError} If data does not match the session shape
+     */
+    constructor(data: unknown) {
+        const reader = new ResponseReader('Session', data);
+        this.id = reader.string('id');
+        this.credential = {
+            id: reader.object('credential').string('id'),
+        };
+        this.created = reader.optionalDate('created');
+        this.expires = reader.optionalDate('expires');
+        this.ip_address = reader.optionalString('ip_address');
+        this.user_agent = reader.optionalString('user_agent');
+    }
+}
+
+/**
+ * Collection details returned by `Collection.create()`
+ */
+export interface CollectionResponse {
+    id: string;
+    access_key: {
+        id: string;
+        key: string;
+        created: Date;
+    };
+    created: Date;
+    rate_limiting: {
+        credentials_created: number;
+        credentials_updated: number;
+        sessions_created: number;
+    };
+}
+
+/**
+ * Validate and convert a `POST /collections` response
+ * @param data - Raw API response
+ * @throws {InvalidResponseError} If data does not match the collection shape
+ */
+export function parse_collection(data: unknown): CollectionResponse {
+    const reader = new ResponseReader('Collection', data);
+    const access_key = reader.object('access_key');
+    const rate_limiting = reader.object('rate_limiting');
+
+    return {
+        id: reader.string('id'),
+        access_key: {
+            id: access_key.string('id'),
+            key: access_key.string('key'),
+            created: access_key.date('created'),
+        },
+        created: reader.date('created'),
+        rate_limiting: {
+            credentials_created: rate_limiting.number('credentials_created'),
+            credentials_updated: rate_limiting.number('credentials_updated'),
+            sessions_created: rate_limiting.number('sessions_created'),
+        },
+    };
+}
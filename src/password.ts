@@ -0,0 +1,199 @@
+import { COMMON_PASSWORDS } from './common-passwords.js';
+
+/**
+ * Rules checked before a password is sent to MagicAuth
+ */
+export interface PasswordPolicy {
+    /** Minimum length in characters (default: 8) */
+    min_length?: number;
+    /** Maximum length in characters (default: 128) */
+    max_length?: number;
+    /** Require a lower-case letter (default: false) */
+    require_lowercase?: boolean;
+    /** Require an upper-case letter (default: false) */
+    require_uppercase?: boolean;
+    /** Require a digit (default: false) */
+    require_digit?: boolean;
+    /** Require a character that is neither a letter nor a digit (default: false) */
+    require_symbol?: boolean;
+    /** Reject passwords from the bundled common-passwords list (default: true) */
+    reject_common?: boolean;
+    /**
+     * Directory of breached password hashes in the Pwned Passwords range format: one file per
+     * 5-character SHA-1 prefix (`<PREFIX>` or `<PREFIX>.txt`) holding `SUFFIX:COUNT` lines.
+     * Only the file for the password's prefix is read. Needs `node:fs` (Node.js, Deno, Bun).
+     * (default: not checked)
+     */
+    breached_hashes?: string;
+}
+
+export type PasswordRule =
+    | 'min_length'
+    | 'max_length'
+    | 'lowercase'
+    | 'uppercase'
+    | 'digit'
+    | 'symbol'
+    | 'common'
+    | 'breached'
+    | 'reused';
+
+export interface PasswordViolation {
+    rule: PasswordRule;
+    message: string;
+}
+
+export interface PasswordCheckResult {
+    valid: boolean;
+    /** Every rule the password breaks */
+    violations: PasswordViolation[];
+    /** Rough strength from 0 (very weak) to 4 (strong) for UI feedback */
+    strength: number;
+}
+
+export interface CheckPasswordOptions {
+    /** Current password, which the new one must differ from */
+    current_password?: string;
+}
+
+/**
+ * Policy applied by `checkPassword` when none is given
+ */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+    min_length: 8,
+    max_length: 128,
+    reject_common: true,
+};
+
+const CHARACTER_CLASSES: [PasswordRule, keyof PasswordPolicy, RegExp, string][] = [
+    ['lowercase', 'require_lowercase', /\p{Ll}/u, 'a lower-case letter'],
+    ['uppercase', 'require_uppercase', /\p{Lu}/u, 'an upper-case letter'],
+    ['digit', 'require_digit', /\p{Nd}/u, 'a digit'],
+    ['symbol', 'require_symbol', /[^\p{L}\p{Nd}]/u, 'a symbol'],
+];
+
+/**
+ * Upper-case hex SHA-1 of a password, as used by Pwned Passwords
+ */
+async function sha1(password: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(password));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0'))
+        .join('')
+        .toUpperCase();
+}
+
+// Held in variables so bundlers for browsers and workers leave the Node.js modules alone; they
+// are only loaded when `breached_hashes` is set
+const FS_MODULE = 'node:fs/promises';
+const PATH_MODULE = 'node:path';
+
+/**
+ * Look a password up in a local Pwned Passwords range directory
+ * A missing range file means no breached password shares the prefix.
+ */
+async function is_breached(password: string, directory: string): Promise<boolean> {
+    const { readFile }: typeof import('node:fs/promises') = await import(FS_MODULE);
+    const { join }: typeof import('node:path') = await import(PATH_MODULE);
+    const hash = await sha1(password);
+    const prefix = hash.slice(0, 5);
+    const suffix = hash.slice(5);
+
+    for (const name of [prefix, `${prefix}.txt`]) {
+        let text: string;
+        try {
+            text = await readFile(join(directory, name), 'utf8');
+        } catch (error) {
+            if ((error as { code?: string }).code === 'ENOENT') {
+                continue;
+            }
+            throw error;
+        }
+        return text.split(/\r?\n/).some((line) => {
+            const [entry, count] = line.trim().split(':');
+            return entry.toUpperCase() === suffix && count !== '0';
+        });
+    }
+    return false;
+}
+
+/**
+ * Rough 0-4 strength: length and character variety, zero for known passwords
+ */
+function strength(password: string, length: number, known: boolean): number {
+    if (known || length < 8) {
+        return 0;
+    }
+    const classes = CHARACTER_CLASSES.filter(([, , pattern]) => pattern.test(password)).length;
+    let score = 1;
+    if (length >= 12) {
+        score += 1;
+    }
+    if (length >= 16) {
+        score += 1;
+    }
+    if (classes >= 3) {
+        score += 1;
+    }
+    return Math.min(score, 4);
+}
+
+/**
+ * Check a password against a policy
+ * Runs every rule so a form can list all problems at once.
+ * @param password - Candidate password
+ * @param policy - Rules to apply (default: `DEFAULT_PASSWORD_POLICY`)
+ * @param options - Current password for change-password forms
+ * @returns Violations and a strength estimate
+ */
+export async function checkPassword(
+    password: string,
+    policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+    options: CheckPasswordOptions = {}
+): Promise<PasswordCheckResult> {
+    const violations: PasswordViolation[] = [];
+    // Count code points so emoji and other astral characters are one character each
+    const length = [...password].length;
+    const min_length = policy.min_length ?? 8;
+    const max_length = policy.max_length ?? 128;
+
+    if (length < min_length) {
+        violations.push({
+            rule: 'min_length',
+            message: `Password must be at least ${min_length} characters`,
+        });
+    }
+    if (length > max_length) {
+        violations.push({
+            rule: 'max_length',
+            message: `Password must be at most ${max_length} characters`,
+        });
+    }
+    for (const [rule, option, pattern, description] of CHARACTER_CLASSES) {
+        if (policy[option] && !pattern.test(password)) {
+            violations.push({ rule, message: `Password must contain ${description}` });
+        }
+    }
+
+    const common = COMMON_PASSWORDS.has(password.toLowerCase());
+    if ((policy.reject_common ?? true) && common) {
+        violations.push({ rule: 'common', message: 'Password is too common' });
+    }
+    const breached =
+        policy.breached_hashes !== undefined &&
+        (await is_breached(password, policy.breached_hashes));
+    if (breached) {
+        violations.push({
+            rule: 'breached',
+            message: 'Password has appeared in a data breach',
+        });
+    }
+    if (options.current_password !== undefined && password === options.current_password) {
+        violations.push({ rule: 'reused', message: 'Password must differ from the current one' });
+    }
+
+    return {
+        valid: violations.length === 0,
+        violations,
+        strength: strength(password, length, common || breached),
+    };
+}
@@ -0,0 +1,228 @@
+import { NetworkError, QuotaExceededError } from './errors.js';
+import { retry_after, sleep } from './http.js';
+
+/**
+ * Operations covered by a collection's `rate_limiting`
+ */
+export type RateLimitedOperation =
+    'credentials_created' | 'credentials_updated' | 'sessions_created';
+
+/**
+ * Client-side rate limiting settings
+ */
+export interface RateLimitOptions {
+    /**
+     * Calls allowed per interval for each operation, eg. the `rate_limiting` of
+     * `Collection.create`; operations without a limit are only tracked from response headers
+     */
+    limits: Partial<Record<RateLimitedOperation, number>>;
+    /** Window the limits apply to, in milliseconds (default: 60000) */
+    interval?: number;
+    /** "reject" (default) throws QuotaExceededError at once, "queue" waits for capacity */
+    on_limit?: 'reject' | 'queue';
+    /** Longest a queued call waits before it is rejected, in milliseconds (default: interval) */
+    max_wait?: number;
+}
+
+/**
+ * Current state of one operation's quota
+ */
+export interface RateLimitUsage {
+    limit: number;
+    /** Calls that can be made right now */
+    remaining: number;
+    /** When the full quota is available again */
+    reset: Date;
+}
+
+const DEFAULT_INTERVAL = 60_000;
+
+/**
+ * First number of a header value ("100" or "100;w=60")
+ */
+function header_number(response: Response, names: string[]): number | undefined {
+    for (const name of names) {
+        const value = parseFloat(response.headers.get(name) ?? '');
+        if (!Number.isNaN(value)) {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Milliseconds until the server's quota resets
+ * `RateLimit-Reset` is delta seconds; `X-RateLimit-Reset` is delta seconds or epoch seconds
+ */
+function reset_delay(response: Response): number | undefined {
+    const reset = header_number(response, ['RateLimit-Reset', 'X-RateLimit-Reset']);
+    if (reset === undefined) {
+        return undefined;
+    }
+    // Anything past 2001-09-09 in epoch seconds is an absolute time
+    return Math.max(0, reset > 1e9 ? reset * 1000 - Date.now() : reset * 1000);
+}
+
+/**
+ * Token bucket refilled continuously at `limit` tokens per `interval`
+ * Tokens go negative while calls are queued, so later calls wait behind earlier ones
+ */
+class TokenBucket {
+    limit: number;
+    private interval: number;
+    private tokens: number;
+    private updated: number;
+    private blocked_until = 0;
+
+    constructor(limit: number, interval: number) {
+        this.limit = limit;
+        this.interval = interval;
+        this.tokens = limit;
+        this.updated = Date.now();
+    }
+
+    private refill(now: number): void {
+        const rate = this.limit / this.interval;
+        this.tokens = Math.min(this.limit, this.tokens + (now - this.updated) * rate);
+        this.updated = now;
+    }
+
+    /**
+     * Milliseconds until the next call fits (0 when it fits now)
+     */
+    delay(now: number): number {
+        this.refill(now);
+        const shortage = 1 - this.tokens;
+        const refill_delay = shortage > 0 ? (shortage * this.interval) / this.limit : 0;
+        return Math.max(refill_delay, this.blocked_until - now, 0);
+    }
+
+    take(): void {
+        this.tokens -= 1;
+    }
+
+    give_back(): void {
+        this.tokens = Math.min(this.limit, this.tokens + 1);
+    }
+
+    usage(now: number): RateLimitUsage {
+        this.refill(now);
+        const refill_time = now + ((this.limit - this.tokens) * this.interval) / this.limit;
+        return {
+            limit: this.limit,
+            remaining: now < this.blocked_until ? 0 : Math.max(0, Math.floor(this.tokens)),
+            reset: new Date(Math.max(refill_time, this.blocked_until)),
+        };
+    }
+
+    /**
+     * Align with the server's view: never allow more than it reports remaining, and hold calls
+     * until its reset when it reports none
+     */
+    sync(now: number, limit?: number, remaining?: number, reset?: number): void {
+        this.refill(now);
+        if (limit !== undefined && limit > 0) {
+            this.limit = limit;
+        }
+        if (remaining !== undefined) {
+            this.tokens = Math.min(this.tokens, remaining);
+            if (remaining <= 0 && reset !== undefined) {
+                this.blocked_until = Math.max(this.blocked_until, now + reset);
+            }
+        }
+    }
+}
+
+/**
+ * Per-operation token buckets for a Collection
+ */
+export class RateLimiter {
+    private buckets = new Map<RateLimitedOperation, TokenBucket>();
+    private interval: number;
+    private on_limit: 'reject' | 'queue';
+    private max_wait: number;
+
+    /**
+     * @param options - Limits, window and behaviour when a limit is reached
+     */
+    constructor(options: RateLimitOptions) {
+        this.interval = options.interval ?? DEFAULT_INTERVAL;
+        this.on_limit = options.on_limit ?? 'reject';
+        this.max_wait = options.max_wait ?? this.interval;
+        for (const [operation, limit] of Object.entries(options.limits)) {
+            if (limit !== undefined && limit > 0) {
+                this.buckets.set(
+                    operation as RateLimitedOperation,
+                    new TokenBucket(limit, this.interval)
+                );
+            }
+        }
+    }
+
+    /**
+     * Take capacity for one call, waiting for it in "queue" mode
+     * @param operation - Operation about to be called
+     * @param signal - Aborts a queued wait
+     * @throws {QuotaExceededError} If the limit is reached (and the wait would exceed max_wait)
+     * @throws {NetworkError} If the signal aborts while queued
+     */
+    async acquire(operation: RateLimitedOperation, signal?: AbortSignal): Promise<void> {
+        const bucket = this.buckets.get(operation);
+        if (!bucket) {
+            return;
+        }
+        const delay = bucket.delay(Date.now());
+        if (delay > 0 && (this.on_limit === 'reject' || delay > this.max_wait)) {
+            throw new QuotaExceededError(operation, delay);
+        }
+        bucket.take();
+        if (delay > 0) {
+            try {
+                await sleep(delay, signal);
+            } catch (error) {
+                bucket.give_back();
+                throw new NetworkError(error, 'Request aborted');
+            }
+        }
+    }
+
+    /**
+     * Update an operation's bucket from rate-limit headers (`RateLimit-*`, `X-RateLimit-*`) and
+     * 429 `Retry-After` of an API response
+     */
+    update(operation: RateLimitedOperation, response: Response): void {
+        const now = Date.now();
+        const limit = header_number(response, ['RateLimit-Limit', 'X-RateLimit-Limit']);
+        let remaining = header_number(response, ['RateLimit-Remaining', 'X-RateLimit-Remaining']);
+        let reset = reset_delay(response);
+        if (response.status === 429) {
+            remaining = 0;
+            reset = retry_after(response) ?? reset;
+        }
+        if (limit === undefined && remaining === undefined) {
+            return;
+        }
+
+        let bucket = this.buckets.get(operation);
+        if (!bucket) {
+            if (limit === undefined) {
+                return;
+            }
+            bucket = new TokenBucket(limit, this.interval);
+            this.buckets.set(operation, bucket);
+        }
+        bucket.sync(now, limit, remaining, reset);
+    }
+
+    /**
+     * Current quota of every tracked operation
+     */
+    usage(): Partial<Record<RateLimitedOperation, RateLimitUsage>> {
+        const now = Date.now();
+        const usage: Partial<Record<RateLimitedOperation, RateLimitUsage>> = {};
+        for (const [operation, bucket] of this.buckets) {
+            usage[operation] = bucket.usage(now);
+        }
+        return usage;
+    }
+}
@@ -0,0 +1,154 @@
+import { network_cidr, parse_ip } from './ip.js';
+import { log as default_log, type LogLevel, type SdkLogger } from './log.js';
+
+export const REDACTED = '[redacted]';
+
+/**
+ * Key Node.js' `util.inspect` (and so `console.log`) looks up for custom output
+ */
+export const INSPECT = Symbol.for('nodejs.util.inspect.custom');
+
+// Fields holding credentials or bearer tokens, matched case-insensitively
+const SECRET_FIELDS = new Set([
+    'password',
+    'current_password',
+    'access_key',
+    'authorization',
+    'session_id',
+    'token',
+]);
+
+const SECRET_PATTERNS: [RegExp, string][] = [
+    [/(Authentic\s+)\S+/g, `$1${REDACTED}`],
+    [/(\/sessions\/)[^/?#\s]+/g, `$1${REDACTED}`],
+];
+
+const LEVELS: LogLevel[] = ['trace', 'debug', 'info', 'normal', 'warn', 'error', 'fatal'];
+
+const MAX_DEPTH = 8;
+
+/**
+ * Network of an IP address for logs: the /24 (IPv4) or /48 (IPv6) it is in
+ */
+export function mask_ip(value: string): string {
+    const address = parse_ip(value);
+    if (!address) {
+        return REDACTED;
+    }
+    return network_cidr(address, address.kind() === 'ipv4' ? 24 : 48);
+}
+
+function redact_string(value: string): string {
+    return SECRET_PATTERNS.reduce(
+        (result, [pattern, replacement]) => result.replace(pattern, replacement),
+        value
+    );
+}
+
+function redact_fields(value: object, depth: number): Record<string, unknown> {
+    const session = 'credential' in value;
+    return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => {
+            if (SECRET_FIELDS.has(key.toLowerCase()) || (session && key === 'id')) {
+                return [key, REDACTED];
+            }
+            if (key === 'ip_address' && typeof entry === 'string') {
+                return [key, mask_ip(entry)];
+            }
+            return [key, redact(entry, depth + 1)];
+        })
+    );
+}
+
+/**
+ * Copy of an error with the same prototype, so loggers still print its name and stack
+ * The message, stack, own fields (eg. `response`) and `cause` chain are redacted.
+ */
+function redact_error(error: Error, depth: number): Error {
+    const copy = Object.assign(
+        Object.create(Object.getPrototypeOf(error)) as Error,
+        redact_fields(error, depth)
+    );
+    const hidden = { writable: true, configurable: true, enumerable: false };
+    Object.defineProperty(copy, 'message', { ...hidden, value: redact_string(error.message) });
+    if (error.stack !== undefined) {
+        Object.defineProperty(copy, 'stack', { ...hidden, value: redact_string(error.stack) });
+    }
+    // `new Error(message, { cause })` keeps the cause out of the enumerable fields
+    if ('cause' in error && !Object.prototype.propertyIsEnumerable.call(error, 'cause')) {
+        Object.defineProperty(copy, 'cause', { ...hidden, value: redact(error.cause, depth + 1) });
+    }
+    return copy;
+}
+
+/**
+ * Copy of a value that is safe to log
+ * Masks secret fields, session IDs (the `id` of anything with a `credential`), access keys in
+ * Authorization headers and session URLs, and reduces IP addresses to their network. Other
+ * objects are copied with their own enumerable fields, errors along with their message, stack
+ * and cause; dates are returned as they are.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+    if (typeof value === 'string') {
+        return redact_string(value);
+    }
+    if (Array.isArray(value)) {
+        return depth > MAX_DEPTH ? REDACTED : value.map((entry) => redact(entry, depth + 1));
+    }
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+        return value;
+    }
+    if (depth > MAX_DEPTH) {
+        return REDACTED;
+    }
+    return value instanceof Error ? redact_error(value, depth) : redact_fields(value, depth);
+}
+
+/**
+ * Logger wrapper that redacts every argument and drops messages below `level`
+ */
+export class RedactedLogger implements SdkLogger {
+    private logger: SdkLogger;
+    private threshold: number;
+
+    /**
+     * @param logger - Logger receiving the redacted messages
+     * @param level - Lowest level passed on (default: everything, leaving it to `logger`)
+     */
+    constructor(logger: SdkLogger, level: LogLevel = 'trace') {
+        this.logger = logger;
+        this.threshold = LEVELS.indexOf(level);
+    }
+
+    debug(message: string, ...args: unknown[]): void {
+        this.write('debug', message, args);
+    }
+
+    info(message: string, ...args: unknown[]): void {
+        this.write('info', message, args);
+    }
+
+    warn(message: string, ...args: unknown[]): void {
+        this.write('warn', message, args);
+    }
+
+    error(message: string, ...args: unknown[]): void {
+        this.write('error', message, args);
+    }
+
+    private write(
+        level: 'debug' | 'info' | 'warn' | 'error',
+        message: string,
+        args: unknown[]
+    ): void {
+        if (LEVELS.indexOf(level) < this.threshold) {
+            return;
+        }
+        this.logger[level](redact_string(message), ...args.map((arg) => redact(arg)));
+    }
+}
+
+/**
+ * Redacted SDK logger used where no Collection logger is available (eg. `compare`)
+ */
+export const log = new RedactedLogger(default_log);
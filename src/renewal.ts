@@ -0,0 +1,52 @@
+import type { Session } from './models.js';
+
+/**
+ * When `shouldRenew` considers a session due for renewal
+ */
+export interface RenewalPolicy {
+    /** Renew once less than this fraction of the session's lifetime is left (default: 0.5) */
+    threshold?: number;
+    /**
+     * Session lifetime in milliseconds `threshold` applies to (default: `expires - created`,
+     * which grows with every renewal, so set it when sessions are renewed repeatedly)
+     */
+    lifetime?: number;
+    /** Renew once less than this many milliseconds are left; takes precedence over `threshold` */
+    remaining?: number;
+    /** Current time in milliseconds (default: `Date.now()`) */
+    now?: number;
+}
+
+const DEFAULT_THRESHOLD = 0.5;
+
+/**
+ * Decide whether a validated session should be renewed
+ * Sessions without an `expires` time, sessions that already expired and sessions whose lifetime
+ * is unknown (no `created`, `lifetime` or `remaining`) are never due.
+ * @param session - Session returned by `validate` (or `session`)
+ * @param policy - Remaining-lifetime threshold
+ * @returns true if `renew_session` should be called now
+ */
+export function shouldRenew(
+    session: Pick<Session, 'created' | 'expires'>,
+    policy: RenewalPolicy = {}
+): boolean {
+    if (!session.expires) {
+        return false;
+    }
+    const now = policy.now ?? Date.now();
+    const left = session.expires.getTime() - now;
+    if (left <= 0) {
+        return false;
+    }
+    if (policy.remaining !== undefined) {
+        return left < policy.remaining;
+    }
+    const lifetime =
+        policy.lifetime ??
+        (session.created ? session.expires.getTime() - session.created.getTime() : undefined);
+    if (lifetime === undefined) {
+        return false;
+    }
+    return left < lifetime * (policy.threshold ?? DEFAULT_THRESHOLD);
+}
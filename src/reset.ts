@@ -0,0 +1,120 @@
+import type { SessionCacheStore } from './cache.js';
+import { InvalidTokenError } from './errors.js';
+import { base64url_decode, base64url_encode, hmac_sha256, timing_safe_equal } from './signing.js';
+
+/**
+ * Password reset settings of a Collection
+ */
+export interface PasswordResetOptions {
+    /** HMAC key for reset tokens, at least 32 characters; keep it out of source control */
+    secret: string;
+    /** Milliseconds a token is valid (default: 1 hour) */
+    ttl?: number;
+    /**
+     * Called when `reset_password` replaces a credential, before the old one is deleted: store
+     * `credential_id` wherever `previous_id` was stored (eg. the users table). If the reset is
+     * rolled back afterwards, it is called again with the IDs swapped. A throw rolls it back.
+     */
+    on_credential_replaced(previous_id: string, credential_id: string): void | Promise<void>;
+    /**
+     * Where used tokens are remembered until they expire (default: in memory, 10000 entries);
+     * share one between processes so a token cannot be used once per process
+     */
+    store?: SessionCacheStore;
+}
+
+/**
+ * Contents of a reset token
+ */
+export interface ResetTokenPayload {
+    credential_id: string;
+    /** Expiry in milliseconds since the epoch */
+    expires: number;
+    /** Random value making every token unique */
+    nonce: string;
+}
+
+export const DEFAULT_RESET_TTL = 60 * 60 * 1000;
+
+// Signed together with the payload so a token of another kind signed with the same secret can
+// never pass as a reset token
+const PURPOSE = 'magicauth-password-reset';
+
+/**
+ * Check the reset secret is long enough to resist guessing and credential replacements are
+ * handled
+ * @throws {TypeError} If the secret is shorter than 32 characters or the callback is missing
+ */
+export function check_reset_options(options: PasswordResetOptions): void {
+    if (typeof options.secret !== 'string' || options.secret.length < 32) {
+        throw new TypeError('password_reset.secret must be at least 32 characters');
+    }
+    if (typeof options.on_credential_replaced !== 'function') {
+        throw new TypeError('password_reset needs an on_credential_replaced callback');
+    }
+}
+
+/**
+ * Store key marking a reset token as used
+ */
+export function used_reset_key(payload: ResetTokenPayload): string {
+    return `reset_used:${payload.nonce}`;
+}
+
+/**
+ * Create a signed reset token: base64url JSON payload, ".", base64url HMAC-SHA256
+ * @param secret - Signing key
+ * @param credential_id - Credential the token resets
+ * @param ttl - Milliseconds the token is valid
+ */
+export async function sign_reset_token(
+    secret: string,
+    credential_id: string,
+    ttl: number
+): Promise<string> {
+    const payload: ResetTokenPayload = {
+        credential_id,
+        expires: Date.now() + ttl,
+        nonce: base64url_encode(crypto.getRandomValues(new Uint8Array(16))),
+    };
+    const encoded = base64url_encode(new TextEncoder().encode(JSON.stringify(payload)));
+    return `${encoded}.${await hmac_sha256(secret, `${PURPOSE}.${encoded}`)}`;
+}
+
+/**
+ * Verify a reset token's signature and expiry
+ * Needs no lookup; whether the token was used is up to the caller.
+ * @param secret - Signing key
+ * @param token - Token from `sign_reset_token`
+ * @returns The token's payload
+ * @throws {InvalidTokenError} If the token is malformed, forged or expired
+ */
+export async function read_reset_token(secret: string, token: string): Promise<ResetTokenPayload> {
+    const [encoded, signature, ...rest] = String(token).trim().split('.');
+    if (!encoded || !signature || rest.length > 0) {
+        throw new InvalidTokenError('malformed');
+    }
+    const expected = await hmac_sha256(secret, `${PURPOSE}.${encoded}`);
+    if (!timing_safe_equal(expected, signature)) {
+        throw new InvalidTokenError('signature');
+    }
+
+    const bytes = base64url_decode(encoded);
+    let payload: Partial<ResetTokenPayload> | null = null;
+    try {
+        payload = bytes ? JSON.parse(new TextDecoder().decode(bytes)) : null;
+    } catch {
+        // Reported as malformed below
+    }
+    if (
+        typeof payload?.credential_id !== 'string' ||
+        typeof payload.expires !== 'number' ||
+        typeof payload.nonce !== 'string'
+    ) {
+        throw new InvalidTokenError('malformed');
+    }
+    if (payload.expires <= Date.now()) {
+        throw new InvalidTokenError('expired');
+    }
+    return payload as ResetTokenPayload;
+}
@@ -0,0 +1,157 @@
+import type { SessionCacheStore } from './cache.js';
+import {
+    compare,
+    type IPMatchResult,
+    type IPPolicy,
+    type UserAgentMatchResult,
+    type UserAgentPolicy,
+} from './compare.js';
+import type { Session } from './models.js';
+
+export type RiskDecision = 'allow' | 'reauthenticate' | 'deny';
+
+/**
+ * Why a request is not simply allowed
+ * - `ip_address_changed`: the request IP address does not match the session's (`RiskPolicy.ip`)
+ * - `ip_address_denied`: the request IP address is on the `RiskPolicy.ip` deny list
+ * - `user_agent_changed`: the request User Agent does not match the session's
+ * - `session_age`: the session is older than `RiskPolicy.max_age`
+ * - `stale_authentication`: the last password check is older than `RiskPolicy.fresh_for`
+ */
+export type RiskReason =
+    | 'ip_address_changed'
+    | 'ip_address_denied'
+    | 'user_agent_changed'
+    | 'session_age'
+    | 'stale_authentication';
+
+/**
+ * Rules for `evaluateRisk`
+ * Every rule that fails adds a reason; reasons listed in `deny` deny the request, any other
+ * reason requires re-authentication.
+ */
+export interface RiskPolicy {
+    /** IP rules passed to `compare.ipAddressMatch` (default: exact match, no private bypass) */
+    ip?: IPPolicy;
+    /** User Agent rules passed to `compare.userAgentMatch` (default: cpu, os and browser) */
+    user_agent?: UserAgentPolicy;
+    /** Milliseconds since the session was created before re-authentication is required */
+    max_age?: number;
+    /**
+     * Milliseconds since the last password check (sign in or `reauthenticate`) before
+     * re-authentication is required; set it for sensitive actions
+     */
+    fresh_for?: number;
+    /** Reasons that deny the request outright (default: `['ip_address_denied']`) */
+    deny?: RiskReason[];
+}
+
+/**
+ * Request being evaluated
+ */
+export interface RiskContext {
+    ip_address: string;
+    user_agent: string;
+    /** Last password check for the session (default: the session's `created`) */
+    authenticated_at?: Date;
+    /** Current time in milliseconds (default: `Date.now()`) */
+    now?: number;
+}
+
+/**
+ * Outcome of `evaluateRisk`
+ */
+export interface RiskAssessment {
+    decision: RiskDecision;
+    reasons: RiskReason[];
+    /** IP comparison, when the session's IP address is known */
+    ip_address?: IPMatchResult;
+    /** User Agent comparison, when the session's User Agent is known */
+    user_agent?: UserAgentMatchResult;
+    /** Milliseconds since the session was created, when known */
+    age?: number;
+    /** Milliseconds since the last password check, when known */
+    authenticated?: number;
+}
+
+/**
+ * Settings of `Collection.reauthenticate`
+ */
+export interface ReauthenticationOptions {
+    /** Milliseconds a re-authentication is remembered, capping `fresh_for` (default: 1 hour) */
+    ttl?: number;
+    /** Backend for re-authentication times (default: an in-memory LRU store) */
+    store?: SessionCacheStore;
+    /** Entries kept by the default in-memory store (default: 10000) */
+    max_entries?: number;
+}
+
+const DEFAULT_DENY: RiskReason[] = ['ip_address_denied'];
+
+/**
+ * Classify a validated session used from a request as allow / re-authenticate / deny
+ * Compares the request's IP address and User Agent with the ones the session is bound to, and
+ * checks the session's age and how recently its password was checked. This runs on top of
+ * `validate`, which already rejects contexts the MagicAuth API considers a mismatch.
+ * @param session - Session returned by `validate`
+ * @param context - Request IP address and User Agent, last authentication time
+ * @param policy - Comparison rules, age limits and which reasons deny
+ * @returns Decision, the reasons for it and the comparisons it is based on
+ * @throws {TypeError} If the IP policy is invalid
+ */
+export function evaluateRisk(
+    session: Pick<Session, 'created' | 'ip_address' | 'user_agent'>,
+    context: RiskContext,
+    policy: RiskPolicy = {}
+): RiskAssessment {
+    const now = context.now ?? Date.now();
+    const assessment: RiskAssessment = { decision: 'allow', reasons: [] };
+
+    if (session.ip_address !== undefined) {
+        assessment.ip_address = compare.ipAddressMatch(
+            context.ip_address,
+            session.ip_address,
+            policy.ip ?? {}
+        );
+        if (assessment.ip_address.reason === 'denied') {
+            assessment.reasons.push('ip_address_denied');
+        } else if (!assessment.ip_address.match) {
+            assessment.reasons.push('ip_address_changed');
+        }
+    }
+    if (session.user_agent !== undefined) {
+        assessment.user_agent = compare.userAgentMatch(
+            context.user_agent,
+            session.user_agent,
+            policy.user_agent
+        );
+        if (!assessment.user_agent.match) {
+            assessment.reasons.push('user_agent_changed');
+        }
+    }
+
+    if (session.created) {
+        assessment.age = now - session.created.getTime();
+        if (policy.max_age !== undefined && assessment.age > policy.max_age) {
+            assessment.reasons.push('session_age');
+        }
+    }
+    const authenticated_at = context.authenticated_at ?? session.created;
+    if (authenticated_at) {
+        assessment.authenticated = now - authenticated_at.getTime();
+    }
+    if (
+        policy.fresh_for !== undefined &&
+        (assessment.authenticated === undefined || assessment.authenticated > policy.fresh_for)
+    ) {
+        assessment.reasons.push('stale_authentication');
+    }
+
+    const deny = policy.deny ?? DEFAULT_DENY;
+    if (assessment.reasons.some((reason) => deny.includes(reason))) {
+        assessment.decision = 'deny';
+    } else if (assessment.reasons.length > 0) {
+        assessment.decision = 'reauthenticate';
+    }
+    return assessment;
+}
@@ -0,0 +1,63 @@
+/**
+ * Encode bytes as unpadded base64url
+ */
+export function base64url_encode(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode unpadded base64url
+ * @returns The bytes, or null if the value is not base64url
+ */
+export function base64url_decode(value: string): Uint8Array | null {
+    if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+        return null;
+    }
+    try {
+        const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+        return Uint8Array.from(binary, (character) => character.charCodeAt(0));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * HMAC-SHA256 of a message, base64url encoded
+ * @param secret - Signing key
+ * @param message - Signed text
+ */
+export async function hmac_sha256(secret: string, message: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+    return base64url_encode(new Uint8Array(signature));
+}
+
+/**
+ * SHA-256 of a message, base64url encoded
+ */
+export async function sha256(message: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(message));
+    return base64url_encode(new Uint8Array(digest));
+}
+
+/**
+ * Compare without returning early, so response times do not reveal matching prefixes
+ */
+export function timing_safe_equal(a: string, b: string): boolean {
+    let difference = a.length ^ b.length;
+    for (let i = 0; i < a.length; i++) {
+        difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return difference === 0;
+}
@@ -0,0 +1,656 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Buffer } from 'node:buffer';
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { Collection, type CollectionOptions } from './collection.js';
+import { compare, type IPPolicy, type UserAgentPolicy } from './compare.js';
+import type { ApiResponse } from './errors.js';
+
+/**
+ * Clock the mock server reads instead of `Date.now()`
+ * Starts at the given time and only moves when told to, so expiry tests are deterministic
+ */
+export class MockClock {
+    private time: number;
+
+    /**
+     * @param time - Starting time (default: now)
+     */
+    constructor(time: Date | number = Date.now()) {
+        this.time = new Date(time).getTime();
+    }
+
+    /**
+     * Current time in milliseconds since the epoch
+     */
+    now(): number {
+        return this.time;
+    }
+
+    /**
+     * Move the clock forward
+     * @param ms - Milliseconds to advance
+     */
+    advance(ms: number): void {
+        this.time += ms;
+    }
+
+    /**
+     * Jump to a point in time
+     */
+    set(time: Date | number): void {
+        this.time = new Date(time).getTime();
+    }
+}
+
+/**
+ * Mock server settings
+ */
+export interface MockServerOptions {
+    /** Clock for timestamps and expiry (default: a new MockClock at the current time) */
+    clock?: MockClock;
+    /** Session lifetime in milliseconds (default: 24 hours) */
+    session_ttl?: number;
+    /** IP binding rules passed to `compare.ipAddresses` (default: exact match) */
+    ip_policy?: IPPolicy;
+    /** User Agent binding rules passed to `compare.userAgents` */
+    user_agent_policy?: UserAgentPolicy;
+    /** Limits reported by `POST /collections` (not enforced; use a fault for 429s) */
+    rate_limiting?: {
+        credentials_created: number;
+        credentials_updated: number;
+        sessions_created: number;
+    };
+    /** Port to listen on (default: a free port) */
+    port?: number;
+}
+
+/**
+ * Failure injected into matching requests
+ */
+export interface MockFault {
+    /** Only requests with this method (default: any) */
+    method?: string;
+    /** Only paths starting with this string or matching this pattern (default: any) */
+    path?: string | RegExp;
+    /** Delay before answering in milliseconds (real time, not the mock clock) */
+    latency?: number;
+    /** Answer with this error status instead of handling the request (eg. 503 or 429) */
+    status?: number;
+    /** Retry-After header in seconds, sent with `status` */
+    retry_after?: number;
+    /** Number of requests the fault applies to (default: unlimited) */
+    times?: number;
+}
+
+/**
+ * Request received by the mock server
+ */
+export interface MockRequest {
+    method: string;
+    path: string;
+    query: Record<string, string>;
+    headers: IncomingMessage['headers'];
+    body?: unknown;
+}
+
+type CollectionRecord = {
+    id: string;
+    access_key: { id: string; key: string; created: number };
+    created: number;
+};
+
+type CredentialRecord = {
+    id: string;
+    collection_id: string;
+    salt: Buffer;
+    hash: Buffer;
+    created: number;
+    last_used: number | null;
+    disabled: boolean;
+};
+
+type SessionRecord = {
+    id: string;
+    credential_id: string;
+    created: number;
+    expires: number;
+    ip_address: string;
+    user_agent: string;
+};
+
+const DEFAULT_SESSION_TTL = 24 * 60 * 60 * 1000;
+const DEFAULT_RATE_LIMITING = {
+    credentials_created: 100,
+    credentials_updated: 100,
+    sessions_created: 1000,
+};
+
+// Cheap scrypt parameters: the mock holds test passwords, not real ones
+const SCRYPT_OPTIONS = { N: 1024, r: 8, p: 1 };
+
+const STATUS_TEXT: Record<number, string> = {
+    400: 'Bad Request',
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not Found',
+    405: 'Method Not Allowed',
+    429: 'Too Many Requests',
+    500: 'Internal Server Error',
+    502: 'Bad Gateway',
+    503: 'Service Unavailable',
+    504: 'Gateway Timeout',
+};
+
+/**
+ * Error answered with the API's `{ status, error, message }` shape
+ */
+class MockApiError extends Error {
+    status: number;
+    details: Record<string, unknown>;
+
+    constructor(status: number, message: string, details: Record<string, unknown> = {}) {
+        super(message);
+        this.status = status;
+        this.details = details;
+    }
+
+    get response(): ApiResponse {
+        return {
+            status: this.status,
+            error: STATUS_TEXT[this.status] ?? 'Error',
+            message: this.message,
+            ...this.details,
+        };
+    }
+}
+
+/**
+ * Random base64url ID that never starts with "-", so it cannot be mistaken for a CLI option
+ */
+function random_id(bytes = 32): string {
+    const id = randomBytes(bytes).toString('base64').replace(/\+/g, '-').replace(/\//g, '_');
+    return id.startsWith('-') ? random_id(bytes) : id;
+}
+
+function hash_password(password: string, salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(password, salt, 32, SCRYPT_OPTIONS, (error, key) =>
+            error ? reject(error) : resolve(key)
+        );
+    });
+}
+
+function iso(time: number | null): string | null {
+    return time === null ? null : new Date(time).toISOString();
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function read_body(request: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+        chunks.push(chunk as Buffer);
+    }
+    const text = chunks.map((chunk) => chunk.toString('utf8')).join('');
+    if (!text) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new MockApiError(400, 'Request body is not valid JSON');
+    }
+}
+
+/**
+ * Read a required string field from a request body or query
+ */
+function field(data: Record<string, unknown>, name: string): string {
+    const value = data[name];
+    if (typeof value !== 'string') {
+        throw new MockApiError(400, `Missing required field: ${name}`, { field: name });
+    }
+    return value;
+}
+
+/**
+ * In-process stand-in for the MagicAuth API
+ * Keeps collections, credentials and sessions in memory, hashes passwords, expires sessions by
+ * its controllable clock and binds them to IP address and User Agent with `compare`. Errors use
+ * the API's `{ status, error, message }` shape so the SDK raises the same error classes.
+ *
+ *     const server = await MockMagicAuthServer.start();
+ *     const magicauth = server.collection();
+ *     ...
+ *     await server.close();
+ */
+export class MockMagicAuthServer {
+    clock: MockClock;
+    options: MockServerOptions;
+    /** Requests received so far, oldest first */
+    requests: MockRequest[] = [];
+
+    private server: Server;
+    private faults: MockFault[] = [];
+    private collections = new Map<string, CollectionRecord>();
+    private credentials = new Map<string, CredentialRecord>();
+    private sessions = new Map<string, SessionRecord>();
+
+    /**
+     * Start a mock server on 127.0.0.1
+     * @param options - Clock, session lifetime, binding policies and port
+     */
+    static async start(options: MockServerOptions = {}): Promise<MockMagicAuthServer> {
+        const server = new MockMagicAuthServer(options);
+        await new Promise<void>((resolve, reject) => {
+            server.server.once('error', reject);
+            server.server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+        });
+        return server;
+    }
+
+    private constructor(options: MockServerOptions) {
+        this.options = options;
+        this.clock = options.clock ?? new MockClock();
+        this.server = createServer((request, response) => {
+            this.handle(request, response).catch((error) => {
+                this.send(response, 500, new MockApiError(500, String(error)).response);
+            });
+        });
+    }
+
+    /**
+     * Base URL to pass as `base_url`
+     */
+    get url(): string {
+        const { port } = this.server.address() as AddressInfo;
+        return `http://127.0.0.1:${port}`;
+    }
+
+    /**
+     * Create a collection directly in memory
+     * @returns Collection in the `POST /collections` response shape
+     */
+    create_collection(): {
+        id: string;
+        access_key: { id: string; key: string; created: string };
+        created: string;
+        rate_limiting: NonNullable<MockServerOptions['rate_limiting']>;
+    } {
+        const now = this.clock.now();
+        const record: CollectionRecord = {
+            id: random_id(16),
+            access_key: { id: random_id(16), key: random_id(), created: now },
+            created: now,
+        };
+        this.collections.set(record.id, record);
+        return {
+            id: record.id,
+            access_key: { ...record.access_key, created: iso(now) as string },
+            created: iso(now) as string,
+            rate_limiting: this.options.rate_limiting ?? DEFAULT_RATE_LIMITING,
+        };
+    }
+
+    /**
+     * Create a collection and a Collection client pointed at this server
+     * @param options - Client options; `base_url` is set to this server. Retries default to 0
+     *     so injected faults surface immediately.
+     */
+    collection(options: CollectionOptions = {}): Collection {
+        const { id, access_key } = this.create_collection();
+        return new Collection(id, access_key.key, {
+            ...options,
+            base_url: this.url,
+            transport: { retries: 0, ...options.transport },
+        });
+    }
+
+    /**
+     * Inject a failure into matching requests
+     * @returns Function that removes the fault
+     */
+    inject_fault(fault: MockFault): () => void {
+        const entry = { ...fault };
+        this.faults.push(entry);
+        return () => {
+            this.faults = this.faults.filter((existing) => existing !== entry);
+        };
+    }
+
+    /**
+     * Remove all injected faults
+     */
+    clear_faults(): void {
+        this.faults = [];
+    }
+
+    /**
+     * Drop all collections, credentials, sessions, faults and recorded requests
+     */
+    reset(): void {
+        this.collections.clear();
+        this.credentials.clear();
+        this.sessions.clear();
+        this.faults = [];
+        this.requests = [];
+    }
+
+    /**
+     * Stop listening and close open connections
+     */
+    async close(): Promise<void> {
+        this.server.closeAllConnections();
+        await new Promise<void>((resolve, reject) =>
+            this.server.close((error) => (error ? reject(error) : resolve()))
+        );
+    }
+
+    private send(
+        response: ServerResponse,
+        status: number,
+        body: unknown,
+        headers: Record<string, string> = {}
+    ): void {
+        response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        response.end(JSON.stringify(body));
+    }
+
+    /**
+     * Find the first fault matching a request and use up one of its `times`
+     */
+    private take_fault(method: string, path: string): MockFault | undefined {
+        const fault = this.faults.find(
+            (entry) =>
+                (entry.method === undefined || entry.method.toUpperCase() === method) &&
+                (entry.path === undefined ||
+                    (typeof entry.path === 'string'
+                        ? path.startsWith(entry.path)
+                        : entry.path.test(path)))
+        );
+        if (fault?.times !== undefined) {
+            fault.times--;
+            if (fault.times <= 0) {
+                this.faults = this.faults.filter((entry) => entry !== fault);
+            }
+        }
+        return fault;
+    }
+
+    private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+        const method = (request.method ?? 'GET').toUpperCase();
+        const received: MockRequest = {
+            method,
+            path: url.pathname,
+            query: Object.fromEntries(url.searchParams),
+            headers: request.headers,
+        };
+        this.requests.push(received);
+
+        try {
+            received.body = await read_body(request);
+
+            const fault = this.take_fault(method, url.pathname);
+            if (fault?.latency) {
+                await sleep(fault.latency);
+            }
+            if (fault?.status) {
+                const headers: Record<string, string> =
+                    fault.retry_after === undefined
+                        ? {}
+                        : { 'Retry-After': String(fault.retry_after) };
+                const message = fault.status === 429 ? 'Rate limit exceeded' : 'Injected fault';
+                this.send(
+                    response,
+                    fault.status,
+                    new MockApiError(fault.status, message).response,
+                    headers
+                );
+                return;
+            }
+
+            const data = (received.body ?? {}) as Record<string, unknown>;
+            const result = await this.route(
+                method,
+                url.pathname.split('/').filter(Boolean).map(decodeURIComponent),
+                { ...data, ...received.query },
+                request
+            );
+            this.send(response, 200, result);
+        } catch (error) {
+            if (!(error instanceof MockApiError)) {
+                throw error;
+            }
+            this.send(response, error.status, error.response);
+        }
+    }
+
+    private async route(
+        method: string,
+        segments: string[],
+        data: Record<string, unknown>,
+        request: IncomingMessage
+    ): Promise<unknown> {
+        const [resource, id, sub, ...rest] = segments;
+        const route = `${method} /${resource ?? ''}${id ? '/:id' : ''}${sub ? `/${sub}` : ''}`;
+        if (rest.length > 0) {
+            throw new MockApiError(404, `Route not found: ${method} /${segments.join('/')}`);
+        }
+
+        switch (route) {
+            case 'POST /collections':
+                return this.create_collection();
+            case 'POST /collections/:id/credentials':
+                return this.create_credential(this.authorize(request, id), data);
+            case 'GET /collections/:id/credentials':
+                return this.list_credentials(this.authorize(request, id), data);
+            case 'GET /credentials/:id':
+                return this.credential_json(this.find_credential(request, id));
+            case 'PUT /credentials/:id':
+                return this.update_credential(this.find_credential(request, id), data);
+            case 'DELETE /credentials/:id':
+                return this.delete_credential(this.find_credential(request, id));
+            case 'POST /credentials/:id/sessions':
+                return this.create_session(this.find_credential(request, id), data);
+            case 'DELETE /credentials/:id/sessions':
+                return this.archive_sessions(this.find_credential(request, id));
+            case 'GET /sessions/:id':
+                return this.session_json(this.check_session(this.find_session(request, id), data));
+            case 'PUT /sessions/:id': {
+                const session = this.check_session(this.find_session(request, id), data);
+                session.expires = this.clock.now() + this.session_ttl();
+                return this.session_json(session);
+            }
+            case 'DELETE /sessions/:id': {
+                const session = this.check_session(this.find_session(request, id), data);
+                this.sessions.delete(session.id);
+                return this.session_json(session);
+            }
+        }
+        throw new MockApiError(404, `Route not found: ${method} /${segments.join('/')}`);
+    }
+
+    /**
+     * Check the `Authorization: Authentic <key>` header against a collection
+     * @returns The collection id
+     */
+    private authorize(request: IncomingMessage, collection_id: string): string {
+        const collection = this.collections.get(collection_id);
+        const key = /^Authentic (.+)$/.exec(request.headers.authorization ?? '')?.[1];
+        if (!collection || key !== collection.access_key.key) {
+            throw new MockApiError(401, 'Invalid access key for collection');
+        }
+        return collection.id;
+    }
+
+    /**
+     * Collection the request's access key belongs to
+     */
+    private requester(request: IncomingMessage): string {
+        const key = /^Authentic (.+)$/.exec(request.headers.authorization ?? '')?.[1];
+        for (const collection of this.collections.values()) {
+            if (key !== undefined && collection.access_key.key === key) {
+                return collection.id;
+            }
+        }
+        throw new MockApiError(401, 'Invalid access key for collection');
+    }
+
+    private find_credential(request: IncomingMessage, id: string): CredentialRecord {
+        const collection_id = this.requester(request);
+        const credential = this.credentials.get(id);
+        if (!credential || credential.collection_id !== collection_id) {
+            throw new MockApiError(404, 'Credential not found');
+        }
+        return credential;
+    }
+
+    private find_session(request: IncomingMessage, id: string): SessionRecord {
+        const collection_id = this.requester(request);
+        const session = this.sessions.get(id);
+        const credential = session && this.credentials.get(session.credential_id);
+        if (!session || !credential || credential.collection_id !== collection_id) {
+            throw new MockApiError(404, 'Session not found');
+        }
+        return session;
+    }
+
+    /**
+     * Reject expired sessions and sessions used from a different IP address or User Agent
+     */
+    private check_session(session: SessionRecord, data: Record<string, unknown>): SessionRecord {
+        if (session.expires <= this.clock.now()) {
+            throw new MockApiError(401, 'Session expired');
+        }
+        const ip_address = field(data, 'ip_address');
+        const user_agent = field(data, 'user_agent');
+        if (!compare.ipAddresses(ip_address, session.ip_address, this.options.ip_policy)) {
+            throw new MockApiError(401, 'Session context mismatch: ip_address');
+        }
+        if (!compare.userAgents(user_agent, session.user_agent, this.options.user_agent_policy)) {
+            throw new MockApiError(401, 'Session context mismatch: user_agent');
+        }
+        return session;
+    }
+
+    private session_ttl(): number {
+        return this.options.session_ttl ?? DEFAULT_SESSION_TTL;
+    }
+
+    private async verify_password(credential: CredentialRecord, password: string): Promise<void> {
+        const hash = await hash_password(password, credential.salt);
+        if (!timingSafeEqual(hash, credential.hash)) {
+            throw new MockApiError(401, 'Invalid password');
+        }
+    }
+
+    private async create_credential(
+        collection_id: string,
+        data: Record<string, unknown>
+    ): Promise<unknown> {
+        const password = field(data, 'password');
+        const salt = randomBytes(16);
+        const credential: CredentialRecord = {
+            id: `Auth_U1-${random_id()}`,
+            collection_id,
+            salt,
+            hash: await hash_password(password, salt),
+            created: this.clock.now(),
+            last_used: null,
+            disabled: false,
+        };
+        this.credentials.set(credential.id, credential);
+        return this.credential_json(credential);
+    }
+
+    private list_credentials(collection_id: string, data: Record<string, unknown>): unknown[] {
+        const offset = Number(data.offset ?? 0);
+        const limit = Number(data.limit ?? 100);
+        return [...this.credentials.values()]
+            .filter((credential) => credential.collection_id === collection_id)
+            .slice(offset, offset + limit)
+            .map((credential) => this.credential_json(credential));
+    }
+
+    private async update_credential(
+        credential: CredentialRecord,
+        data: Record<string, unknown>
+    ): Promise<unknown> {
+        if (data.password !== undefined) {
+            const password = field(data, 'password');
+            await this.verify_password(credential, field(data, 'current_password'));
+            credential.salt = randomBytes(16);
+            credential.hash = await hash_password(password, credential.salt);
+        }
+        if (typeof data.disabled === 'boolean') {
+            credential.disabled = data.disabled;
+        }
+        return this.credential_json(credential);
+    }
+
+    private delete_credential(credential: CredentialRecord): unknown {
+        this.archive_sessions(credential);
+        this.credentials.delete(credential.id);
+        return this.credential_json(credential);
+    }
+
+    private async create_session(
+        credential: CredentialRecord,
+        data: Record<string, unknown>
+    ): Promise<unknown> {
+        const password = field(data, 'password');
+        const ip_address = field(data, 'ip_address');
+        const user_agent = field(data, 'user_agent');
+        if (credential.disabled) {
+            throw new MockApiError(403, 'Credential is disabled');
+        }
+        await this.verify_password(credential, password);
+
+        const now = this.clock.now();
+        const session: SessionRecord = {
+            id: random_id(),
+            credential_id: credential.id,
+            created: now,
+            expires: now + this.session_ttl(),
+            ip_address,
+            user_agent,
+        };
+        this.sessions.set(session.id, session);
+        credential.last_used = now;
+        return this.session_json(session);
+    }
+
+    private archive_sessions(credential: CredentialRecord): unknown[] {
+        const archived = [...this.sessions.values()].filter(
+            (session) => session.credential_id === credential.id
+        );
+        for (const session of archived) {
+            this.sessions.delete(session.id);
+        }
+        return archived.map((session) => this.session_json(session));
+    }
+
+    private credential_json(credential: CredentialRecord): unknown {
+        return {
+            id: credential.id,
+            created: iso(credential.created),
+            last_used: iso(credential.last_used),
+            disabled: credential.disabled,
+        };
+    }
+
+    private session_json(session: SessionRecord): unknown {
+        return {
+            id: session.id,
+            credential: { id: session.credential_id },
+            created: iso(session.created),
+            expires: iso(session.expires),
+            ip_address: session.ip_address,
+            user_agent: session.user_agent,
+        };
+    }
+}
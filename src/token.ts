@@ -0,0 +1,390 @@
+import { compare, type IPPolicy, type UserAgentPolicy } from './compare.js';
+import type { ClientContext } from './context.js';
+import { ContextMismatchError, InvalidTokenError } from './errors.js';
+import {
+    base64url_decode,
+    base64url_encode,
+    hmac_sha256,
+    sha256,
+    timing_safe_equal,
+} from './signing.js';
+
+/**
+ * Session token signature: HMAC with a shared secret, or ECDSA P-256 / Ed25519 with a key pair
+ */
+export type SessionTokenAlgorithm = 'HS256' | 'ES256' | 'EdDSA';
+
+/**
+ * JSON Web Key of an ES256 (`kty: "EC"`, `crv: "P-256"`) or EdDSA (`kty: "OKP"`,
+ * `crv: "Ed25519"`) key, eg. from `crypto.subtle.exportKey('jwk', key)`
+ */
+export interface SessionTokenJwk {
+    kty: string;
+    crv: string;
+    x: string;
+    /** EC keys only */
+    y?: string;
+    /** Private keys only */
+    d?: string;
+    [field: string]: unknown;
+}
+
+/**
+ * Key in a session token key set
+ * HS256 keys share one `secret` between the issuer and every verifier. ES256 (P-256) and EdDSA
+ * (Ed25519) keys are JWKs: only the issuing Collection holds `private_key`, and services that
+ * only verify get the `public_key` (see `publicKeySet`).
+ */
+export interface SessionTokenKey {
+    /** Key ID, written to the token header as `kid` */
+    id: string;
+    /** Signature algorithm (default: "HS256") */
+    algorithm?: SessionTokenAlgorithm;
+    /** HS256 key, at least 32 characters; keep it out of source control */
+    secret?: string;
+    /** ES256/EdDSA private JWK, needed to sign; keep it out of source control */
+    private_key?: SessionTokenJwk;
+    /** ES256/EdDSA public JWK, needed to verify */
+    public_key?: SessionTokenJwk;
+}
+
+/**
+ * Public JWK of a session token key, as published in a key set
+ */
+export type SessionTokenPublicKey = SessionTokenJwk & {
+    kid: string;
+    alg: Exclude<SessionTokenAlgorithm, 'HS256'>;
+    use: 'sig';
+};
+
+/**
+ * Session token settings of a Collection, and what `verifyToken` checks against
+ */
+export interface SessionTokenOptions {
+    /**
+     * Key set, newest first: the first key signs, every key verifies by its `kid`. To rotate, put
+     * a new key in front and drop the old one once its tokens have expired.
+     */
+    keys: SessionTokenKey[];
+    /** Milliseconds a token is valid, never beyond the session's expiry (default: 5 minutes) */
+    ttl?: number;
+    /** Rules for comparing the request IP address with the token's */
+    ip_policy?: IPPolicy;
+    /** Rules for comparing the request User Agent with the token's */
+    user_agent_policy?: UserAgentPolicy;
+}
+
+/**
+ * Claims of a session token (a JWT signed with HS256, ES256 or EdDSA)
+ */
+export interface SessionTokenClaims {
+    /** Credential ID */
+    sub: string;
+    /** SHA-256 of the session ID, base64url encoded; the session ID itself is never included */
+    sid: string;
+    /** IP address the session is bound to */
+    ip: string;
+    /** User Agent the session is bound to */
+    ua: string;
+    /** Issue time in seconds since the epoch */
+    iat: number;
+    /** Expiry in seconds since the epoch */
+    exp: number;
+    /** Present when the session verified a second factor */
+    mfa?: true;
+}
+
+/**
+ * Request checked by `verifyToken`
+ */
+export interface TokenContext extends ClientContext {
+    /** Session ID the token must have been issued for (default: not checked) */
+    session_id?: string;
+}
+
+export const DEFAULT_SESSION_TOKEN_TTL = 5 * 60 * 1000;
+
+type TokenHeader = { alg?: unknown; typ?: unknown; kid?: unknown };
+
+// WebCrypto parameters of the asymmetric algorithms; signatures are the raw JWS encoding
+const ASYMMETRIC: Record<
+    Exclude<SessionTokenAlgorithm, 'HS256'>,
+    {
+        key: { name: string; namedCurve?: string };
+        sign: { name: string; hash?: string };
+        kty: string;
+        crv: string;
+    }
+> = {
+    ES256: {
+        key: { name: 'ECDSA', namedCurve: 'P-256' },
+        sign: { name: 'ECDSA', hash: 'SHA-256' },
+        kty: 'EC',
+        crv: 'P-256',
+    },
+    EdDSA: { key: { name: 'Ed25519' }, sign: { name: 'Ed25519' }, kty: 'OKP', crv: 'Ed25519' },
+};
+
+type ImportedKey = Awaited<ReturnType<typeof crypto.subtle.importKey>>;
+
+// Imported keys by usage, so each JWK is parsed once
+const imported_keys = {
+    sign: new WeakMap<SessionTokenJwk, Promise<ImportedKey>>(),
+    verify: new WeakMap<SessionTokenJwk, Promise<ImportedKey>>(),
+};
+
+function algorithm_of(key: SessionTokenKey): SessionTokenAlgorithm {
+    return key.algorithm ?? 'HS256';
+}
+
+function import_key(
+    jwk: SessionTokenJwk,
+    algorithm: Exclude<SessionTokenAlgorithm, 'HS256'>,
+    usage: 'sign' | 'verify'
+): Promise<ImportedKey> {
+    let key = imported_keys[usage].get(jwk);
+    if (!key) {
+        // Only the fields WebCrypto needs: `alg`, `key_ops` or `use` from an export may not match
+        const { kty, crv, x, y, d } = jwk;
+        key = crypto.subtle.importKey(
+            'jwk',
+            { kty, crv, x, y, d },
+            ASYMMETRIC[algorithm].key,
+            false,
+            [usage]
+        );
+        imported_keys[usage].set(jwk, key);
+    }
+    return key;
+}
+
+async function sign(key: SessionTokenKey, message: string): Promise<string> {
+    const algorithm = algorithm_of(key);
+    if (algorithm === 'HS256') {
+        if (key.secret === undefined) {
+            throw new TypeError(`session_tokens key ${key.id} needs a secret`);
+        }
+        return hmac_sha256(key.secret, message);
+    }
+    if (!key.private_key) {
+        throw new TypeError(`session_tokens key ${key.id} signs, so it needs a private_key`);
+    }
+    const private_key = await import_key(key.private_key, algorithm, 'sign');
+    const signature = await crypto.subtle.sign(
+        ASYMMETRIC[algorithm].sign,
+        private_key,
+        new TextEncoder().encode(message)
+    );
+    return base64url_encode(new Uint8Array(signature));
+}
+
+async function verify(key: SessionTokenKey, message: string, signature: string): Promise<boolean> {
+    const algorithm = algorithm_of(key);
+    if (algorithm === 'HS256') {
+        return (
+            key.secret !== undefined &&
+            timing_safe_equal(await hmac_sha256(key.secret, message), signature)
+        );
+    }
+    const bytes = base64url_decode(signature);
+    if (!bytes || !key.public_key) {
+        return false;
+    }
+    const public_key = await import_key(key.public_key, algorithm, 'verify');
+    return crypto.subtle.verify(
+        ASYMMETRIC[algorithm].sign,
+        public_key,
+        bytes,
+        new TextEncoder().encode(message)
+    );
+}
+
+function encode_json(value: unknown): string {
+    return base64url_encode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function decode_json<T>(encoded: string): Partial<T> | null {
+    const bytes = base64url_decode(encoded);
+    try {
+        const value = bytes ? JSON.parse(new TextDecoder().decode(bytes)) : null;
+        return typeof value === 'object' && !Array.isArray(value) ? value : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Check a key set has at least one key, unique IDs and usable key material, and that the first
+ * key can sign
+ * @throws {TypeError} If the key set is empty or a key is invalid
+ */
+export function check_token_keys(keys: SessionTokenKey[]): void {
+    if (!Array.isArray(keys) || keys.length === 0) {
+        throw new TypeError('session_tokens.keys needs at least one key');
+    }
+    const ids = new Set<string>();
+    for (const key of keys) {
+        if (typeof key?.id !== 'string' || key.id === '' || ids.has(key.id)) {
+            throw new TypeError('session_tokens.keys need unique, non-empty ids');
+        }
+        const algorithm = algorithm_of(key);
+        if (algorithm === 'HS256') {
+            if (typeof key.secret !== 'string' || key.secret.length < 32) {
+                throw new TypeError(`session_tokens key ${key.id} must be at least 32 characters`);
+            }
+        } else {
+            if (!Object.hasOwn(ASYMMETRIC, algorithm)) {
+                throw new TypeError(`session_tokens key ${key.id} has an unknown algorithm`);
+            }
+            const { kty, crv } = ASYMMETRIC[algorithm];
+            if (!key.public_key) {
+                throw new TypeError(`session_tokens key ${key.id} needs a public_key`);
+            }
+            for (const jwk of [key.public_key, key.private_key]) {
+                if (jwk !== undefined && (jwk.kty !== kty || jwk.crv !== crv)) {
+                    throw new TypeError(`session_tokens key ${key.id} needs ${crv} JWKs`);
+                }
+            }
+        }
+        ids.add(key.id);
+    }
+    const [signer] = keys;
+    if (algorithm_of(signer) !== 'HS256' && !signer.private_key) {
+        throw new TypeError(`session_tokens key ${signer.id} signs, so it needs a private_key`);
+    }
+}
+
+/**
+ * JWK Set of the public keys, to publish for services that only verify tokens
+ * Private keys and HS256 secrets are left out. A verifier turns each entry back into a key with
+ * `{ id: jwk.kid, algorithm: jwk.alg, public_key: jwk }`.
+ * @param keys - Key set
+ */
+export function publicKeySet(keys: SessionTokenKey[]): { keys: SessionTokenPublicKey[] } {
+    return {
+        keys: keys.flatMap((key) => {
+            const algorithm = algorithm_of(key);
+            if (algorithm === 'HS256' || !key.public_key) {
+                return [];
+            }
+            const { kty, crv, x, y } = key.public_key;
+            return [{ kty, crv, x, y, kid: key.id, alg: algorithm, use: 'sig' as const }];
+        }),
+    };
+}
+
+/**
+ * Sign a session token with the first key of the set
+ * @param options - Key set and ttl
+ * @param claims - Claims other than `iat`, `exp` and `sid`
+ * @param session_id - Session the token is issued for
+ * @param expires - Session expiry; the token never outlives it
+ */
+export async function sign_session_token(
+    options: SessionTokenOptions,
+    claims: Pick<SessionTokenClaims, 'sub' | 'ip' | 'ua' | 'mfa'>,
+    session_id: string,
+    expires?: Date
+): Promise<string> {
+    const [key] = options.keys;
+    const now = Date.now();
+    const until = Math.min(
+        now + (options.ttl ?? DEFAULT_SESSION_TOKEN_TTL),
+        expires?.getTime() ?? Infinity
+    );
+    const payload: SessionTokenClaims = {
+        ...claims,
+        sid: await sha256(session_id),
+        iat: Math.floor(now / 1000),
+        exp: Math.floor(until / 1000),
+    };
+    const header = { alg: algorithm_of(key), typ: 'JWT', kid: key.id };
+    const signed = `${encode_json(header)}.${encode_json(payload)}`;
+    return `${signed}.${await sign(key, signed)}`;
+}
+
+/**
+ * Verify a session token's signature, expiry and session
+ * @param token - Token from `Session.token`
+ * @param keys - Key set
+ * @param session_id - Session the token must belong to (default: not checked)
+ * @returns The token's claims
+ * @throws {InvalidTokenError} If the token is malformed, forged, expired or for another session
+ */
+export async function read_session_token(
+    token: string,
+    keys: SessionTokenKey[],
+    session_id?: string
+): Promise<SessionTokenClaims> {
+    const [header, payload, signature, ...rest] = String(token).trim().split('.');
+    if (!header || !payload || !signature || rest.length > 0) {
+        throw new InvalidTokenError('malformed', 'session');
+    }
+    const { alg, kid } = decode_json<TokenHeader>(header) ?? {};
+    // The key's own algorithm must match the header, so "none" and key confusion cannot work
+    const key = keys.find((key) => key.id === kid);
+    if (
+        !key ||
+        alg !== algorithm_of(key) ||
+        !(await verify(key, `${header}.${payload}`, signature))
+    ) {
+        throw new InvalidTokenError('signature', 'session');
+    }
+
+    const claims = decode_json<SessionTokenClaims>(payload);
+    if (
+        typeof claims?.sub !== 'string' ||
+        typeof claims.sid !== 'string' ||
+        typeof claims.ip !== 'string' ||
+        typeof claims.ua !== 'string' ||
+        typeof claims.exp !== 'number'
+    ) {
+        throw new InvalidTokenError('malformed', 'session');
+    }
+    if (claims.exp * 1000 <= Date.now()) {
+        throw new InvalidTokenError('expired', 'session');
+    }
+    if (session_id !== undefined && !timing_safe_equal(claims.sid, await sha256(session_id))) {
+        throw new InvalidTokenError('session', 'session');
+    }
+    return claims as SessionTokenClaims;
+}
+
+/**
+ * Compare the request context with the context bound in a token
+ * @throws {ContextMismatchError} If the IP address or User Agent does not match
+ */
+export function check_token_context(
+    claims: SessionTokenClaims,
+    context: ClientContext,
+    options: Pick<SessionTokenOptions, 'ip_policy' | 'user_agent_policy'>
+): void {
+    if (
+        !compare.ipAddresses(context.ip_address, claims.ip, options.ip_policy) ||
+        !compare.userAgents(context.user_agent, claims.ua, options.user_agent_policy)
+    ) {
+        throw new ContextMismatchError({}, 'Request context does not match the session token');
+    }
+}
+
+/**
+ * Validate a session token locally, without the API
+ * Checks the signature against the key set, the expiry, the session (when `session_id` is
+ * given) and the bound IP address and User Agent with `compare`. A valid token only proves the
+ * session was valid when the token was issued; archiving the session does not revoke it.
+ * @param token - Token from `Session.token`
+ * @param context - Request IP address, User Agent and optionally the session ID
+ * @param options - Key set and comparison policies
+ * @returns The token's claims
+ * @throws {InvalidTokenError} If the token is malformed, forged, expired or for another session
+ * @throws {ContextMismatchError} If the IP address or User Agent does not match
+ */
+export async function verifyToken(
+    token: string,
+    context: TokenContext,
+    options: SessionTokenOptions
+): Promise<SessionTokenClaims> {
+    const claims = await read_session_token(token, options.keys, context.session_id);
+    check_token_context(claims, context, options);
+    return claims;
+}
@@ -0,0 +1,11 @@
+import UserAgentParser from 'ua-parser-js';
+
+/**
+ * Parse a client's User-Agent string
+ * ua-parser-js reads `navigator.userAgent` (and Client Hints) in place of an empty string, which
+ * in a browser, Deno or worker would describe the runtime instead of the client; a blank string
+ * parses to nothing on every runtime.
+ */
+export function parse_user_agent_string(user_agent: string): UserAgentParser.IResult {
+    return new UserAgentParser(user_agent || ' ').getResult();
+}
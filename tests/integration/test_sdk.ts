@@ -5,8 +5,9 @@ import crypto from 'crypto';
 import { describe, it, expect, afterAll } from 'vitest';
 import knex, { Knex } from 'knex';
 import { readFileSync } from 'fs';
-import { Collection } from '../../dist/index.js';
+import { Collection, NotFoundError } from '../../dist/index.js';
 import { config } from '../../dist/index.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -26,12 +27,16 @@ interface LocalUser {
     magicauth_id: string;
 }
 
-const collectionData: CollectionData = JSON.parse(
-    readFileSync(new URL('../collection.json', import.meta.url), 'utf-8')
-);
+// Runs against the in-process mock server unless MAGICAUTH_API_URL points at a live API, which
+// also needs tests/collection.json
+const server = process.env.MAGICAUTH_API_URL ? null : await MockMagicAuthServer.start();
+
+const collectionData: CollectionData = server
+    ? server.create_collection()
+    : JSON.parse(readFileSync(new URL('../collection.json', import.meta.url), 'utf-8'));
 const { id, access_key } = collectionData;
 
-config.API_BASE_URL = process.env.MAGICAUTH_API_URL || 'https://dev.magicauth.ca';
+config.API_BASE_URL = server ? server.url : (process.env.MAGICAUTH_API_URL as string);
 
 const database: Knex = knex({
     client: 'sqlite3',
@@ -177,6 +182,129 @@ function password_update_tests() {
     });
 }
 
+// Sign Out
+//   ( session ID, ctx )
+//     - archive session ( session ID, ctx )		-> session
+//     - clear session cookie
+//
+// Sign Out Everywhere
+//   ( magic ID )
+//     - archive sessions ( magic ID )			-> sessions
+//
+function logout_tests() {
+    let logout_user_id: string;
+    let logout_session_id: string;
+    const logout_password = 'LogoutPass1!';
+
+    it('should create a test user and session for logout', async () => {
+        const magicuser = await magicauth.user(logout_password);
+        logout_user_id = magicuser.id;
+
+        const session = await magicauth.session(
+            logout_user_id,
+            logout_password,
+            ip_address,
+            user_agent
+        );
+        logout_session_id = session.id;
+
+        expect(logout_session_id).toBeTypeOf('string');
+    });
+
+    it('should sign-out', async () => {
+        const session = await magicauth.archive_session(logout_session_id, ip_address, user_agent);
+        log.trace('Archived session: %s', JSON.stringify(session, null, 4));
+
+        expect(session.id).toBe(logout_session_id);
+    });
+
+    it('should fail to validate archived session', async () => {
+        await expect(
+            magicauth.validate(logout_session_id, ip_address, user_agent)
+        ).rejects.toThrow();
+    });
+
+    it('should sign-out everywhere', async () => {
+        const first = await magicauth.session(
+            logout_user_id,
+            logout_password,
+            ip_address,
+            user_agent
+        );
+        const second = await magicauth.session(
+            logout_user_id,
+            logout_password,
+            ip_address,
+            user_agent
+        );
+
+        const sessions = await magicauth.archive_sessions(logout_user_id);
+        log.trace('Archived sessions: %s', JSON.stringify(sessions, null, 4));
+
+        expect(sessions.map((session) => session.id)).toEqual(
+            expect.arrayContaining([first.id, second.id])
+        );
+
+        await expect(magicauth.validate(first.id, ip_address, user_agent)).rejects.toThrow();
+        await expect(magicauth.validate(second.id, ip_address, user_agent)).rejects.toThrow();
+    });
+}
+
+function credential_lifecycle_tests() {
+    let lifecycle_user_id: string;
+    const lifecycle_password = 'LifecyclePass1!';
+
+    it('should fetch credential metadata', async () => {
+        const magicuser = await magicauth.user(lifecycle_password);
+        lifecycle_user_id = magicuser.id;
+
+        const credential = await magicauth.credential(lifecycle_user_id);
+        log.trace('Credential: %s', JSON.stringify(credential, null, 4));
+
+        expect(credential.id).toBe(lifecycle_user_id);
+        expect(credential.created).toBeInstanceOf(Date);
+        expect(credential.disabled).toBe(false);
+    });
+
+    it('should list credentials', async () => {
+        const credentials = await magicauth.credentials({ offset: 0, limit: 10 });
+        log.trace('Credentials: %s', JSON.stringify(credentials, null, 4));
+
+        expect(credentials.length).toBeGreaterThan(0);
+        expect(credentials.length).toBeLessThanOrEqual(10);
+    });
+
+    it('should disable a credential', async () => {
+        const credential = await magicauth.disable_credential(lifecycle_user_id);
+
+        expect(credential.disabled).toBe(true);
+        await expect(
+            magicauth.session(lifecycle_user_id, lifecycle_password, ip_address, user_agent)
+        ).rejects.toThrow();
+    });
+
+    it('should re-enable a credential', async () => {
+        const credential = await magicauth.enable_credential(lifecycle_user_id);
+
+        expect(credential.disabled).toBe(false);
+
+        const session = await magicauth.session(
+            lifecycle_user_id,
+            lifecycle_password,
+            ip_address,
+            user_agent
+        );
+        expect(session.id).toBeTypeOf('string');
+    });
+
+    it('should delete a credential', async () => {
+        const credential = await magicauth.delete_credential(lifecycle_user_id);
+
+        expect(credential.id).toBe(lifecycle_user_id);
+        await expect(magicauth.credential(lifecycle_user_id)).rejects.toThrow(NotFoundError);
+    });
+}
+
 function error_handling_tests() {
     let valid_user_id: string;
     let valid_session_id: string;
@@ -216,9 +344,12 @@ describe('SDK Integration Tests', () => {
     afterAll(async () => {
         log.info('Destroy database connection...');
         await database.destroy();
+        await server?.close();
     });
 
     describe('Basic', basic_tests);
     describe('Password Update', password_update_tests);
+    describe('Sign Out', logout_tests);
+    describe('Credential Lifecycle', credential_lifecycle_tests);
     describe('Error Handling', error_handling_tests);
 });
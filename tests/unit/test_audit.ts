@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AuthenticationError, type AuditEvent, type SdkLogger } from '../../dist/index.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
+
+const password = 'Passw0rd!';
+const ip_address = '95.107.167.200';
+const user_agent =
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/81.0.4044.129 Safari/537.36';
+
+let server: MockMagicAuthServer;
+
+/**
+ * Collection recording its audit events and debug log lines
+ */
+function audited_collection() {
+    const events: AuditEvent[] = [];
+    const lines: string[] = [];
+    const logger: SdkLogger = {
+        debug: (...args) => lines.push(JSON.stringify(args)),
+        info: () => {},
+        warn: (...args) => lines.push(JSON.stringify(args)),
+        error: () => {},
+    };
+    const magicauth = server.collection({
+        logger,
+        audit: (event) => {
+            events.push(event);
+        },
+    });
+    return { magicauth, events, lines };
+}
+
+function event_tests() {
+    it('should emit an event per operation', async () => {
+        const { magicauth, events } = audited_collection();
+
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        await magicauth.validate(session.id, ip_address, user_agent);
+        await magicauth.update_password(user.id, password, 'N3w-Passw0rd!');
+        await magicauth.archive_sessions(user.id);
+
+        expect(events.map((event) => event.type)).toEqual([
+            'credential_created',
+            'session_created',
+            'session_validated',
+            'password_changed',
+            'sessions_archived',
+        ]);
+        expect(events[1]).toMatchObject({
+            collection_id: magicauth.collection_id,
+            credential_id: user.id,
+            ip_address,
+            user_agent: { browser: 'Chrome', browser_version: '81.0.4044.129', os: 'Linux' },
+        });
+        expect(events[1].timestamp).toBeInstanceOf(Date);
+        expect(events[1].latency).toBeGreaterThanOrEqual(0);
+        expect(events[2].credential_id).toBe(user.id);
+    });
+
+    it('should never include session IDs or passwords', async () => {
+        const { magicauth, events, lines } = audited_collection();
+
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        await magicauth.validate(session.id, ip_address, user_agent);
+        await magicauth.archive_session(session.id, ip_address, user_agent);
+
+        const output = JSON.stringify(events) + lines.join('\n');
+        expect(output).not.toContain(session.id);
+        expect(output).not.toContain(password);
+        expect(events[1].session_hash).toMatch(/^sha256:[0-9a-f]{32}$/);
+        expect(events[2].session_hash).toBe(events[1].session_hash);
+        expect(events[3].session_hash).toBe(events[1].session_hash);
+    });
+
+    it('should report failures with a reason', async () => {
+        const { magicauth, events } = audited_collection();
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+
+        await expect(magicauth.session(user.id, 'wrong', ip_address, user_agent)).rejects.toThrow(
+            AuthenticationError
+        );
+        await magicauth.validate(session.id, '10.0.0.1', user_agent).catch(() => {});
+        await magicauth.validate('unknown-session', ip_address, user_agent).catch(() => {});
+
+        expect(events.slice(2)).toMatchObject([
+            {
+                type: 'authentication_failed',
+                reason: 'invalid_credentials',
+                error: 'AuthenticationError',
+            },
+            { type: 'context_mismatch', reason: 'context_mismatch', ip_address: '10.0.0.1' },
+            { type: 'validation_failed', reason: 'not_found' },
+        ]);
+    });
+}
+
+function delivery_tests() {
+    it('should dispatch events on an EventTarget', async () => {
+        const target = new EventTarget();
+        const received: AuditEvent[] = [];
+        target.addEventListener('credential_created', (event) => {
+            received.push((event as CustomEvent<AuditEvent>).detail);
+        });
+        const magicauth = server.collection({ audit: target });
+
+        const user = await magicauth.user(password);
+
+        expect(received).toHaveLength(1);
+        expect(received[0].credential_id).toBe(user.id);
+    });
+
+    it('should not let a failing listener break the operation', async () => {
+        const { magicauth, lines } = audited_collection();
+        magicauth.audit.subscribe(() => {
+            throw new Error('listener failed');
+        });
+        magicauth.audit.subscribe(async () => {
+            throw new Error('async listener failed');
+        });
+
+        const user = await magicauth.user(password);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        expect(user.id).toMatch(/^Auth_U1-/);
+        expect(lines.filter((line) => line.includes('Audit listener failed'))).toHaveLength(2);
+    });
+
+    it('should not let a failing EventTarget listener break the operation', async () => {
+        const lines: string[] = [];
+        const logger: SdkLogger = {
+            debug: () => {},
+            info: () => {},
+            warn: (...args) => lines.push(JSON.stringify(args)),
+            error: () => {},
+        };
+        const target = new EventTarget();
+        const magicauth = server.collection({ logger, audit: target });
+        const uncaught: unknown[] = [];
+        const on_uncaught = (error: unknown) => uncaught.push(error);
+        process.on('uncaughtException', on_uncaught);
+        const received: AuditEvent[] = [];
+        const removed = () => received.push({} as AuditEvent);
+        target.addEventListener('credential_created', () => {
+            throw new Error('listener failed');
+        });
+        target.addEventListener('credential_created', async () => {
+            throw new Error('async listener failed');
+        });
+        target.addEventListener('credential_created', {
+            handleEvent: (event) => received.push((event as CustomEvent<AuditEvent>).detail),
+        });
+        target.addEventListener('credential_created', removed);
+        target.removeEventListener('credential_created', removed);
+
+        try {
+            const user = await magicauth.user(password);
+            await new Promise((resolve) => setTimeout(resolve, 0));
+
+            expect(user.id).toMatch(/^Auth_U1-/);
+            expect(received).toEqual([expect.objectContaining({ credential_id: user.id })]);
+            expect(lines.filter((line) => line.includes('Audit listener failed'))).toHaveLength(2);
+            expect(uncaught).toEqual([]);
+        } finally {
+            process.off('uncaughtException', on_uncaught);
+        }
+    });
+
+    it('should stop delivering after unsubscribe', async () => {
+        const magicauth = server.collection();
+        const events: AuditEvent[] = [];
+        const unsubscribe = magicauth.audit.subscribe((event) => {
+            events.push(event);
+        });
+
+        await magicauth.user(password);
+        unsubscribe();
+        await magicauth.user(password);
+
+        expect(events).toHaveLength(1);
+    });
+}
+
+describe('Audit', () => {
+    beforeAll(async () => {
+        server = await MockMagicAuthServer.start();
+    });
+    afterAll(async () => {
+        await server.close();
+    });
+
+    describe('Events', event_tests);
+    describe('Delivery', delivery_tests);
+});
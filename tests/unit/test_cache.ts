@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+    ContextMismatchError,
+    MemoryStore,
+    NetworkError,
+    NotFoundError,
+    type SessionCacheOptions,
+    type SessionCacheStore,
+} from '../../dist/index.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
+
+const password = 'Passw0rd!';
+const ip_address = '95.107.167.200';
+const user_agent =
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/81.0.4044.129 Safari/537.36';
+
+let server: MockMagicAuthServer;
+
+/**
+ * Collection with a validate cache, plus a signed-in user
+ */
+async function setup(cache: SessionCacheOptions = {}) {
+    const magicauth = server.collection({ cache });
+    const user = await magicauth.user(password);
+    const session = await magicauth.session(user.id, password, ip_address, user_agent);
+    return { magicauth, user, session };
+}
+
+function validations(session_id: string): number {
+    return server.requests.filter(
+        (request) => request.method === 'GET' && request.path === `/sessions/${session_id}`
+    ).length;
+}
+
+function cache_tests() {
+    it('should serve repeated validations from the cache', async () => {
+        const { magicauth, session } = await setup();
+
+        await magicauth.validate(session.id, ip_address, user_agent);
+        const cached = await magicauth.validate(session.id, ip_address, user_agent);
+
+        expect(cached.id).toBe(session.id);
+        expect(validations(session.id)).toBe(1);
+    });
+
+    it('should ask the API when the context does not match', async () => {
+        const { magicauth, session } = await setup();
+
+        await magicauth.validate(session.id, ip_address, user_agent);
+        await expect(magicauth.validate(session.id, '8.8.8.8', user_agent)).rejects.toThrow(
+            ContextMismatchError
+        );
+        expect(validations(session.id)).toBe(2);
+    });
+
+    it('should expire entries after the TTL', async () => {
+        const { magicauth, session } = await setup({ ttl: 1 });
+
+        await magicauth.validate(session.id, ip_address, user_agent);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        await magicauth.validate(session.id, ip_address, user_agent);
+
+        expect(validations(session.id)).toBe(2);
+    });
+
+    it('should coalesce concurrent validations', async () => {
+        const { magicauth, session } = await setup();
+
+        const sessions = await Promise.all([
+            magicauth.validate(session.id, ip_address, user_agent),
+            magicauth.validate(session.id, ip_address, user_agent),
+            magicauth.validate(session.id, ip_address, user_agent),
+        ]);
+
+        expect(sessions.map((entry) => entry.id)).toEqual([session.id, session.id, session.id]);
+        expect(validations(session.id)).toBe(1);
+    });
+
+    it("should not abort coalesced validations with one caller's signal", async () => {
+        const { magicauth, session } = await setup();
+        const controller = new AbortController();
+        const remove = server.inject_fault({ path: `/sessions/${session.id}`, latency: 50 });
+
+        const aborted = magicauth.validate(session.id, ip_address, user_agent, {
+            signal: controller.signal,
+        });
+        const waiting = magicauth.validate(session.id, ip_address, user_agent);
+        controller.abort();
+
+        await expect(aborted).rejects.toThrow(NetworkError);
+        expect((await waiting).id).toBe(session.id);
+        expect(validations(session.id)).toBe(1);
+        remove();
+    });
+
+    it('should only cache failures for the negative TTL', async () => {
+        const { magicauth } = await setup();
+        const { magicauth: negative } = await setup({ negative_ttl: 60_000 });
+
+        for (const client of [magicauth, magicauth, negative, negative]) {
+            await expect(client.validate('missing', ip_address, user_agent)).rejects.toThrow(
+                NotFoundError
+            );
+        }
+        expect(validations('missing')).toBe(3);
+    });
+}
+
+function invalidation_tests() {
+    it('should forget a session on logout', async () => {
+        const { magicauth, session } = await setup();
+
+        await magicauth.validate(session.id, ip_address, user_agent);
+        await magicauth.archive_session(session.id, ip_address, user_agent);
+
+        await expect(magicauth.validate(session.id, ip_address, user_agent)).rejects.toThrow(
+            NotFoundError
+        );
+    });
+
+    it('should revoke cached sessions on sign out everywhere', async () => {
+        const { magicauth, user, session } = await setup();
+
+        await magicauth.validate(session.id, ip_address, user_agent);
+        await magicauth.archive_sessions(user.id);
+
+        await expect(magicauth.validate(session.id, ip_address, user_agent)).rejects.toThrow(
+            NotFoundError
+        );
+    });
+
+    it('should revalidate after a password change', async () => {
+        const { magicauth, user, session } = await setup();
+
+        await magicauth.validate(session.id, ip_address, user_agent);
+        await magicauth.update_password(user.id, password, 'NewPass1!');
+        await magicauth.validate(session.id, ip_address, user_agent);
+
+        expect(validations(session.id)).toBe(2);
+    });
+}
+
+function store_tests() {
+    it('should store JSON-serializable values in a custom store', async () => {
+        const data = new Map<string, string>();
+        const store: SessionCacheStore = {
+            get: async (key) => (data.has(key) ? JSON.parse(data.get(key) as string) : undefined),
+            set: async (key, value) => {
+                data.set(key, JSON.stringify(value));
+            },
+            delete: async (key) => {
+                data.delete(key);
+            },
+        };
+        const { magicauth, session } = await setup({ store });
+
+        await magicauth.validate(session.id, ip_address, user_agent);
+        const cached = await magicauth.validate(session.id, ip_address, user_agent);
+
+        expect(cached.expires).toBeInstanceOf(Date);
+        expect(data.has(`session:${session.id}`)).toBe(true);
+        expect(validations(session.id)).toBe(1);
+    });
+
+    it('should evict the least recently used entry', () => {
+        const store = new MemoryStore(2);
+        store.set('a', 1, 60_000);
+        store.set('b', 2, 60_000);
+        store.get('a');
+        store.set('c', 3, 60_000);
+
+        expect(store.get('a')).toBe(1);
+        expect(store.get('b')).toBeUndefined();
+        expect(store.get('c')).toBe(3);
+    });
+}
+
+describe('Session Cache', () => {
+    beforeAll(async () => {
+        server = await MockMagicAuthServer.start();
+    });
+    afterAll(async () => {
+        await server.close();
+    });
+
+    describe('Validate', cache_tests);
+    describe('Invalidation', invalidation_tests);
+    describe('Stores', store_tests);
+});
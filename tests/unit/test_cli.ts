@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { run } from '../../dist/cli.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
+
+const password = 'Passw0rd!';
+const ip_address = '95.107.167.200';
+const user_agent =
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/81.0.4044.129 Safari/537.36';
+
+let server: MockMagicAuthServer;
+let directory: string;
+
+/**
+ * Run the CLI with captured output; HOME points at the temporary directory so no real
+ * profile file is read
+ */
+async function magicauth(argv: string[], env: Record<string, string> = {}) {
+    let stdout = '';
+    let stderr = '';
+    const status = await run(argv, {
+        stdout: (text) => (stdout += text),
+        stderr: (text) => (stderr += text),
+        env: { HOME: directory, ...env },
+    });
+    return { status, stdout, stderr, json: () => JSON.parse(stdout) };
+}
+
+function connection(): string[] {
+    const { id, access_key } = server.create_collection();
+    return ['--base-url', server.url, '--collection', id, '--access-key', access_key.key];
+}
+
+function collection_tests() {
+    it('should create a collection and write its credentials file', async () => {
+        const out = join(directory, 'collection.json');
+
+        const result = await magicauth([
+            'collection',
+            'create',
+            '--base-url',
+            server.url,
+            '--out',
+            out,
+            '--json',
+        ]);
+
+        expect(result.status).toBe(0);
+        const written = JSON.parse(await readFile(out, 'utf8'));
+        expect(written.id).toBe(result.json().id);
+        expect(written.access_key.key).toBeTypeOf('string');
+        expect((await stat(out)).mode & 0o777).toBe(0o600);
+
+        const user = await magicauth(
+            ['credential', 'create', '--password', password, '--credentials', out, '--json'],
+            { MAGICAUTH_API_URL: server.url }
+        );
+        expect(user.status).toBe(0);
+        expect(user.json().id).toMatch(/^Auth_U1-/);
+    });
+
+    it('should read connection settings from a profile', async () => {
+        const { id, access_key } = server.create_collection();
+        const config = join(directory, 'profiles.json');
+        await writeFile(
+            config,
+            JSON.stringify({
+                staging: { base_url: server.url, collection_id: id, access_key: access_key.key },
+            })
+        );
+
+        const result = await magicauth(['credential', 'create', '--json'], {
+            MAGICAUTH_CONFIG: config,
+            MAGICAUTH_PROFILE: 'staging',
+            MAGICAUTH_PASSWORD: password,
+        });
+
+        expect(result.status).toBe(0);
+        expect(result.json().id).toMatch(/^Auth_U1-/);
+    });
+}
+
+function session_tests() {
+    it('should open and validate a session', async () => {
+        const options = connection();
+        const user = await magicauth(['credential', 'create', ...options, '--json'], {
+            MAGICAUTH_PASSWORD: password,
+        });
+        const context = ['--ip', ip_address, '--user-agent', user_agent];
+
+        const session = await magicauth([
+            'session',
+            'create',
+            user.json().id,
+            '--password',
+            password,
+            ...context,
+            ...options,
+            '--json',
+        ]);
+        const validated = await magicauth([
+            'session',
+            'validate',
+            session.json().id,
+            ...context,
+            ...options,
+        ]);
+
+        expect(session.status).toBe(0);
+        expect(validated.status).toBe(0);
+        expect(validated.stdout).toContain(`credential.id: ${user.json().id}`);
+        expect(validated.stdout).toContain(`ip_address: ${ip_address}`);
+    });
+
+    it('should change a password', async () => {
+        const options = connection();
+        const user = await magicauth(['credential', 'create', ...options, '--json'], {
+            MAGICAUTH_PASSWORD: password,
+        });
+
+        const result = await magicauth(
+            ['credential', 'password', user.json().id, ...options, '--json'],
+            { MAGICAUTH_CURRENT_PASSWORD: password, MAGICAUTH_NEW_PASSWORD: 'N3w-Passw0rd!' }
+        );
+
+        expect(result.status).toBe(0);
+        expect(result.json().id).toBe(user.json().id);
+    });
+
+    it('should report API errors with exit status 1', async () => {
+        const options = connection();
+
+        const result = await magicauth([
+            'session',
+            'validate',
+            'unknown-session',
+            '--ip',
+            ip_address,
+            '--user-agent',
+            user_agent,
+            ...options,
+            '--json',
+        ]);
+
+        expect(result.status).toBe(1);
+        expect(JSON.parse(result.stderr)).toMatchObject({ error: 'NotFoundError', status: 404 });
+    });
+
+    it('should report other errors without a stack trace', async () => {
+        const out = join(directory, 'missing', 'collection.json');
+
+        const result = await magicauth([
+            'collection',
+            'create',
+            '--base-url',
+            server.url,
+            '--out',
+            out,
+        ]);
+
+        expect(result.status).toBe(1);
+        expect(result.stderr).toMatch(/^Error: ENOENT/);
+        expect(result.stderr).not.toContain('    at ');
+    });
+}
+
+function compare_tests() {
+    it('should compare user agents', async () => {
+        const newer = user_agent.replace('81.0.4044.129', '120.0.0.0');
+
+        const result = await magicauth(['compare', 'user-agents', newer, user_agent, '--json']);
+        const strict = await magicauth([
+            'compare',
+            'user-agents',
+            newer,
+            user_agent,
+            '--version',
+            'exact',
+        ]);
+
+        expect(result.status).toBe(0);
+        expect(result.json().match).toBe(true);
+        expect(strict.status).toBe(1);
+        expect(strict.stdout).toContain('match: false');
+    });
+
+    it('should compare IP addresses', async () => {
+        const exact = await magicauth(['compare', 'ip-addresses', '1.2.3.4', '1.2.3.5']);
+        const subnet = await magicauth([
+            'compare',
+            'ip-addresses',
+            '1.2.3.4',
+            '1.2.3.5',
+            '--ipv4-prefix',
+            '24',
+            '--json',
+        ]);
+
+        expect(exact.status).toBe(1);
+        expect(subnet.json()).toEqual({ match: true, reason: 'subnet' });
+    });
+
+    it('should exit with status 2 on usage errors', async () => {
+        expect((await magicauth([])).status).toBe(2);
+        expect((await magicauth(['session', 'create', 'id'])).status).toBe(2);
+        expect((await magicauth(['compare', 'ip-addresses', '1.2.3.4', '--bogus'])).status).toBe(2);
+        expect(
+            (await magicauth(['compare', 'user-agents', 'a', 'b', '--fields', 'cpu,colour'])).status
+        ).toBe(2);
+        expect((await magicauth(['--help'])).stdout).toContain('Usage: magicauth');
+    });
+}
+
+describe('CLI', () => {
+    beforeAll(async () => {
+        server = await MockMagicAuthServer.start();
+        directory = await mkdtemp(join(tmpdir(), 'magicauth-cli-'));
+    });
+    afterAll(async () => {
+        await server.close();
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    describe('Collections', collection_tests);
+    describe('Sessions', session_tests);
+    describe('Compare', compare_tests);
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { compare } from '../../dist/index.js';
+import type { IPPolicy } from '../../dist/index.js';
+
+const chrome_linux_ua =
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+const chrome_linux_old_ua =
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/81.0.4044.129 Safari/537.36';
+const chrome_android_ua =
+    'Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36';
+const safari_mac_ua =
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15';
+const firefox_mac_ua =
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:125.0) Gecko/20100101 Firefox/125.0';
+
+function default_tests() {
+    it('should not bypass private session IPs without a policy', () => {
+        expect(compare.ipAddressMatch('95.107.167.200', '192.168.1.1')).toEqual({
+            match: false,
+            reason: 'mismatch',
+        });
+    });
+
+    it('should report exact matches and mismatches', () => {
+        expect(compare.ipAddressMatch('95.107.167.200', '95.107.167.200').reason).toBe('exact');
+        expect(compare.ipAddressMatch('95.107.167.200', '95.107.167.201')).toEqual({
+            match: false,
+            reason: 'mismatch',
+        });
+    });
+
+    it('should normalize IPv4-mapped IPv6 addresses', () => {
+        expect(compare.ipAddresses('::ffff:95.107.167.200', '95.107.167.200')).toBe(true);
+    });
+
+    it('should report invalid addresses', () => {
+        expect(compare.ipAddressMatch('invalid', '8.8.8.8')).toEqual({
+            match: false,
+            reason: 'invalid',
+        });
+    });
+}
+
+function policy_tests() {
+    it('should not bypass private session IPs unless opted in', () => {
+        expect(compare.ipAddresses('95.107.167.200', '192.168.1.1', {})).toBe(false);
+        expect(compare.ipAddresses('95.107.167.200', '192.168.1.1', { private_bypass: true })).toBe(
+            true
+        );
+    });
+
+    it('should match within the IPv4 subnet tolerance', () => {
+        const policy: IPPolicy = { ipv4_prefix: 24 };
+
+        expect(compare.ipAddressMatch('95.107.167.12', '95.107.167.200', policy)).toEqual({
+            match: true,
+            reason: 'subnet',
+        });
+        expect(compare.ipAddresses('95.107.168.12', '95.107.167.200', policy)).toBe(false);
+    });
+
+    it('should match within the IPv6 subnet tolerance', () => {
+        const policy: IPPolicy = { ipv6_prefix: 56 };
+
+        expect(compare.ipAddresses('2001:db8:0:ff::1', '2001:db8:0:1::1', policy)).toBe(true);
+        expect(compare.ipAddresses('2001:db8:0:100::1', '2001:db8:0:1::1', policy)).toBe(false);
+    });
+
+    it('should not match across address families', () => {
+        const policy: IPPolicy = { ipv4_prefix: 0, ipv6_prefix: 0 };
+
+        expect(compare.ipAddresses('2001:db8::1', '95.107.167.200', policy)).toBe(false);
+    });
+
+    it('should accept allowed request IPs', () => {
+        const policy: IPPolicy = { allow: ['203.0.113.0/24'] };
+
+        expect(compare.ipAddressMatch('203.0.113.7', '95.107.167.200', policy)).toEqual({
+            match: true,
+            reason: 'allowed',
+        });
+    });
+
+    it('should reject denied request IPs before anything else', () => {
+        const policy: IPPolicy = { deny: ['95.107.167.0/24'], allow: ['95.107.0.0/16'] };
+
+        expect(compare.ipAddressMatch('95.107.167.200', '95.107.167.200', policy)).toEqual({
+            match: false,
+            reason: 'denied',
+        });
+    });
+
+    it('should reject invalid policies', () => {
+        expect(() => compare.ipAddresses('8.8.8.8', '8.8.8.8', { ipv4_prefix: 33 })).toThrow(
+            TypeError
+        );
+        expect(() => compare.ipAddresses('8.8.8.8', '8.8.8.8', { deny: ['nope'] })).toThrow(
+            TypeError
+        );
+    });
+}
+
+function user_agent_tests() {
+    it('should score and list differing fields', () => {
+        const result = compare.userAgentMatch(safari_mac_ua, firefox_mac_ua, {
+            fields: ['os', 'browser', 'engine'],
+        });
+
+        expect(result.match).toBe(false);
+        expect(result.differences).toEqual(['browser', 'engine']);
+        expect(result.score).toBeCloseTo(1 / 3);
+    });
+
+    it('should report fields neither side reveals', () => {
+        const result = compare.userAgentMatch(safari_mac_ua, safari_mac_ua);
+
+        expect(result).toEqual({ match: true, score: 1, differences: [], unknown: ['cpu'] });
+        expect(compare.userAgents(safari_mac_ua, safari_mac_ua, { allow_unknown: false })).toBe(
+            false
+        );
+    });
+
+    it('should compare device type', () => {
+        const result = compare.userAgentMatch(chrome_android_ua, chrome_linux_ua, {
+            fields: ['browser', 'device_type'],
+        });
+
+        expect(result.differences).toEqual(['device_type']);
+    });
+
+    it('should allow upgrades and flag downgrades', () => {
+        expect(
+            compare.userAgents(chrome_linux_ua, chrome_linux_old_ua, { version: 'monotonic' })
+        ).toBe(true);
+        expect(
+            compare.userAgentMatch(chrome_linux_old_ua, chrome_linux_ua, { version: 'monotonic' })
+                .differences
+        ).toEqual(['version']);
+        expect(compare.userAgents(chrome_linux_ua, chrome_linux_old_ua, { version: 'exact' })).toBe(
+            false
+        );
+    });
+
+    it('should accept Client Hints headers', () => {
+        const hints = {
+            'user-agent': chrome_linux_ua,
+            'sec-ch-ua': '"Chromium";v="124", "Google Chrome";v="124", "Not-A.Brand";v="99"',
+            'sec-ch-ua-mobile': '?0',
+            'sec-ch-ua-platform': '"Linux"',
+            'sec-ch-ua-arch': '"x86"',
+            'sec-ch-ua-bitness': '"64"',
+        };
+        const result = compare.userAgentMatch(hints, chrome_linux_ua, {
+            fields: ['cpu', 'os', 'browser', 'engine', 'device_type'],
+            version: 'exact',
+        });
+
+        expect(result.differences).toEqual([]);
+        expect(result.match).toBe(true);
+    });
+
+    it('should prefer Client Hints over a reduced User-Agent string', () => {
+        const headers = new Headers({
+            'User-Agent': chrome_linux_ua,
+            'Sec-CH-UA': '"Not A(Brand";v="8", "Chromium";v="120", "Microsoft Edge";v="120"',
+            'Sec-CH-UA-Platform': '"Windows"',
+        });
+        const result = compare.userAgentMatch(headers, chrome_linux_ua);
+
+        expect(result.differences).toEqual(['os', 'browser']);
+    });
+}
+
+describe('User Agent Comparison', user_agent_tests);
+
+describe('IP Address Comparison', () => {
+    describe('Default Rules', default_tests);
+    describe('Policies', policy_tests);
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { inspect } from 'node:util';
+import { Collection, config, type SdkLogger } from '../../dist/index.js';
+
+const session_id = '5Vx5aVjL8twCcuhnzOfo4bmGTpb-l8UexFXE305ITdQ=';
+const credential_id = 'Auth_U1-ZYkmQi66wrerQ7UgkorBwquhQF0G9EAFzz8=';
+const default_base_url = config.API_BASE_URL;
+
+/**
+ * fetch replacement that records requests and answers with a valid session
+ */
+function recording_fetch(requests: Request[]): typeof fetch {
+    return (async (input: string | URL | Request, init?: RequestInit) => {
+        requests.push(new Request(input, init));
+        return new Response(JSON.stringify({ id: session_id, credential: { id: credential_id } }));
+    }) as typeof fetch;
+}
+
+function instance_tests() {
+    it('should use per-instance base URL, headers and user agent tag', async () => {
+        const requests: Request[] = [];
+        const magicauth = new Collection('collection-id', 'access-key', {
+            base_url: 'https://staging.magicauth.test',
+            headers: { 'X-Request-Source': 'tests' },
+            user_agent: 'my-app/1.2',
+            transport: { fetch: recording_fetch(requests) },
+        });
+
+        await magicauth.validate(session_id, '95.107.167.200', 'Mozilla/5.0');
+
+        const request = requests[0];
+        expect(request.url.startsWith('https://staging.magicauth.test/sessions/')).toBe(true);
+        expect(request.headers.get('Authorization')).toBe('Authentic access-key');
+        expect(request.headers.get('X-Request-Source')).toBe('tests');
+        expect(request.headers.get('User-Agent')).toBe('my-app/1.2 magicauth-sdk');
+    });
+
+    it('should keep instances independent', async () => {
+        const production_requests: Request[] = [];
+        const staging_requests: Request[] = [];
+        const production = new Collection('production-id', 'production-key', {
+            base_url: 'https://vault.magicauth.test',
+            transport: { fetch: recording_fetch(production_requests) },
+        });
+        const staging = new Collection('staging-id', 'staging-key', {
+            base_url: 'https://staging.magicauth.test',
+            transport: { fetch: recording_fetch(staging_requests) },
+        });
+
+        await production.validate(session_id, '95.107.167.200', 'Mozilla/5.0');
+        await staging.validate(session_id, '95.107.167.200', 'Mozilla/5.0');
+
+        expect(new URL(production_requests[0].url).host).toBe('vault.magicauth.test');
+        expect(new URL(staging_requests[0].url).host).toBe('staging.magicauth.test');
+        expect(staging_requests[0].headers.get('Authorization')).toBe('Authentic staging-key');
+    });
+
+    it('should use a per-instance logger', async () => {
+        const lines: string[] = [];
+        const logger = {
+            debug: (message: string) => lines.push(message),
+            info: () => {},
+            warn: () => {},
+            error: () => {},
+        };
+        const magicauth = new Collection('collection-id', 'access-key', {
+            logger,
+            transport: { fetch: recording_fetch([]) },
+        });
+
+        await magicauth.validate(session_id, '95.107.167.200', 'Mozilla/5.0');
+
+        expect(lines.length).toBeGreaterThan(0);
+    });
+}
+
+function fallback_tests() {
+    afterEach(() => {
+        config.API_BASE_URL = default_base_url;
+        config.transport = {};
+    });
+
+    it('should fall back to the global config', async () => {
+        const requests: Request[] = [];
+        config.API_BASE_URL = 'https://fallback.magicauth.test';
+        config.transport = { fetch: recording_fetch(requests) };
+
+        const magicauth = new Collection('collection-id', 'access-key');
+        await magicauth.validate(session_id, '95.107.167.200', 'Mozilla/5.0');
+
+        expect(new URL(requests[0].url).host).toBe('fallback.magicauth.test');
+    });
+
+    it('should pass options to Collection.create', async () => {
+        const requests: Request[] = [];
+        const fetch_collection = (async (input: string | URL | Request, init?: RequestInit) => {
+            requests.push(new Request(input, init));
+            return new Response(
+                JSON.stringify({
+                    id: 'collection-id',
+                    access_key: { id: 'key-id', key: 'access-key', created: Date.now() },
+                    created: Date.now(),
+                    rate_limiting: {
+                        credentials_created: 10,
+                        credentials_updated: 10,
+                        sessions_created: 100,
+                    },
+                })
+            );
+        }) as typeof fetch;
+
+        const collection = await Collection.create({
+            base_url: 'https://staging.magicauth.test',
+            transport: { fetch: fetch_collection },
+        });
+
+        expect(collection.id).toBe('collection-id');
+        expect(requests[0].url).toBe('https://staging.magicauth.test/collections');
+    });
+}
+
+/**
+ * Logger recording every call as JSON
+ */
+function recording_logger(lines: string[]): SdkLogger {
+    const record =
+        (level: string) =>
+        (...args: unknown[]) =>
+            lines.push(JSON.stringify([level, ...args]));
+    return {
+        debug: record('debug'),
+        info: record('info'),
+        warn: record('warn'),
+        error: record('error'),
+    };
+}
+
+function logging_tests() {
+    it('should redact session IDs, access keys and IP addresses', async () => {
+        const lines: string[] = [];
+        const magicauth = new Collection('collection-id', 'access-key', {
+            logger: recording_logger(lines),
+            transport: { fetch: recording_fetch([]) },
+        });
+
+        await magicauth.validate(session_id, '95.107.167.200', 'Mozilla/5.0');
+        magicauth.log.debug('Request failed: %s', {
+            url: `https://magicauth.test/sessions/${session_id}`,
+            headers: { Authorization: 'Authentic access-key' },
+            password: 'Passw0rd!',
+            ip_address: '95.107.167.200',
+        });
+
+        const output = lines.join('\n');
+        expect(lines.length).toBeGreaterThan(1);
+        expect(output).not.toContain(session_id);
+        expect(output).not.toContain('access-key');
+        expect(output).not.toContain('Passw0rd!');
+        expect(output).not.toContain('95.107.167.200');
+        expect(output).toContain('95.107.167.0/24');
+    });
+
+    it('should redact error messages and causes', () => {
+        const logged: unknown[] = [];
+        const magicauth = new Collection('collection-id', 'access-key', {
+            logger: { ...recording_logger([]), error: (...args) => logged.push(...args) },
+        });
+        const cause = new Error(`GET https://magicauth.test/sessions/${session_id} failed`);
+        const error = Object.assign(new TypeError('Authentic access-key was refused', { cause }), {
+            response: { password: 'Passw0rd!' },
+        });
+
+        magicauth.log.error('Request failed: %s', error);
+
+        const [, redacted] = logged as [string, TypeError];
+        expect(redacted).toBeInstanceOf(TypeError);
+        expect(redacted.message).toBe('Authentic [redacted] was refused');
+        expect(inspect(redacted, { depth: 4 })).not.toMatch(/access-key|Passw0rd!/);
+        expect(inspect(redacted.cause)).not.toContain(session_id);
+        expect(error.message).toBe('Authentic access-key was refused');
+    });
+
+    it('should apply the per-instance log level', async () => {
+        const lines: string[] = [];
+        const magicauth = new Collection('collection-id', 'access-key', {
+            logger: recording_logger(lines),
+            log_level: 'warn',
+            transport: { fetch: recording_fetch([]) },
+        });
+
+        await magicauth.validate(session_id, '95.107.167.200', 'Mozilla/5.0');
+        magicauth.log.warn('Something happened');
+
+        expect(lines).toEqual(['["warn","Something happened"]']);
+    });
+
+    it('should hide the access key when serialized or inspected', () => {
+        const magicauth = new Collection('collection-id', 'access-key');
+
+        expect(JSON.stringify(magicauth)).not.toContain('access-key');
+        expect(JSON.parse(JSON.stringify(magicauth)).collection_id).toBe('collection-id');
+        expect(inspect(magicauth)).not.toContain('access-key');
+        expect(inspect(magicauth.api)).not.toContain('access-key');
+        expect(JSON.stringify({ api: magicauth.api })).not.toContain('access-key');
+    });
+}
+
+describe('Client Configuration', () => {
+    describe('Per-instance Options', instance_tests);
+    describe('Global Fallback', fallback_tests);
+    describe('Logging', logging_tests);
+});
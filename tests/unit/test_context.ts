@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { extractContext, sessionMiddleware, Collection } from '../../dist/index.js';
+import type { ContextRequest } from '../../dist/index.js';
+
+const user_agent = 'Mozilla/5.0 (X11; Linux x86_64)';
+
+/**
+ * Node-style request from the given peer address and headers
+ */
+function node_request(remoteAddress: string, headers: Record<string, string> = {}): ContextRequest {
+    return {
+        headers: { 'user-agent': user_agent, ...headers },
+        socket: { remoteAddress },
+    };
+}
+
+function node_tests() {
+    it('should use the peer address without trusted proxies', () => {
+        const context = extractContext(
+            node_request('95.107.167.200', { 'x-forwarded-for': '1.2.3.4' })
+        );
+
+        expect(context).toEqual({ ip_address: '95.107.167.200', user_agent });
+    });
+
+    it('should skip trusted proxies right to left', () => {
+        const request = node_request('10.0.0.2', {
+            'x-forwarded-for': '1.2.3.4, 95.107.167.200, 10.0.0.1',
+        });
+        const context = extractContext(request, { trustedProxies: ['10.0.0.0/8'] });
+
+        expect(context.ip_address).toBe('95.107.167.200');
+    });
+
+    it('should normalize IPv4-mapped IPv6 addresses', () => {
+        const request = node_request('::ffff:10.0.0.2', {
+            'x-forwarded-for': '::ffff:95.107.167.200',
+        });
+        const context = extractContext(request, { trustedProxies: ['private'] });
+
+        expect(context.ip_address).toBe('95.107.167.200');
+    });
+
+    it('should only walk the configured header', () => {
+        const request = node_request('127.0.0.1', {
+            forwarded: 'for=95.107.167.200;proto=https, for="[2001:db8::1]:4711"',
+            'x-forwarded-for': '1.2.3.4',
+        });
+
+        expect(extractContext(request, { trustedProxies: ['loopback'] }).ip_address).toBe(
+            '1.2.3.4'
+        );
+        expect(
+            extractContext(request, { trustedProxies: ['loopback'], forwardedHeader: 'forwarded' })
+                .ip_address
+        ).toBe('2001:db8::1');
+    });
+
+    it('should ignore a Forwarded header passed through by the proxy', () => {
+        const request = node_request('127.0.0.1', {
+            forwarded: 'for=6.6.6.6',
+            'x-forwarded-for': '95.107.167.200',
+        });
+        const context = extractContext(request, { trustedProxies: ['loopback'] });
+
+        expect(context.ip_address).toBe('95.107.167.200');
+    });
+
+    it('should read X-Real-IP when configured', () => {
+        const request = node_request('127.0.0.1', { 'x-real-ip': '95.107.167.200' });
+        const context = extractContext(request, {
+            trustedProxies: ['loopback'],
+            forwardedHeader: 'x-real-ip',
+        });
+
+        expect(context.ip_address).toBe('95.107.167.200');
+    });
+
+    it('should stop at an unparsable hop', () => {
+        const request = node_request('10.0.0.2', {
+            'x-forwarded-for': '1.2.3.4, unknown, 10.0.0.1',
+        });
+        const context = extractContext(request, { trustedProxies: ['10.0.0.0/8'] });
+
+        expect(context.ip_address).toBe('10.0.0.1');
+    });
+
+    it('should accept a trust predicate', () => {
+        const request = node_request('203.0.113.9', { 'x-forwarded-for': '95.107.167.200' });
+        const context = extractContext(request, {
+            trustedProxies: (ip_address) => ip_address === '203.0.113.9',
+        });
+
+        expect(context.ip_address).toBe('95.107.167.200');
+    });
+
+    it('should reject invalid trusted proxy entries', () => {
+        expect(() =>
+            extractContext(node_request('127.0.0.1'), { trustedProxies: ['not-a-cidr'] })
+        ).toThrow(TypeError);
+    });
+}
+
+function fetch_tests() {
+    it('should ignore forwarding headers without a peer address', () => {
+        const request = new Request('https://example.com/', {
+            headers: {
+                'User-Agent': user_agent,
+                'X-Forwarded-For': '6.6.6.6',
+            },
+        });
+        const context = extractContext(request, { trustedProxies: ['loopback'] });
+
+        expect(context).toEqual({ ip_address: '', user_agent });
+    });
+
+    it('should walk the header from a trusted peer address', () => {
+        const request = new Request('https://example.com/', {
+            headers: { 'X-Forwarded-For': '1.2.3.4, 95.107.167.200' },
+        });
+        const context = extractContext(request, {
+            remoteAddress: '127.0.0.1',
+            trustedProxies: ['loopback'],
+        });
+
+        expect(context.ip_address).toBe('95.107.167.200');
+    });
+
+    it('should use the given peer address', () => {
+        const request = new Request('https://example.com/', {
+            headers: { 'X-Forwarded-For': '95.107.167.200' },
+        });
+        const context = extractContext(request, { remoteAddress: '203.0.113.9' });
+
+        expect(context.ip_address).toBe('203.0.113.9');
+    });
+}
+
+function middleware_tests() {
+    it('should use trusted proxies in the session middleware', async () => {
+        const requests: Request[] = [];
+        const collection = new Collection('collection-id', 'access-key', {
+            transport: {
+                retries: 0,
+                fetch: (async (input: string | URL | Request, init?: RequestInit) => {
+                    requests.push(new Request(input, init));
+                    return new Response(
+                        JSON.stringify({ id: 'session-id', credential: { id: 'credential-id' } })
+                    );
+                }) as typeof fetch,
+            },
+        });
+        const middleware = sessionMiddleware(collection, { trustedProxies: ['loopback'] });
+
+        await middleware(
+            {
+                ...node_request('127.0.0.1', {
+                    'x-forwarded-for': '95.107.167.200',
+                    cookie: 'session_id=session-id',
+                }),
+                ip: '127.0.0.1',
+            } as Parameters<typeof middleware>[0],
+            { statusCode: 200, setHeader: () => {}, getHeader: () => undefined, end: () => {} },
+            () => {}
+        );
+
+        expect(new URL(requests[0].url).searchParams.get('ip_address')).toBe('95.107.167.200');
+    });
+}
+
+describe('Client Context', () => {
+    describe('Node Requests', node_tests);
+    describe('Fetch API Requests', fetch_tests);
+    describe('Middleware', middleware_tests);
+});
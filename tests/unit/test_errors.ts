@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+    MagicAuthError,
+    AuthenticationError,
+    SessionExpiredError,
+    ContextMismatchError,
+    NotFoundError,
+    UnauthorizedAccessKeyError,
+    RateLimitedError,
+    NetworkError,
+} from '../../dist/index.js';
+
+function mapping_tests() {
+    it('should map wrong password to AuthenticationError', () => {
+        const error = MagicAuthError.fromResponse({
+            status: 401,
+            error: 'Unauthorized',
+            message: 'Invalid password',
+        });
+
+        expect(error).toBeInstanceOf(AuthenticationError);
+        expect(error).toBeInstanceOf(MagicAuthError);
+        expect(error).toBeInstanceOf(Error);
+    });
+
+    it('should map expired session to SessionExpiredError', () => {
+        const error = MagicAuthError.fromResponse({
+            status: 401,
+            error: 'Unauthorized',
+            message: 'Session has expired',
+        });
+
+        expect(error).toBeInstanceOf(SessionExpiredError);
+    });
+
+    it('should map IP/UA mismatch to ContextMismatchError', () => {
+        const ip_error = MagicAuthError.fromResponse({
+            status: 403,
+            error: 'Forbidden',
+            message: 'IP address does not match session',
+        });
+        const ua_error = MagicAuthError.fromResponse({
+            status: 403,
+            error: 'Forbidden',
+            message: 'User agent does not match session',
+        });
+
+        expect(ip_error).toBeInstanceOf(ContextMismatchError);
+        expect(ua_error).toBeInstanceOf(ContextMismatchError);
+    });
+
+    it('should map missing resources to NotFoundError', () => {
+        const error = MagicAuthError.fromResponse({
+            status: 404,
+            error: 'Not Found',
+            message: 'No credential with ID Auth_U1-abc',
+        });
+
+        expect(error).toBeInstanceOf(NotFoundError);
+    });
+
+    it('should map bad access key to UnauthorizedAccessKeyError', () => {
+        const error = MagicAuthError.fromResponse({
+            status: 401,
+            error: 'Unauthorized',
+            message: 'Invalid access key',
+        });
+
+        expect(error).toBeInstanceOf(UnauthorizedAccessKeyError);
+    });
+
+    it('should map rate limiting to RateLimitedError', () => {
+        const error = MagicAuthError.fromResponse({
+            status: 429,
+            error: 'Too Many Requests',
+            message: 'Slow down',
+        });
+
+        expect(error).toBeInstanceOf(RateLimitedError);
+    });
+
+    it('should map an expired access key to UnauthorizedAccessKeyError', () => {
+        const error = MagicAuthError.fromResponse({
+            status: 401,
+            error: 'Unauthorized',
+            message: 'Access key has expired',
+        });
+
+        expect(error).toBeInstanceOf(UnauthorizedAccessKeyError);
+    });
+
+    it('should keep validation errors generic whatever field they name', () => {
+        for (const message of [
+            'Invalid ip_address',
+            'Missing required field: password',
+            'Password is too long',
+            'user_agent must be a string',
+            'expires_at has expired',
+        ]) {
+            const error = MagicAuthError.fromResponse({
+                status: 400,
+                error: 'Bad Request',
+                message,
+            });
+
+            expect(error.constructor).toBe(MagicAuthError);
+        }
+    });
+
+    it('should fall back to MagicAuthError for unknown failures', () => {
+        const error = MagicAuthError.fromResponse({
+            status: 500,
+            error: 'Internal Server Error',
+            message: 'Something broke',
+        });
+
+        expect(error.constructor).toBe(MagicAuthError);
+    });
+}
+
+function field_tests() {
+    it('should keep raw response fields', () => {
+        const response = {
+            status: 401,
+            error: 'Unauthorized',
+            message: 'Invalid password',
+            extra: true,
+        };
+        const error = MagicAuthError.fromResponse(response);
+
+        expect(error.status).toBe(401);
+        expect(error.error).toBe('Unauthorized');
+        expect(error.api_message).toBe('Invalid password');
+        expect(error.response).toBe(response);
+        expect(error.name).toBe('AuthenticationError');
+    });
+
+    it('should keep the legacy message format', () => {
+        const error = MagicAuthError.fromResponse({
+            status: 401,
+            error: 'Unauthorized',
+            message: 'Invalid password',
+        });
+
+        expect(error.message).toBe('401 Unauthorized: Invalid password');
+    });
+
+    it('should wrap transport failures in NetworkError', () => {
+        const cause = new TypeError('fetch failed');
+        const error = new NetworkError(cause);
+
+        expect(error).toBeInstanceOf(MagicAuthError);
+        expect(error.cause).toBe(cause);
+        expect(error.message).toBe('Network error: fetch failed');
+    });
+}
+
+describe('Error Types', () => {
+    describe('Response Mapping', mapping_tests);
+    describe('Error Fields', field_tests);
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+    AuthenticationError,
+    BruteForceGuard,
+    LockedOutError,
+    MemoryStore,
+    NotFoundError,
+    type BruteForceGuardOptions,
+} from '../../dist/index.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
+
+const password = 'Passw0rd!';
+const ip_address = '95.107.167.200';
+const user_agent = 'Mozilla/5.0 (X11; Linux x86_64)';
+
+let server: MockMagicAuthServer;
+
+/**
+ * Guarded collection (without progressive delays unless asked) plus a user
+ */
+async function setup(options: BruteForceGuardOptions = {}) {
+    const magicauth = server.collection();
+    const guard = new BruteForceGuard(magicauth, { delay: 0, ...options });
+    const user = await magicauth.user(password);
+    return { magicauth, guard, user };
+}
+
+/**
+ * Error of a call that must fail
+ */
+async function fail(promise: Promise<unknown>): Promise<LockedOutError> {
+    return promise.then(
+        () => {
+            throw new Error('Expected the call to fail');
+        },
+        (error: LockedOutError) => error
+    );
+}
+
+function credential_tests() {
+    it('should lock a credential after repeated wrong passwords', async () => {
+        const { guard, user } = await setup({ max_attempts: 3 });
+
+        for (let attempt = 0; attempt < 3; attempt++) {
+            const error = await fail(guard.session(user.id, 'wrong', ip_address, user_agent));
+            expect(error).toBeInstanceOf(AuthenticationError);
+        }
+        const error = await fail(guard.session(user.id, password, ip_address, user_agent));
+
+        expect(error).toBeInstanceOf(LockedOutError);
+        expect(error.scope).toBe('credential');
+        expect(error.retry_after).toBeGreaterThan(14 * 60_000);
+    });
+
+    it('should clear the credential count on success', async () => {
+        const { guard, user } = await setup({ max_attempts: 3 });
+
+        await fail(guard.session(user.id, 'wrong', ip_address, user_agent));
+        await fail(guard.session(user.id, 'wrong', ip_address, user_agent));
+        await guard.session(user.id, password, ip_address, user_agent);
+
+        const state = await guard.status(user.id);
+        expect(state).toMatchObject({ locked: false, remaining_attempts: 3 });
+    });
+
+    it('should count wrong current passwords', async () => {
+        const { guard, user } = await setup({ max_attempts: 1 });
+
+        await fail(guard.update_password(user.id, 'wrong', 'N3w-Passw0rd!'));
+
+        await expect(guard.update_password(user.id, password, 'N3w-Passw0rd!')).rejects.toThrow(
+            LockedOutError
+        );
+    });
+
+    it('should count wrong passwords when re-authenticating', async () => {
+        const { magicauth, guard, user } = await setup({ max_attempts: 2 });
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        const context = { ip_address, user_agent };
+
+        await fail(guard.reauthenticate(session.id, 'wrong', context));
+        await fail(guard.reauthenticate(session.id, 'wrong', context));
+        const error = await fail(guard.reauthenticate(session.id, password, context));
+
+        expect(error).toBeInstanceOf(LockedOutError);
+        expect(error.scope).toBe('credential');
+    });
+
+    it('should validate the session once when re-authenticating', async () => {
+        const { magicauth, guard, user } = await setup();
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        const before = server.requests.length;
+
+        await guard.reauthenticate(session.id, password, { ip_address, user_agent });
+
+        const validations = server.requests
+            .slice(before)
+            .filter((request) => request.method === 'GET' && request.path.startsWith('/sessions/'));
+        expect(validations).toHaveLength(1);
+    });
+
+    it('should allow attempts again after the lockout', async () => {
+        const { guard, user } = await setup({ max_attempts: 1, lockout: 20 });
+
+        await fail(guard.session(user.id, 'wrong', ip_address, user_agent));
+        await new Promise((resolve) => setTimeout(resolve, 30));
+
+        const session = await guard.session(user.id, password, ip_address, user_agent);
+        expect(session.id).toBeTruthy();
+    });
+}
+
+function ip_address_tests() {
+    it('should lock an address spraying many credentials', async () => {
+        const { guard, user } = await setup({ max_ip_attempts: 3 });
+
+        for (let attempt = 0; attempt < 3; attempt++) {
+            const error = await fail(
+                guard.session(`Auth_unknown-${attempt}`, password, ip_address, user_agent)
+            );
+            expect(error).toBeInstanceOf(NotFoundError);
+        }
+        const error = await fail(guard.session(user.id, password, ip_address, user_agent));
+
+        expect(error).toBeInstanceOf(LockedOutError);
+        expect(error.scope).toBe('ip_address');
+        await guard.session(user.id, password, '203.0.113.9', user_agent);
+    });
+
+    it('should count IPv6 addresses per network', async () => {
+        const { guard, user } = await setup({ max_ip_attempts: 2 });
+
+        await fail(guard.session('Auth_unknown-1', password, '2001:db8:1:2::1', user_agent));
+        await fail(guard.session('Auth_unknown-2', password, '2001:db8:1:2::ffff', user_agent));
+
+        await expect(
+            guard.session(user.id, password, '2001:db8:1:2:aaaa::1', user_agent)
+        ).rejects.toThrow(LockedOutError);
+        await guard.session(user.id, password, '2001:db8:1:3::1', user_agent);
+    });
+
+    it('should reset counters on request', async () => {
+        const { guard, user } = await setup({ max_attempts: 1, max_ip_attempts: 1 });
+
+        await fail(guard.session(user.id, 'wrong', ip_address, user_agent));
+        await guard.reset(user.id, ip_address);
+
+        expect((await guard.status(user.id, ip_address)).locked).toBe(false);
+    });
+}
+
+function delay_tests() {
+    it('should delay attempts progressively', async () => {
+        const { guard, user } = await setup({ delay: 10, max_delay: 25 });
+
+        expect((await guard.status(user.id)).delay).toBe(0);
+        await fail(guard.session(user.id, 'wrong', ip_address, user_agent));
+        expect((await guard.status(user.id)).delay).toBe(10);
+        await fail(guard.session(user.id, 'wrong', ip_address, user_agent));
+        expect((await guard.status(user.id)).delay).toBe(20);
+        await fail(guard.session(user.id, 'wrong', ip_address, user_agent));
+        expect((await guard.status(user.id)).delay).toBe(25);
+
+        const started = Date.now();
+        await guard.session(user.id, password, ip_address, user_agent);
+        expect(Date.now() - started).toBeGreaterThanOrEqual(20);
+    });
+
+    it('should keep counters in the given store', async () => {
+        const store = new MemoryStore();
+        const { magicauth, user } = await setup();
+        const first = new BruteForceGuard(magicauth, { store, delay: 0, max_attempts: 1 });
+        const second = new BruteForceGuard(magicauth, { store, delay: 0, max_attempts: 1 });
+
+        await fail(first.session(user.id, 'wrong', ip_address, user_agent));
+
+        expect(await second.status(user.id)).toMatchObject({ locked: true, scope: 'credential' });
+    });
+}
+
+describe('Brute-force Guard', () => {
+    beforeAll(async () => {
+        server = await MockMagicAuthServer.start();
+    });
+    afterAll(async () => {
+        await server.close();
+    });
+
+    describe('Credentials', credential_tests);
+    describe('IP Addresses', ip_address_tests);
+    describe('Delays and Stores', delay_tests);
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+    InvalidCodeError,
+    LockedOutError,
+    MemoryStore,
+    NotFoundError,
+    SecondFactorRequiredError,
+    totpCode,
+    totpUri,
+    verifyTotp,
+} from '../../dist/index.js';
+import type { MfaOptions } from '../../dist/index.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
+
+const password = 'Passw0rd!';
+const ip_address = '95.107.167.200';
+const user_agent = 'Mozilla/5.0 (X11; Linux x86_64)';
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890"
+const rfc_secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+let server: MockMagicAuthServer;
+
+function totp_tests() {
+    it('should match the RFC 6238 test vectors', async () => {
+        expect(await totpCode(rfc_secret, { time: 59_000, digits: 8 })).toBe('94287082');
+        expect(await totpCode(rfc_secret, { time: 1111111109_000, digits: 8 })).toBe('07081804');
+        expect(await totpCode(rfc_secret, { time: 20000000000_000, digits: 8 })).toBe('65353130');
+    });
+
+    it('should accept codes within the clock skew window', async () => {
+        const time = 1111111109_000;
+        const previous = await totpCode(rfc_secret, { time: time - 30_000 });
+        const stale = await totpCode(rfc_secret, { time: time - 60_000 });
+
+        expect(await verifyTotp(rfc_secret, previous, { time })).toBe(37037035);
+        expect(await verifyTotp(rfc_secret, stale, { time })).toBeNull();
+        expect(await verifyTotp(rfc_secret, stale, { time, window: 2 })).toBe(37037034);
+    });
+
+    it('should build otpauth URIs', () => {
+        const uri = new URL(totpUri(rfc_secret, 'user@example.com', 'Example Co'));
+
+        expect(uri.protocol).toBe('otpauth:');
+        expect(uri.host).toBe('totp');
+        expect(decodeURIComponent(uri.pathname)).toBe('/Example Co:user@example.com');
+        expect(uri.searchParams.get('secret')).toBe(rfc_secret);
+        expect(uri.searchParams.get('issuer')).toBe('Example Co');
+        expect(uri.searchParams.get('digits')).toBe('6');
+    });
+}
+
+async function enrolled(options: Partial<MfaOptions> = {}) {
+    const magicauth = server.collection({
+        mfa: { store: new MemoryStore(), issuer: 'Example', ...options },
+    });
+    const user = await magicauth.user(password);
+    const { secret } = await magicauth.mfa!.enroll(user.id, 'user@example.com');
+    // Confirm with the previous period's code so sign ins can use the current one
+    const recovery_codes = await magicauth.mfa!.confirm(
+        user.id,
+        await totpCode(secret, { time: Date.now() - 30_000 })
+    );
+    return { magicauth, user, secret, recovery_codes };
+}
+
+function second_factor_tests() {
+    it('should keep sessions pending until a code is verified', async () => {
+        const { magicauth, user, secret } = await enrolled();
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+
+        expect(session.second_factor).toBe('pending');
+        await expect(magicauth.validate(session.id, ip_address, user_agent)).rejects.toThrow(
+            SecondFactorRequiredError
+        );
+
+        const verified = await magicauth.verify_second_factor(
+            session.id,
+            await totpCode(secret),
+            ip_address,
+            user_agent
+        );
+        const validated = await magicauth.validate(session.id, ip_address, user_agent);
+
+        expect(verified.second_factor).toBe('verified');
+        expect(validated.second_factor).toBe('verified');
+    });
+
+    it('should not require a second factor for credentials without one', async () => {
+        const magicauth = server.collection({
+            mfa: { store: new MemoryStore(), issuer: 'Example' },
+        });
+        const user = await magicauth.user(password);
+        await magicauth.mfa!.enroll(user.id, 'user@example.com');
+
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+
+        expect(session.second_factor).toBeUndefined();
+        expect((await magicauth.validate(session.id, ip_address, user_agent)).id).toBe(session.id);
+    });
+
+    it('should reject replayed codes', async () => {
+        const { magicauth, user, secret } = await enrolled();
+        const first = await magicauth.session(user.id, password, ip_address, user_agent);
+        const second = await magicauth.session(user.id, password, ip_address, user_agent);
+        const code = await totpCode(secret);
+
+        await magicauth.verify_second_factor(first.id, code, ip_address, user_agent);
+        const error = await magicauth
+            .verify_second_factor(second.id, code, ip_address, user_agent)
+            .catch((error) => error);
+
+        expect(error).toBeInstanceOf(InvalidCodeError);
+        expect(error.remaining_attempts).toBe(4);
+    });
+
+    it('should accept each recovery code once', async () => {
+        const { magicauth, user, recovery_codes } = await enrolled();
+        const first = await magicauth.session(user.id, password, ip_address, user_agent);
+        const second = await magicauth.session(user.id, password, ip_address, user_agent);
+
+        expect(recovery_codes).toHaveLength(10);
+        await magicauth.verify_second_factor(
+            first.id,
+            recovery_codes[0].toUpperCase(),
+            ip_address,
+            user_agent
+        );
+        await expect(
+            magicauth.verify_second_factor(second.id, recovery_codes[0], ip_address, user_agent)
+        ).rejects.toThrow(InvalidCodeError);
+        expect(await magicauth.mfa!.status(user.id)).toEqual({
+            enrolled: true,
+            confirmed: true,
+            recovery_codes: 9,
+        });
+    });
+
+    it('should archive the session after too many wrong codes', async () => {
+        const { magicauth, user } = await enrolled();
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+
+        for (let attempt = 0; attempt < 5; attempt++) {
+            await expect(
+                magicauth.verify_second_factor(session.id, '000000', ip_address, user_agent)
+            ).rejects.toThrow(InvalidCodeError);
+        }
+        await expect(
+            magicauth.verify_second_factor(session.id, '000000', ip_address, user_agent)
+        ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should lock the credential after wrong codes across sessions', async () => {
+        const { magicauth, user, secret } = await enrolled({
+            max_attempts: 2,
+            max_credential_attempts: 3,
+        });
+
+        for (let attempt = 0; attempt < 3; attempt++) {
+            const session = await magicauth.session(user.id, password, ip_address, user_agent);
+            await expect(
+                magicauth.verify_second_factor(session.id, '000000', ip_address, user_agent)
+            ).rejects.toThrow(InvalidCodeError);
+        }
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        const error = await magicauth
+            .verify_second_factor(session.id, await totpCode(secret), ip_address, user_agent)
+            .catch((error) => error);
+
+        expect(error).toBeInstanceOf(LockedOutError);
+        expect(error.scope).toBe('credential');
+        expect(error.retry_after).toBeGreaterThan(14 * 60_000);
+    });
+
+    it('should keep used codes when moving the second factor', async () => {
+        const { magicauth, user, secret } = await enrolled();
+        const code = await totpCode(secret);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        await magicauth.verify_second_factor(session.id, code, ip_address, user_agent);
+
+        const replaced = await magicauth.user(password);
+        await magicauth.mfa!.move(user.id, replaced.id);
+        const moved = await magicauth.session(replaced.id, password, ip_address, user_agent);
+
+        expect(moved.second_factor).toBe('pending');
+        await expect(
+            magicauth.verify_second_factor(moved.id, code, ip_address, user_agent)
+        ).rejects.toThrow(InvalidCodeError);
+        expect(await magicauth.mfa!.status(user.id)).toMatchObject({ enrolled: false });
+    });
+
+    it('should keep the verification when rotating the session', async () => {
+        const { magicauth, user, secret } = await enrolled();
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        await magicauth.verify_second_factor(
+            session.id,
+            await totpCode(secret),
+            ip_address,
+            user_agent
+        );
+
+        const rotated = await magicauth.rotate_session(
+            session.id,
+            password,
+            ip_address,
+            user_agent
+        );
+
+        expect(rotated.second_factor).toBe('verified');
+        expect((await magicauth.validate(rotated.id, ip_address, user_agent)).id).toBe(rotated.id);
+    });
+}
+
+describe('Second Factor', () => {
+    beforeAll(async () => {
+        server = await MockMagicAuthServer.start();
+    });
+    afterAll(async () => {
+        await server.close();
+    });
+
+    describe('TOTP', totp_tests);
+    describe('Collection', second_factor_tests);
+});
@@ -0,0 +1,313 @@
+import { describe, it, expect } from 'vitest';
+import {
+    Collection,
+    MemoryStore,
+    SecondFactor,
+    Session,
+    sessionMiddleware,
+    sessionPlugin,
+    issueSessionCookie,
+    clearSessionCookie,
+    totpCode,
+} from '../../dist/index.js';
+import type { CollectionOptions, MiddlewareRequest } from '../../dist/index.js';
+
+const session_id = '5Vx5aVjL8twCcuhnzOfo4bmGTpb-l8UexFXE305ITdQ=';
+const credential_id = 'Auth_U1-ZYkmQi66wrerQ7UgkorBwquhQF0G9EAFzz8=';
+const user_agent = 'Mozilla/5.0 (X11; Linux x86_64)';
+
+/**
+ * Collection whose API answers every request with the given status and body
+ */
+function collection(
+    status: number,
+    body: unknown,
+    requests: Request[] = [],
+    options: CollectionOptions = {}
+) {
+    return new Collection('collection-id', 'access-key', {
+        ...options,
+        transport: {
+            retries: 0,
+            fetch: (async (input: string | URL | Request, init?: RequestInit) => {
+                requests.push(new Request(input, init));
+                return new Response(JSON.stringify(body), { status });
+            }) as typeof fetch,
+        },
+    });
+}
+
+const valid_session = { id: session_id, credential: { id: credential_id } };
+
+/**
+ * Collection whose valid session belongs to a credential with a confirmed second factor
+ */
+async function pending_collection() {
+    const options = { store: new MemoryStore(), issuer: 'Example' };
+    const mfa = new SecondFactor(options);
+    const { secret } = await mfa.enroll(credential_id, 'user@example.com');
+    await mfa.confirm(credential_id, await totpCode(secret));
+    return collection(200, valid_session, [], { mfa: options });
+}
+
+class MockResponse {
+    statusCode = 200;
+    headers: Record<string, unknown> = {};
+    body?: string;
+
+    setHeader(name: string, value: unknown) {
+        this.headers[name.toLowerCase()] = value;
+    }
+    getHeader(name: string) {
+        return this.headers[name.toLowerCase()];
+    }
+    end(body?: string) {
+        this.body = body;
+    }
+}
+
+function request(cookie?: string): MiddlewareRequest {
+    return {
+        headers: {
+            'user-agent': user_agent,
+            ...(cookie ? { cookie } : {}),
+        },
+        ip: '95.107.167.200',
+    };
+}
+
+async function run(middleware: ReturnType<typeof sessionMiddleware>, req: MiddlewareRequest) {
+    const res = new MockResponse();
+    let next_called = false;
+    let next_error: unknown;
+    await middleware(req, res, (error?: unknown) => {
+        next_called = true;
+        next_error = error;
+    });
+    return { res, next_called, next_error };
+}
+
+function middleware_tests() {
+    it('should attach the session and credential id', async () => {
+        const requests: Request[] = [];
+        const middleware = sessionMiddleware(collection(200, valid_session, requests));
+        const req = request(`theme=dark; session_id=${encodeURIComponent(session_id)}`);
+        const { next_called } = await run(middleware, req);
+
+        expect(next_called).toBe(true);
+        expect(req.magicauth?.credential_id).toBe(credential_id);
+        expect(req.magicauth?.session.id).toBe(session_id);
+
+        const url = new URL(requests[0].url);
+        expect(url.searchParams.get('ip_address')).toBe('95.107.167.200');
+        expect(url.searchParams.get('user_agent')).toBe(user_agent);
+    });
+
+    it('should resolve the application user', async () => {
+        const middleware = sessionMiddleware(collection(200, valid_session), {
+            user: async (id) => ({ email: 'user@example.com', magicauth_id: id }),
+        });
+        const req = request(`session_id=${session_id}`);
+        await run(middleware, req);
+
+        expect(req.magicauth?.user).toEqual({
+            email: 'user@example.com',
+            magicauth_id: credential_id,
+        });
+    });
+
+    it('should respond 401 without a session cookie', async () => {
+        const middleware = sessionMiddleware(collection(200, valid_session));
+        const { res, next_called } = await run(middleware, request());
+
+        expect(next_called).toBe(false);
+        expect(res.statusCode).toBe(401);
+    });
+
+    it('should continue without a session cookie when optional', async () => {
+        const middleware = sessionMiddleware(collection(200, valid_session), { optional: true });
+        const req = request();
+        const { next_called } = await run(middleware, req);
+
+        expect(next_called).toBe(true);
+        expect(req.magicauth).toBeNull();
+    });
+
+    it('should respond 401 and clear the cookie for an expired session', async () => {
+        const middleware = sessionMiddleware(
+            collection(401, { status: 401, error: 'Unauthorized', message: 'Session expired' })
+        );
+        const { res, next_called } = await run(middleware, request(`session_id=${session_id}`));
+
+        expect(next_called).toBe(false);
+        expect(res.statusCode).toBe(401);
+        expect(String(res.getHeader('Set-Cookie'))).toContain('Max-Age=0');
+    });
+
+    it('should respond 401 when the user lookup finds nobody', async () => {
+        const middleware = sessionMiddleware(collection(200, valid_session), {
+            user: async () => null,
+        });
+        const { res } = await run(middleware, request(`session_id=${session_id}`));
+
+        expect(res.statusCode).toBe(401);
+    });
+
+    it('should pass service outages to next without clearing the cookie', async () => {
+        const middleware = sessionMiddleware(
+            collection(500, { status: 500, error: 'Internal Server Error', message: 'Oops' })
+        );
+        const { res, next_error } = await run(middleware, request(`session_id=${session_id}`));
+
+        expect(next_error).toBeInstanceOf(Error);
+        expect(res.getHeader('Set-Cookie')).toBeUndefined();
+    });
+
+    it('should route sessions pending a second factor without clearing the cookie', async () => {
+        const pending = await pending_collection();
+        const cookie = `session_id=${session_id}`;
+
+        const blocked = await run(sessionMiddleware(pending), request(cookie));
+        const redirected = await run(
+            sessionMiddleware(pending, { second_factor: '/login/code' }),
+            request(cookie)
+        );
+        const req = request(cookie);
+        const passed = await run(sessionMiddleware(pending, { optional: true }), req);
+
+        expect(blocked.res.statusCode).toBe(403);
+        expect(JSON.parse(blocked.res.body!)).toEqual({ error: 'Second factor required' });
+        expect(redirected.res.statusCode).toBe(303);
+        expect(redirected.res.getHeader('Location')).toBe('/login/code');
+        expect(passed.next_called).toBe(true);
+        expect(req.magicauth).toBeNull();
+        for (const { res } of [blocked, redirected, passed]) {
+            expect(res.getHeader('Set-Cookie')).toBeUndefined();
+        }
+    });
+
+    it('should renew sessions that are due and reissue the cookie', async () => {
+        const hour = 60 * 60 * 1000;
+        const aging = (created: number) => ({
+            ...valid_session,
+            created: new Date(created).toISOString(),
+            expires: new Date(created + 24 * hour).toISOString(),
+        });
+        const fresh: Request[] = [];
+        const due: Request[] = [];
+
+        await run(
+            sessionMiddleware(collection(200, aging(Date.now() - hour), fresh), { renew: true }),
+            request(`session_id=${session_id}`)
+        );
+        const { res, next_called } = await run(
+            sessionMiddleware(collection(200, aging(Date.now() - 20 * hour), due), {
+                renew: true,
+            }),
+            request(`session_id=${session_id}`)
+        );
+
+        expect(fresh.map((request) => request.method)).toEqual(['GET']);
+        expect(due.map((request) => request.method)).toEqual(['GET', 'PUT']);
+        expect(next_called).toBe(true);
+        expect(String(res.getHeader('Set-Cookie'))).toContain('session_id=');
+    });
+}
+
+type FastifyInstance = Parameters<ReturnType<typeof sessionPlugin>>[0];
+type PreHandler = Parameters<FastifyInstance['addHook']>[1];
+type FastifyReply = Parameters<PreHandler>[1];
+
+async function register(plugin: ReturnType<typeof sessionPlugin>): Promise<PreHandler[]> {
+    const hooks: PreHandler[] = [];
+    await plugin({
+        decorateRequest: () => {},
+        addHook: (_name, hook) => hooks.push(hook),
+    });
+    return hooks;
+}
+
+function fastify_tests() {
+    it('should register a preHandler hook', async () => {
+        const hooks = await register(sessionPlugin(collection(200, valid_session)));
+
+        const req = request(`session_id=${session_id}`);
+        await hooks[0](req, {} as FastifyReply);
+
+        expect(req.magicauth?.credential_id).toBe(credential_id);
+    });
+
+    it('should skip Fastify encapsulation like fastify-plugin', () => {
+        const plugin = sessionPlugin(collection(200, valid_session));
+
+        expect(Reflect.get(plugin, Symbol.for('skip-override'))).toBe(true);
+    });
+
+    it('should reply 403 to sessions pending a second factor', async () => {
+        const hooks = await register(sessionPlugin(await pending_collection()));
+
+        let status: number | undefined;
+        const reply: FastifyReply = {
+            code(code: number) {
+                status = code;
+                return reply;
+            },
+            header: () => {},
+            send: () => {},
+        };
+        await hooks[0](request(`session_id=${session_id}`), reply);
+
+        expect(status).toBe(403);
+    });
+
+    it('should reply 401 without a session cookie', async () => {
+        const hooks = await register(sessionPlugin(collection(200, valid_session)));
+
+        let status: number | undefined;
+        const reply: FastifyReply = {
+            code(code: number) {
+                status = code;
+                return reply;
+            },
+            header: () => {},
+            send: () => {},
+        };
+        await hooks[0](request(), reply);
+
+        expect(status).toBe(401);
+    });
+}
+
+function cookie_tests() {
+    it('should issue a cookie with secure defaults', () => {
+        const res = new MockResponse();
+        const expires = new Date(Date.now() + 3600_000).toISOString();
+        issueSessionCookie(
+            res,
+            new Session({ id: session_id, credential: { id: credential_id }, expires })
+        );
+
+        const cookie = (res.getHeader('Set-Cookie') as string[])[0];
+        expect(cookie).toContain(`session_id=${encodeURIComponent(session_id)}`);
+        expect(cookie).toContain('HttpOnly');
+        expect(cookie).toContain('Secure');
+        expect(cookie).toContain('SameSite=Strict');
+        expect(cookie).toMatch(/Max-Age=(3600|359\d);/);
+    });
+
+    it('should keep previously set cookies', () => {
+        const res = new MockResponse();
+        res.setHeader('Set-Cookie', 'theme=dark');
+        clearSessionCookie(res, { name: 'sid' });
+
+        const cookies = res.getHeader('Set-Cookie') as string[];
+        expect(cookies[0]).toBe('theme=dark');
+        expect(cookies[1]).toMatch(/^sid=; Path=\/; Max-Age=0/);
+    });
+}
+
+describe('Middleware', () => {
+    describe('Express/Connect', middleware_tests);
+    describe('Fastify', fastify_tests);
+    describe('Session Cookie', cookie_tests);
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+    AuthenticationError,
+    NetworkError,
+    PasswordPolicyError,
+    importCredentials,
+    lazyMigration,
+    type ImportRecord,
+    type ImportResult,
+} from '../../dist/index.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
+
+const ip_address = '95.107.167.200';
+const user_agent = 'Mozilla/5.0 (X11; Linux x86_64)';
+
+let server: MockMagicAuthServer;
+
+function records(count: number): ImportRecord<number>[] {
+    return Array.from({ length: count }, (_, index) => ({
+        key: index + 1,
+        password: `Passw0rd-${index + 1}`,
+    }));
+}
+
+function created(): number {
+    return server.requests.filter(
+        (request) => request.method === 'POST' && request.path.endsWith('/credentials')
+    ).length;
+}
+
+function import_tests() {
+    it('should create a credential per record', async () => {
+        const magicauth = server.collection();
+        const results: ImportResult<number>[] = [];
+
+        const summary = await importCredentials(magicauth, records(6), {
+            concurrency: 3,
+            on_result: (result) => {
+                results.push(result);
+            },
+        });
+
+        expect(summary).toEqual({ created: 6, failed: 0, position: 6 });
+        expect(results.map((result) => result.key).sort()).toEqual([1, 2, 3, 4, 5, 6]);
+        const third = results.find((result) => result.key === 3);
+        expect(third?.ok && third.credential_id).toMatch(/^Auth_U1-/);
+        if (third?.ok) {
+            const session = await magicauth.session(
+                third.credential_id,
+                'Passw0rd-3',
+                ip_address,
+                user_agent
+            );
+            expect(session.credential.id).toBe(third.credential_id);
+        }
+    });
+
+    it('should read async iterables', async () => {
+        async function* generate() {
+            yield* records(3);
+        }
+
+        const summary = await importCredentials(server.collection(), generate());
+
+        expect(summary.created).toBe(3);
+    });
+
+    it('should report failed records and continue', async () => {
+        const magicauth = server.collection({ password_policy: { min_length: 8 } });
+        const failures: ImportResult<string>[] = [];
+
+        const summary = await importCredentials(
+            magicauth,
+            [
+                { key: 'alice', password: 'short' },
+                { key: 'bob', password: 'Long-Passw0rd!' },
+            ],
+            {
+                on_result: (result) => {
+                    if (!result.ok) failures.push(result);
+                },
+            }
+        );
+
+        expect(summary).toMatchObject({ created: 1, failed: 1 });
+        expect(failures[0].key).toBe('alice');
+        expect(!failures[0].ok && failures[0].error).toBeInstanceOf(PasswordPolicyError);
+    });
+
+    it('should wait out the collection rate limit', async () => {
+        const magicauth = server.collection({
+            rate_limits: { limits: { credentials_created: 2 }, interval: 40 },
+        });
+
+        const summary = await importCredentials(magicauth, records(5), { concurrency: 5 });
+
+        expect(summary).toMatchObject({ created: 5, failed: 0 });
+    });
+
+    it('should retry records refused by the API rate limit', async () => {
+        const magicauth = server.collection();
+        server.inject_fault({ method: 'POST', status: 429, retry_after: 0, times: 2 });
+
+        const summary = await importCredentials(magicauth, records(3), { rate_limit: 100 });
+
+        expect(summary).toMatchObject({ created: 3, failed: 0 });
+    });
+}
+
+function checkpoint_tests() {
+    it('should report checkpoints in order', async () => {
+        const checkpoints: number[] = [];
+
+        await importCredentials(server.collection(), records(8), {
+            concurrency: 4,
+            on_checkpoint: (position) => {
+                checkpoints.push(position);
+            },
+        });
+
+        expect(checkpoints).toEqual([...checkpoints].sort((a, b) => a - b));
+        expect(checkpoints.at(-1)).toBe(8);
+    });
+
+    it('should resume from a checkpoint', async () => {
+        const before = created();
+        const keys: number[] = [];
+
+        const summary = await importCredentials(server.collection(), records(5), {
+            start: 3,
+            on_result: (result) => {
+                keys.push(result.key);
+            },
+        });
+
+        expect(summary).toEqual({ created: 2, failed: 0, position: 5 });
+        expect(keys.sort()).toEqual([4, 5]);
+        expect(created() - before).toBe(2);
+    });
+
+    it('should stop starting records when aborted', async () => {
+        const controller = new AbortController();
+        let position = 0;
+
+        const error = await importCredentials(server.collection(), records(10), {
+            concurrency: 1,
+            signal: controller.signal,
+            on_result: () => controller.abort(),
+            on_checkpoint: (checkpoint) => {
+                position = checkpoint;
+            },
+        }).catch((error) => error);
+
+        expect(error).toBeInstanceOf(NetworkError);
+        expect(position).toBe(1);
+    });
+}
+
+type LegacyUser = { email: string; legacy_password?: string; magicauth_id?: string };
+
+function lazy_migration_tests() {
+    function sign_in_for() {
+        let legacy_checks = 0;
+        const sign_in = lazyMigration<LegacyUser>(server.collection(), {
+            credential_id: (user) => user.magicauth_id,
+            verify_legacy: (user, password) => {
+                legacy_checks += 1;
+                return user.legacy_password === password;
+            },
+            save_credential: (user, credential_id) => {
+                user.magicauth_id = credential_id;
+                delete user.legacy_password;
+            },
+        });
+        return { sign_in, legacy_checks: () => legacy_checks };
+    }
+
+    it('should migrate a legacy user on their first login', async () => {
+        const { sign_in, legacy_checks } = sign_in_for();
+        const user: LegacyUser = { email: 'user@example.com', legacy_password: 'Passw0rd!' };
+
+        const first = await sign_in(user, 'Passw0rd!', ip_address, user_agent);
+        const second = await sign_in(user, 'Passw0rd!', ip_address, user_agent);
+
+        expect(user.magicauth_id).toMatch(/^Auth_U1-/);
+        expect(user.legacy_password).toBeUndefined();
+        expect(first.credential.id).toBe(user.magicauth_id);
+        expect(second.credential.id).toBe(user.magicauth_id);
+        expect(legacy_checks()).toBe(1);
+    });
+
+    it('should migrate a proven password that breaks the password policy', async () => {
+        const violations: [LegacyUser, PasswordPolicyError][] = [];
+        const sign_in = lazyMigration<LegacyUser>(
+            server.collection({ password_policy: { min_length: 12 } }),
+            {
+                credential_id: (user) => user.magicauth_id,
+                verify_legacy: (user, password) => user.legacy_password === password,
+                save_credential: (user, credential_id) => {
+                    user.magicauth_id = credential_id;
+                },
+                on_policy_violation: (user, error) => {
+                    violations.push([user, error]);
+                },
+            }
+        );
+        const user: LegacyUser = { email: 'user@example.com', legacy_password: 'Passw0rd!' };
+
+        const first = await sign_in(user, 'Passw0rd!', ip_address, user_agent);
+        const second = await sign_in(user, 'Passw0rd!', ip_address, user_agent);
+
+        expect(first.credential.id).toBe(user.magicauth_id);
+        expect(second.credential.id).toBe(user.magicauth_id);
+        expect(violations).toHaveLength(1);
+        expect(violations[0][0]).toBe(user);
+        expect(violations[0][1].violations.map((violation) => violation.rule)).toEqual([
+            'min_length',
+        ]);
+    });
+
+    it('should not migrate on a wrong legacy password', async () => {
+        const { sign_in } = sign_in_for();
+        const user: LegacyUser = { email: 'user@example.com', legacy_password: 'Passw0rd!' };
+        const before = created();
+
+        await expect(sign_in(user, 'wrong', ip_address, user_agent)).rejects.toThrow(
+            AuthenticationError
+        );
+        expect(user.magicauth_id).toBeUndefined();
+        expect(created()).toBe(before);
+    });
+}
+
+describe('Migration', () => {
+    beforeAll(async () => {
+        server = await MockMagicAuthServer.start();
+    });
+    afterAll(async () => {
+        await server.close();
+    });
+
+    describe('Import', import_tests);
+    describe('Checkpoints', checkpoint_tests);
+    describe('Lazy Migration', lazy_migration_tests);
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import {
+    Collection,
+    AuthenticationError,
+    ContextMismatchError,
+    NotFoundError,
+    RateLimitedError,
+    SessionExpiredError,
+    TimeoutError,
+    UnauthorizedAccessKeyError,
+    MagicAuthError,
+} from '../../dist/index.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
+
+const password = 'Passw0rd!';
+const ip_address = '95.107.167.200';
+const user_agent =
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/81.0.4044.129 Safari/537.36';
+
+let server: MockMagicAuthServer;
+
+function api_tests() {
+    it('should create collections over HTTP', async () => {
+        const collection = await Collection.create({ base_url: server.url });
+
+        expect(collection.id).toBeTypeOf('string');
+        expect(collection.access_key.key).toBeTypeOf('string');
+        expect(collection.rate_limiting.sessions_created).toBeGreaterThan(0);
+    });
+
+    it('should create, validate and archive sessions', async () => {
+        const magicauth = server.collection();
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+
+        expect(user.id.slice(0, 8)).toBe('Auth_U1-');
+        expect(session.expires).toBeInstanceOf(Date);
+
+        const validated = await magicauth.validate(session.id, ip_address, user_agent);
+        expect(validated.credential.id).toBe(user.id);
+
+        await magicauth.archive_session(session.id, ip_address, user_agent);
+        await expect(magicauth.validate(session.id, ip_address, user_agent)).rejects.toThrow(
+            NotFoundError
+        );
+    });
+
+    it('should hash passwords and reject wrong ones', async () => {
+        const magicauth = server.collection();
+        const user = await magicauth.user(password);
+
+        await expect(magicauth.session(user.id, 'wrong', ip_address, user_agent)).rejects.toThrow(
+            AuthenticationError
+        );
+        await expect(magicauth.update_password(user.id, 'wrong', 'NewPass1!')).rejects.toThrow(
+            AuthenticationError
+        );
+
+        await magicauth.update_password(user.id, password, 'NewPass1!');
+        await expect(magicauth.session(user.id, password, ip_address, user_agent)).rejects.toThrow(
+            AuthenticationError
+        );
+    });
+
+    it('should bind sessions to IP address and User Agent', async () => {
+        const magicauth = server.collection();
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+
+        await expect(magicauth.validate(session.id, '8.8.8.8', user_agent)).rejects.toThrow(
+            ContextMismatchError
+        );
+        await expect(
+            magicauth.validate(
+                session.id,
+                ip_address,
+                'Mozilla/5.0 (Windows NT 10.0) Firefox/125.0'
+            )
+        ).rejects.toThrow(ContextMismatchError);
+    });
+
+    it('should expire sessions by the mock clock', async () => {
+        const magicauth = server.collection();
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+
+        server.clock.advance(24 * 60 * 60 * 1000);
+
+        await expect(magicauth.validate(session.id, ip_address, user_agent)).rejects.toThrow(
+            SessionExpiredError
+        );
+    });
+
+    it('should keep collections apart', async () => {
+        const first = server.collection();
+        const second = server.collection();
+        const user = await first.user(password);
+
+        await expect(second.credential(user.id)).rejects.toThrow(NotFoundError);
+        await expect(
+            new Collection('unknown', 'key', { base_url: server.url }).user(password)
+        ).rejects.toThrow(UnauthorizedAccessKeyError);
+    });
+
+    it('should name missing fields in a generic error', async () => {
+        const magicauth = server.collection();
+        const user = await magicauth.user(password);
+
+        const error = await magicauth
+            .session(user.id, password, undefined as unknown as string, user_agent)
+            .catch((error) => error);
+
+        expect(error.constructor).toBe(MagicAuthError);
+        expect(error).toMatchObject({
+            status: 400,
+            api_message: 'Missing required field: ip_address',
+            response: { field: 'ip_address' },
+        });
+    });
+}
+
+function fault_tests() {
+    afterEach(() => server.clear_faults());
+
+    it('should inject server errors', async () => {
+        const magicauth = server.collection();
+        server.inject_fault({ method: 'POST', path: '/collections/', status: 503, times: 1 });
+
+        await expect(magicauth.user(password)).rejects.toThrow(MagicAuthError);
+        expect((await magicauth.user(password)).id).toBeTypeOf('string');
+    });
+
+    it('should inject rate limits', async () => {
+        const magicauth = server.collection();
+        server.inject_fault({ status: 429, retry_after: 60 });
+
+        const error = await magicauth.user(password).catch((error) => error);
+        expect(error).toBeInstanceOf(RateLimitedError);
+        expect(server.requests.at(-1)?.path).toMatch(/\/credentials$/);
+    });
+
+    it('should inject latency', async () => {
+        const magicauth = server.collection({ transport: { timeout: 20 } });
+        const remove = server.inject_fault({ path: /^\/collections\/.+/, latency: 100 });
+
+        await expect(magicauth.user(password)).rejects.toThrow(TimeoutError);
+        remove();
+        expect((await magicauth.user(password)).id).toBeTypeOf('string');
+    });
+}
+
+describe('Mock MagicAuth Server', () => {
+    beforeAll(async () => {
+        server = await MockMagicAuthServer.start();
+    });
+    afterAll(async () => {
+        await server.close();
+    });
+
+    describe('API', api_tests);
+    describe('Fault Injection', fault_tests);
+});
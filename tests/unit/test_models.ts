@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { User, Session, InvalidResponseError } from '../../dist/index.js';
+
+const credential_id = 'Auth_U1-ZYkmQi66wrerQ7UgkorBwquhQF0G9EAFzz8=';
+const session_id = '5Vx5aVjL8twCcuhnzOfo4bmGTpb-l8UexFXE305ITdQ=';
+
+function user_tests() {
+    it('should read credential fields', () => {
+        const user = new User({
+            id: credential_id,
+            created: '2020-05-01T12:00:00.000Z',
+            last_used: null,
+            disabled: true,
+        });
+
+        expect(user.id).toBe(credential_id);
+        expect(user.created).toEqual(new Date('2020-05-01T12:00:00.000Z'));
+        expect(user.last_used).toBeNull();
+        expect(user.disabled).toBe(true);
+    });
+
+    it('should default optional fields', () => {
+        const user = new User({ id: credential_id });
+
+        expect(user.created).toBeUndefined();
+        expect(user.disabled).toBe(false);
+    });
+
+    it('should reject a response without id', () => {
+        expect(() => new User({})).toThrow(InvalidResponseError);
+        expect(() => new User({})).toThrow(
+            "Invalid User response: expected 'id' to be a non-empty string, got undefined"
+        );
+    });
+
+    it('should reject an invalid timestamp', () => {
+        expect(() => new User({ id: credential_id, created: 'yesterday' })).toThrow(
+            "expected 'created' to be a timestamp"
+        );
+    });
+}
+
+function session_tests() {
+    it('should read session fields', () => {
+        const session = new Session({
+            id: session_id,
+            credential: { id: credential_id },
+            created: 1588334400000,
+            expires: '2020-05-02T12:00:00.000Z',
+            ip_address: '95.107.167.200',
+            user_agent: 'Mozilla/5.0',
+        });
+
+        expect(session.id).toBe(session_id);
+        expect(session.credential.id).toBe(credential_id);
+        expect(session.created).toEqual(new Date(1588334400000));
+        expect(session.expires).toEqual(new Date('2020-05-02T12:00:00.000Z'));
+        expect(session.ip_address).toBe('95.107.167.200');
+        expect(session.user_agent).toBe('Mozilla/5.0');
+    });
+
+    it('should reject a session without credential', () => {
+        expect(() => new Session({ id: session_id })).toThrow(
+            "Invalid Session response: expected 'credential' to be an object, got undefined"
+        );
+        expect(() => new Session({ id: session_id, credential: {} })).toThrow(
+            "expected 'credential.id' to be a non-empty string"
+        );
+    });
+
+    it('should reject a non-object response', () => {
+        expect(() => new Session('<html>Bad Gateway</html>')).toThrow(InvalidResponseError);
+    });
+}
+
+describe('Response Models', () => {
+    describe('User', user_tests);
+    describe('Session', session_tests);
+});
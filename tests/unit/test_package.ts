@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { createRequire } from 'node:module';
+import { sep } from 'node:path';
+
+const require = createRequire(import.meta.url);
+
+type Sdk = typeof import('../../dist/index.js');
+type Testing = typeof import('../../dist/testing.js');
+
+const password = 'Passw0rd!';
+const ip_address = '95.107.167.200';
+const user_agent = 'Mozilla/5.0 (X11; Linux x86_64)';
+
+function commonjs_tests() {
+    it('should resolve require() to the CommonJS build', () => {
+        expect(require.resolve('@whi/magicauth-sdk')).toContain(`${sep}dist${sep}cjs${sep}`);
+        expect(require.resolve('@whi/magicauth-sdk/testing')).toContain(
+            `${sep}dist${sep}cjs${sep}`
+        );
+    });
+
+    it('should authenticate through the CommonJS build', async () => {
+        const {
+            Collection,
+            AuthenticationError,
+            checkPassword,
+        }: Sdk = require('@whi/magicauth-sdk');
+        const { MockMagicAuthServer }: Testing = require('@whi/magicauth-sdk/testing');
+        const server = await MockMagicAuthServer.start();
+        try {
+            const { id, access_key } = server.create_collection();
+            const magicauth = new Collection(id, access_key.key, { base_url: server.url });
+
+            const user = await magicauth.user(password);
+            const session = await magicauth.session(user.id, password, ip_address, user_agent);
+
+            expect((await magicauth.validate(session.id, ip_address, user_agent)).id).toBe(
+                session.id
+            );
+            await expect(
+                magicauth.session(user.id, 'wrong', ip_address, user_agent)
+            ).rejects.toThrow(AuthenticationError);
+            expect((await checkPassword('Password123')).valid).toBe(false);
+        } finally {
+            await server.close();
+        }
+    });
+}
+
+describe('Package', () => {
+    describe('CommonJS', commonjs_tests);
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createHash } from 'node:crypto';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { checkPassword, Collection, PasswordPolicyError } from '../../dist/index.js';
+
+const credential_id = 'Auth_U1-ZYkmQi66wrerQ7UgkorBwquhQF0G9EAFzz8=';
+
+let breached_hashes: string;
+
+function check_tests() {
+    it('should accept a password that meets the default policy', async () => {
+        const result = await checkPassword('correct horse battery');
+
+        expect(result).toMatchObject({ valid: true, violations: [] });
+        expect(result.strength).toBeGreaterThanOrEqual(3);
+    });
+
+    it('should list every violated rule', async () => {
+        const result = await checkPassword('abc', {
+            min_length: 8,
+            require_uppercase: true,
+            require_digit: true,
+            require_symbol: true,
+        });
+
+        expect(result.valid).toBe(false);
+        expect(result.violations.map((violation) => violation.rule)).toEqual([
+            'min_length',
+            'uppercase',
+            'digit',
+            'symbol',
+        ]);
+        expect(result.strength).toBe(0);
+    });
+
+    it('should reject common passwords regardless of case', async () => {
+        const result = await checkPassword('Password123');
+
+        expect(result.violations.map((violation) => violation.rule)).toEqual(['common']);
+        expect(result.strength).toBe(0);
+    });
+
+    it('should count characters rather than UTF-16 code units', async () => {
+        const result = await checkPassword('🔑🔑🔑🔑', { min_length: 5 });
+
+        expect(result.violations[0].message).toBe('Password must be at least 5 characters');
+    });
+
+    it('should reject reusing the current password', async () => {
+        const result = await checkPassword('N3w-Passw0rd!', undefined, {
+            current_password: 'N3w-Passw0rd!',
+        });
+
+        expect(result.violations.map((violation) => violation.rule)).toEqual(['reused']);
+    });
+
+    it('should find passwords in a local breached hash range', async () => {
+        const policy = { breached_hashes };
+
+        expect((await checkPassword('Tr0ub4dor&3', policy)).violations[0].rule).toBe('breached');
+        expect((await checkPassword('Tr0ub4dor&4', policy)).valid).toBe(true);
+    });
+}
+
+function collection_tests() {
+    it('should not send passwords that break the policy', async () => {
+        const requests: Request[] = [];
+        const magicauth = new Collection('collection-id', 'access-key', {
+            password_policy: { min_length: 12 },
+            transport: {
+                fetch: (async (input: string | URL | Request, init?: RequestInit) => {
+                    requests.push(new Request(input, init));
+                    return new Response(JSON.stringify({ id: credential_id }));
+                }) as typeof fetch,
+            },
+        });
+
+        const error = await magicauth.user('short').catch((error) => error);
+        expect(error).toBeInstanceOf(PasswordPolicyError);
+        expect(error.violations[0].rule).toBe('min_length');
+
+        await expect(
+            magicauth.update_password(credential_id, 'Long-Passw0rd!', 'Long-Passw0rd!')
+        ).rejects.toThrow('Password must differ from the current one');
+
+        await magicauth.user('Long-Passw0rd!');
+        expect(requests.length).toBe(1);
+    });
+}
+
+describe('Password Policy', () => {
+    beforeAll(async () => {
+        breached_hashes = await mkdtemp(join(tmpdir(), 'magicauth-breached-'));
+        const hash = createHash('sha1').update('Tr0ub4dor&3').digest('hex').toUpperCase();
+        await writeFile(
+            join(breached_hashes, `${hash.slice(0, 5)}.txt`),
+            `0018A45C4D1DEF81644B54AB7F969B88D65:3\r\n${hash.slice(5)}:42\r\n`
+        );
+    });
+    afterAll(async () => {
+        await rm(breached_hashes, { recursive: true, force: true });
+    });
+
+    describe('checkPassword', check_tests);
+    describe('Collection', collection_tests);
+});
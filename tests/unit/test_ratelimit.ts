@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+    Collection,
+    QuotaExceededError,
+    RateLimitedError,
+    NetworkError,
+    type RateLimitOptions,
+} from '../../dist/index.js';
+
+const credential_id = 'Auth_U1-ZYkmQi66wrerQ7UgkorBwquhQF0G9EAFzz8=';
+const session_id = '5Vx5aVjL8twCcuhnzOfo4bmGTpb-l8UexFXE305ITdQ=';
+const ip_address = '95.107.167.200';
+const user_agent = 'Mozilla/5.0 (X11; Linux x86_64)';
+
+/**
+ * Collection whose API answers with a session and the given status and headers
+ */
+function collection(
+    rate_limits: RateLimitOptions,
+    requests: Request[] = [],
+    status = 200,
+    headers: Record<string, string> = {}
+) {
+    return new Collection('collection-id', 'access-key', {
+        rate_limits,
+        transport: {
+            retries: 0,
+            fetch: (async (input: string | URL | Request, init?: RequestInit) => {
+                requests.push(new Request(input, init));
+                const body =
+                    status === 200
+                        ? { id: session_id }
+                        : { status, error: 'Too Many Requests', message: 'Rate limit exceeded' };
+                return new Response(JSON.stringify(body), { status, headers });
+            }) as typeof fetch,
+        },
+    });
+}
+
+function sign_in(magicauth: Collection, options = {}) {
+    return magicauth.session(credential_id, 'Passw0rd!', ip_address, user_agent, options);
+}
+
+function local_limit_tests() {
+    it('should reject calls over the limit without sending them', async () => {
+        const requests: Request[] = [];
+        const magicauth = collection({ limits: { sessions_created: 2 } }, requests);
+
+        await sign_in(magicauth);
+        await sign_in(magicauth);
+        const error = await sign_in(magicauth).catch((error) => error);
+
+        expect(error).toBeInstanceOf(QuotaExceededError);
+        expect(error).toBeInstanceOf(RateLimitedError);
+        expect(error.operation).toBe('sessions_created');
+        expect(error.retry_after).toBeGreaterThan(0);
+        expect(requests.length).toBe(2);
+    });
+
+    it('should track each operation separately', async () => {
+        const magicauth = collection({
+            limits: { sessions_created: 1, credentials_updated: 5 },
+        });
+
+        await sign_in(magicauth);
+        await magicauth.disable_credential(credential_id).catch(() => {});
+
+        const usage = magicauth.usage();
+        expect(usage.sessions_created?.remaining).toBe(0);
+        expect(usage.credentials_updated).toMatchObject({ limit: 5, remaining: 4 });
+        expect(usage.credentials_created).toBeUndefined();
+    });
+
+    it('should queue calls until capacity frees up', async () => {
+        const requests: Request[] = [];
+        const magicauth = collection(
+            { limits: { sessions_created: 1 }, interval: 50, on_limit: 'queue' },
+            requests
+        );
+
+        const started = Date.now();
+        await Promise.all([sign_in(magicauth), sign_in(magicauth)]);
+
+        expect(requests.length).toBe(2);
+        expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+    });
+
+    it('should reject queued calls that would wait longer than max_wait', async () => {
+        const magicauth = collection({
+            limits: { sessions_created: 1 },
+            on_limit: 'queue',
+            max_wait: 10,
+        });
+
+        await sign_in(magicauth);
+        await expect(sign_in(magicauth)).rejects.toThrow(QuotaExceededError);
+    });
+
+    it('should give capacity back when a queued call is aborted', async () => {
+        const magicauth = collection({
+            limits: { sessions_created: 1 },
+            interval: 1000,
+            on_limit: 'queue',
+        });
+        await sign_in(magicauth);
+
+        const controller = new AbortController();
+        const queued = sign_in(magicauth, { signal: controller.signal });
+        controller.abort();
+
+        await expect(queued).rejects.toThrow(NetworkError);
+        expect(magicauth.usage().sessions_created?.reset.getTime()).toBeLessThanOrEqual(
+            Date.now() + 1000
+        );
+    });
+}
+
+function header_tests() {
+    it('should stop when the server reports no remaining calls', async () => {
+        const requests: Request[] = [];
+        const magicauth = collection({ limits: { sessions_created: 100 } }, requests, 200, {
+            'RateLimit-Limit': '100',
+            'RateLimit-Remaining': '0',
+            'RateLimit-Reset': '30',
+        });
+
+        await sign_in(magicauth);
+        const error = await sign_in(magicauth).catch((error) => error);
+
+        expect(error).toBeInstanceOf(QuotaExceededError);
+        expect(error.retry_after).toBeGreaterThan(29_000);
+        expect(magicauth.usage().sessions_created?.remaining).toBe(0);
+        expect(requests.length).toBe(1);
+    });
+
+    it('should track operations only limited by the server', async () => {
+        const magicauth = collection({ limits: {} }, [], 200, {
+            'X-RateLimit-Limit': '10',
+            'X-RateLimit-Remaining': '4',
+        });
+
+        await sign_in(magicauth);
+
+        expect(magicauth.usage().sessions_created).toMatchObject({ limit: 10, remaining: 4 });
+    });
+
+    it('should honour Retry-After of a 429 response', async () => {
+        const requests: Request[] = [];
+        const magicauth = collection({ limits: { sessions_created: 100 } }, requests, 429, {
+            'Retry-After': '60',
+        });
+
+        await expect(sign_in(magicauth)).rejects.toThrow(RateLimitedError);
+        const error = await sign_in(magicauth).catch((error) => error);
+
+        expect(error).toBeInstanceOf(QuotaExceededError);
+        expect(requests.length).toBe(1);
+    });
+}
+
+describe('Rate Limiting', () => {
+    describe('Local Quotas', local_limit_tests);
+    describe('Rate-Limit Headers', header_tests);
+});
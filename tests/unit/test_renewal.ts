@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { MagicAuthError, NotFoundError, shouldRenew } from '../../dist/index.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
+
+const password = 'Passw0rd!';
+const ip_address = '95.107.167.200';
+const user_agent = 'Mozilla/5.0 (X11; Linux x86_64)';
+const hour = 60 * 60 * 1000;
+
+let server: MockMagicAuthServer;
+
+async function sign_in() {
+    const magicauth = server.collection();
+    const user = await magicauth.user(password);
+    const session = await magicauth.session(user.id, password, ip_address, user_agent);
+    return { magicauth, user, session };
+}
+
+function renewal_tests() {
+    it('should extend the session expiry', async () => {
+        const { magicauth, session } = await sign_in();
+        server.clock.advance(20 * hour);
+
+        const renewed = await magicauth.renew_session(session.id, ip_address, user_agent);
+        server.clock.advance(20 * hour);
+        const validated = await magicauth.validate(session.id, ip_address, user_agent);
+
+        expect(renewed.id).toBe(session.id);
+        expect(renewed.expires!.getTime() - session.expires!.getTime()).toBe(20 * hour);
+        expect(validated.expires).toEqual(renewed.expires);
+    });
+
+    it('should rotate the session id', async () => {
+        const { magicauth, user, session } = await sign_in();
+        await magicauth.update_password(user.id, password, 'N3w-Passw0rd!');
+
+        const rotated = await magicauth.rotate_session(
+            session.id,
+            'N3w-Passw0rd!',
+            ip_address,
+            user_agent
+        );
+
+        expect(rotated.id).not.toBe(session.id);
+        expect(rotated.credential.id).toBe(user.id);
+        await expect(magicauth.validate(session.id, ip_address, user_agent)).rejects.toThrow(
+            NotFoundError
+        );
+        expect((await magicauth.validate(rotated.id, ip_address, user_agent)).id).toBe(rotated.id);
+    });
+
+    it('should archive the new session if the old one cannot be archived', async () => {
+        const { magicauth, user, session } = await sign_in();
+        const remove = server.inject_fault({ method: 'DELETE', status: 500, times: 1 });
+
+        await expect(
+            magicauth.rotate_session(session.id, password, ip_address, user_agent)
+        ).rejects.toThrow(MagicAuthError);
+
+        remove();
+        const active = await magicauth.archive_sessions(user.id);
+        expect(active.map((session) => session.id)).toEqual([session.id]);
+    });
+}
+
+function should_renew_tests() {
+    const created = new Date('2026-01-01T00:00:00Z');
+    const expires = new Date(created.getTime() + 24 * hour);
+    const at = (hours: number) => created.getTime() + hours * hour;
+
+    it('should renew once less than half of the lifetime is left', () => {
+        expect(shouldRenew({ created, expires }, { now: at(11) })).toBe(false);
+        expect(shouldRenew({ created, expires }, { now: at(13) })).toBe(true);
+        expect(shouldRenew({ created, expires }, { now: at(13), threshold: 0.25 })).toBe(false);
+    });
+
+    it('should prefer an absolute remaining time', () => {
+        expect(shouldRenew({ created, expires }, { now: at(13), remaining: 2 * hour })).toBe(false);
+        expect(shouldRenew({ expires }, { now: at(23), remaining: 2 * hour })).toBe(true);
+        expect(shouldRenew({ expires }, { now: at(23), lifetime: 24 * hour })).toBe(true);
+    });
+
+    it('should never renew unknown or expired sessions', () => {
+        expect(shouldRenew({ expires }, { now: at(23) })).toBe(false);
+        expect(shouldRenew({ created }, { now: at(23) })).toBe(false);
+        expect(shouldRenew({ created, expires }, { now: at(25) })).toBe(false);
+    });
+}
+
+describe('Session Renewal', () => {
+    beforeAll(async () => {
+        server = await MockMagicAuthServer.start();
+    });
+    afterAll(async () => {
+        await server.close();
+    });
+
+    describe('Collection', renewal_tests);
+    describe('shouldRenew', should_renew_tests);
+});
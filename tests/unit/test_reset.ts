@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+    AuthenticationError,
+    InvalidTokenError,
+    MemoryStore,
+    NotFoundError,
+    SecondFactorRequiredError,
+    totpCode,
+} from '../../dist/index.js';
+import type { Collection, CollectionOptions } from '../../dist/index.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
+
+const password = 'Passw0rd!';
+const new_password = 'N3w-Passw0rd!';
+const secret = 'test-reset-secret-0123456789abcdef';
+const ip_address = '95.107.167.200';
+const user_agent = 'Mozilla/5.0 (X11; Linux x86_64)';
+
+let server: MockMagicAuthServer;
+
+/**
+ * Password reset options recording the credential replacements
+ */
+function reset_options(reset_secret = secret) {
+    const replaced: [string, string][] = [];
+    return {
+        replaced,
+        password_reset: {
+            secret: reset_secret,
+            on_credential_replaced: (previous_id: string, credential_id: string) => {
+                replaced.push([previous_id, credential_id]);
+            },
+        },
+    };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<InvalidTokenError> {
+    const error = await promise.catch((error) => error);
+    expect(error).toBeInstanceOf(InvalidTokenError);
+    return error as InvalidTokenError;
+}
+
+function reset_tests() {
+    let magicauth: Collection;
+    let replacements: [string, string][];
+
+    beforeAll(() => {
+        const { replaced, password_reset } = reset_options();
+        magicauth = server.collection({ password_reset });
+        replacements = replaced;
+    });
+
+    it('should replace the credential and archive its sessions', async () => {
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        const token = await magicauth.password_reset_token(user.id);
+
+        expect((await magicauth.verify_reset_token(token)).id).toBe(user.id);
+        const replaced = await magicauth.reset_password(token, new_password);
+
+        expect(replaced.id).not.toBe(user.id);
+        expect(replacements.at(-1)).toEqual([user.id, replaced.id]);
+        await expect(magicauth.validate(session.id, ip_address, user_agent)).rejects.toThrow(
+            NotFoundError
+        );
+        await expect(magicauth.credential(user.id)).rejects.toThrow(NotFoundError);
+        await expect(
+            magicauth.session(replaced.id, password, ip_address, user_agent)
+        ).rejects.toThrow(AuthenticationError);
+        expect(
+            (await magicauth.session(replaced.id, new_password, ip_address, user_agent)).credential
+                .id
+        ).toBe(replaced.id);
+    });
+
+    it('should accept a token only once', async () => {
+        const user = await magicauth.user(password);
+        const token = await magicauth.password_reset_token(user.id);
+        await magicauth.reset_password(token, new_password);
+
+        const error = await rejection(magicauth.reset_password(token, 'An0ther-Passw0rd!'));
+        expect(error.reason).toBe('revoked');
+    });
+
+    it('should create one credential for concurrent uses of a token', async () => {
+        const user = await magicauth.user(password);
+        const token = await magicauth.password_reset_token(user.id);
+        const before = replacements.length;
+
+        const results = await Promise.allSettled([
+            magicauth.reset_password(token, new_password),
+            magicauth.reset_password(token, 'An0ther-Passw0rd!'),
+        ]);
+
+        const fulfilled = results.filter((result) => result.status === 'fulfilled');
+        const rejected = results.filter((result) => result.status === 'rejected');
+        expect(fulfilled).toHaveLength(1);
+        expect(rejected).toHaveLength(1);
+        expect((rejected[0] as PromiseRejectedResult).reason).toBeInstanceOf(InvalidTokenError);
+        expect(replacements.slice(before)).toHaveLength(1);
+    });
+
+    it('should keep the old credential and the token if the new ID cannot be stored', async () => {
+        const failing = server.collection({
+            password_reset: {
+                secret,
+                on_credential_replaced: () => {
+                    throw new Error('database unavailable');
+                },
+            },
+        });
+        const user = await failing.user(password);
+        const token = await failing.password_reset_token(user.id);
+
+        await expect(failing.reset_password(token, new_password)).rejects.toThrow(
+            'database unavailable'
+        );
+        expect((await failing.verify_reset_token(token)).id).toBe(user.id);
+        expect(
+            (await failing.session(user.id, password, ip_address, user_agent)).credential.id
+        ).toBe(user.id);
+    });
+
+    it('should reject forged, altered and expired tokens', async () => {
+        const user = await magicauth.user(password);
+        const token = await magicauth.password_reset_token(user.id);
+        const other = server.collection(reset_options('another-reset-secret-0123456789abcdef'));
+        const [payload, signature] = token.split('.');
+        const altered = `${payload.slice(0, -2)}AA.${signature}`;
+        const expired = await magicauth.password_reset_token(user.id, { ttl: 0 });
+
+        expect((await rejection(other.verify_reset_token(token))).reason).toBe('signature');
+        expect((await rejection(magicauth.verify_reset_token(altered))).reason).toBe('signature');
+        expect((await rejection(magicauth.verify_reset_token('not-a-token'))).reason).toBe(
+            'malformed'
+        );
+        expect((await rejection(magicauth.verify_reset_token(expired))).reason).toBe('expired');
+    });
+
+    it('should refuse disabled credentials', async () => {
+        const user = await magicauth.user(password);
+        const token = await magicauth.password_reset_token(user.id);
+        await magicauth.disable_credential(user.id);
+
+        expect((await rejection(magicauth.reset_password(token, new_password))).reason).toBe(
+            'revoked'
+        );
+    });
+
+    it('should keep the second factor', async () => {
+        const mfa = server.collection({
+            ...reset_options(),
+            mfa: { store: new MemoryStore(), issuer: 'Example' },
+        });
+        const user = await mfa.user(password);
+        const { secret: totp_secret } = await mfa.mfa!.enroll(user.id, 'user@example.com');
+        await mfa.mfa!.confirm(user.id, await totpCode(totp_secret));
+
+        const replaced = await mfa.reset_password(
+            await mfa.password_reset_token(user.id),
+            new_password
+        );
+        const session = await mfa.session(replaced.id, new_password, ip_address, user_agent);
+
+        expect(session.second_factor).toBe('pending');
+        await expect(mfa.validate(session.id, ip_address, user_agent)).rejects.toThrow(
+            SecondFactorRequiredError
+        );
+    });
+
+    it('should require a long secret and a replacement callback', () => {
+        expect(() => server.collection(reset_options('short'))).toThrow(TypeError);
+        expect(() =>
+            server.collection({ password_reset: { secret } } as CollectionOptions)
+        ).toThrow('on_credential_replaced');
+    });
+}
+
+describe('Password Reset', () => {
+    beforeAll(async () => {
+        server = await MockMagicAuthServer.start();
+    });
+    afterAll(async () => {
+        await server.close();
+    });
+
+    describe('Collection', reset_tests);
+});
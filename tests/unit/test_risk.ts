@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AuthenticationError, InvalidResponseError, evaluateRisk } from '../../dist/index.js';
+import type { AuditEvent } from '../../dist/index.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
+
+const password = 'Passw0rd!';
+const ip_address = '95.107.167.200';
+const user_agent =
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const minute = 60 * 1000;
+
+let server: MockMagicAuthServer;
+
+function evaluate_risk_tests() {
+    const created = new Date('2026-01-01T00:00:00Z');
+    const session = { created, ip_address, user_agent };
+    const now = created.getTime() + 5 * minute;
+
+    it('should allow the context the session was created with', () => {
+        const assessment = evaluateRisk(session, { ip_address, user_agent, now });
+
+        expect(assessment.decision).toBe('allow');
+        expect(assessment.reasons).toEqual([]);
+        expect(assessment.age).toBe(5 * minute);
+        expect(assessment.ip_address?.match).toBe(true);
+    });
+
+    it('should require re-authentication for a changed context or old session', () => {
+        const moved = evaluateRisk(session, { ip_address: '95.107.168.1', user_agent, now });
+        const nearby = evaluateRisk(
+            session,
+            { ip_address: '95.107.167.1', user_agent, now },
+            { ip: { ipv4_prefix: 24 } }
+        );
+        const old = evaluateRisk(session, { ip_address, user_agent, now }, { max_age: minute });
+
+        expect(moved.decision).toBe('reauthenticate');
+        expect(moved.reasons).toEqual(['ip_address_changed']);
+        expect(nearby.decision).toBe('allow');
+        expect(old.reasons).toEqual(['session_age']);
+    });
+
+    it('should deny reasons listed in the policy', () => {
+        const denied = evaluateRisk(
+            session,
+            { ip_address: '203.0.113.9', user_agent, now },
+            { ip: { deny: ['203.0.113.0/24'] } }
+        );
+        const strict = evaluateRisk(
+            session,
+            { ip_address, user_agent: 'curl/8.0', now },
+            { deny: ['user_agent_changed'] }
+        );
+
+        expect(denied.decision).toBe('deny');
+        expect(denied.reasons).toEqual(['ip_address_denied']);
+        expect(strict.decision).toBe('deny');
+    });
+
+    it('should measure freshness from the last authentication', () => {
+        const policy = { fresh_for: 2 * minute };
+
+        expect(evaluateRisk(session, { ip_address, user_agent, now }, policy).reasons).toEqual([
+            'stale_authentication',
+        ]);
+        const authenticated_at = new Date(now - minute);
+        const fresh = evaluateRisk(
+            session,
+            { ip_address, user_agent, now, authenticated_at },
+            policy
+        );
+        expect(fresh.decision).toBe('allow');
+        expect(fresh.authenticated).toBe(minute);
+        expect(evaluateRisk({}, { ip_address, user_agent, now }, policy).decision).toBe(
+            'reauthenticate'
+        );
+    });
+}
+
+function reauthenticate_tests() {
+    const context = { ip_address, user_agent };
+    const policy = { fresh_for: 10 * minute };
+
+    it('should require re-authentication once the sign in is stale', async () => {
+        const magicauth = server.collection();
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+
+        const fresh = await magicauth.assess(
+            session.id,
+            { ...context, now: server.clock.now() },
+            policy
+        );
+        server.clock.advance(15 * minute);
+        const stale = await magicauth.assess(
+            session.id,
+            { ...context, now: server.clock.now() },
+            policy
+        );
+
+        expect(fresh.decision).toBe('allow');
+        expect(fresh.session.id).toBe(session.id);
+        expect(stale.decision).toBe('reauthenticate');
+        expect(stale.reasons).toEqual(['stale_authentication']);
+    });
+
+    it('should mark the session as freshly authenticated', async () => {
+        const events: AuditEvent[] = [];
+        const magicauth = server.collection({ audit: (event) => void events.push(event) });
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        server.clock.advance(15 * minute);
+
+        const reauthenticated = await magicauth.reauthenticate(session.id, password, context);
+        const assessment = await magicauth.assess(
+            session.id,
+            { ...context, now: server.clock.now() },
+            policy
+        );
+
+        expect(reauthenticated.id).toBe(session.id);
+        expect(assessment.decision).toBe('allow');
+        expect(assessment.authenticated).toBe(0);
+        expect(events.map((event) => event.type)).toContain('reauthenticated');
+        // The password check leaves no extra session behind
+        const active = await magicauth.archive_sessions(user.id);
+        expect(active.map((session) => session.id)).toEqual([session.id]);
+    });
+
+    it('should reject a wrong password without marking the session', async () => {
+        const magicauth = server.collection();
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        server.clock.advance(15 * minute);
+
+        await expect(magicauth.reauthenticate(session.id, 'wrong', context)).rejects.toThrow(
+            AuthenticationError
+        );
+        const assessment = await magicauth.assess(
+            session.id,
+            { ...context, now: server.clock.now() },
+            policy
+        );
+        expect(assessment.decision).toBe('reauthenticate');
+    });
+
+    it('should reject a password check that does not return a session', async () => {
+        let malformed = false;
+        const magicauth = server.collection({
+            transport: {
+                fetch: async (input, init) => {
+                    if (malformed && init?.method === 'POST') {
+                        return new Response(JSON.stringify({ created: 'soon' }));
+                    }
+                    return fetch(input, init);
+                },
+            },
+        });
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        const before = server.requests.length;
+        malformed = true;
+
+        await expect(magicauth.reauthenticate(session.id, password, context)).rejects.toThrow(
+            InvalidResponseError
+        );
+        expect(server.requests.slice(before).map((request) => request.method)).toEqual(['GET']);
+    });
+
+    it('should log a failed clean-up once the password is verified', async () => {
+        const warnings: unknown[][] = [];
+        const logger = {
+            debug: () => undefined,
+            info: () => undefined,
+            warn: (...args: unknown[]) => void warnings.push(args),
+            error: () => undefined,
+        };
+        const magicauth = server.collection({ logger });
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        const remove = server.inject_fault({ method: 'DELETE', status: 500, times: 1 });
+
+        const reauthenticated = await magicauth.reauthenticate(session.id, password, context);
+
+        remove();
+        expect(reauthenticated.id).toBe(session.id);
+        expect(warnings).toHaveLength(1);
+        expect(String(warnings[0][0])).toContain('re-authentication session failed');
+    });
+}
+
+describe('Risk Evaluation', () => {
+    beforeAll(async () => {
+        server = await MockMagicAuthServer.start();
+    });
+    afterAll(async () => {
+        await server.close();
+    });
+
+    describe('evaluateRisk', evaluate_risk_tests);
+    describe('Collection', reauthenticate_tests);
+});
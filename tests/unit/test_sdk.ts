@@ -1,10 +1,11 @@
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { Logger } from 'loganite';
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterAll } from 'vitest';
 import { readFileSync } from 'fs';
 import { Collection, compare } from '../../dist/index.js';
 import { config } from '../../dist/index.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
 
 const __filename = fileURLToPath(import.meta.url);
 
@@ -17,12 +18,16 @@ interface CollectionData {
     };
 }
 
-const collectionData: CollectionData = JSON.parse(
-    readFileSync(new URL('../collection.json', import.meta.url), 'utf-8')
-);
+// Runs against the in-process mock server unless MAGICAUTH_API_URL points at a live API, which
+// also needs tests/collection.json
+const server = process.env.MAGICAUTH_API_URL ? null : await MockMagicAuthServer.start();
+
+const collectionData: CollectionData = server
+    ? server.create_collection()
+    : JSON.parse(readFileSync(new URL('../collection.json', import.meta.url), 'utf-8'));
 const { id, access_key } = collectionData;
 
-config.API_BASE_URL = process.env.MAGICAUTH_API_URL || 'https://dev.magicauth.ca';
+config.API_BASE_URL = server ? server.url : (process.env.MAGICAUTH_API_URL as string);
 
 const magicauth = new Collection(id, access_key.key);
 
@@ -95,10 +100,13 @@ function comparison_tests() {
         expect(compare.ipAddresses('95.107.167.200', '8.8.8.8')).toBe(false);
     });
 
-    it('should allow any IP when session IP is private', () => {
-        expect(compare.ipAddresses('95.107.167.200', '127.0.0.1')).toBe(true);
-        expect(compare.ipAddresses('8.8.8.8', '192.168.1.1')).toBe(true);
-        expect(compare.ipAddresses('1.2.3.4', '10.0.0.1')).toBe(true);
+    it('should allow any IP when session IP is private only if opted in', () => {
+        const policy = { private_bypass: true };
+
+        expect(compare.ipAddresses('95.107.167.200', '127.0.0.1', policy)).toBe(true);
+        expect(compare.ipAddresses('8.8.8.8', '192.168.1.1', policy)).toBe(true);
+        expect(compare.ipAddresses('1.2.3.4', '10.0.0.1', policy)).toBe(true);
+        expect(compare.ipAddresses('1.2.3.4', '10.0.0.1')).toBe(false);
     });
 
     it('should handle invalid IP addresses gracefully', () => {
@@ -119,6 +127,10 @@ function collection_create_tests() {
 }
 
 describe('SDK Unit Tests', () => {
+    afterAll(async () => {
+        await server?.close();
+    });
+
     describe('Basic', basic_tests);
     describe('Comparison Functions', comparison_tests);
     describe('Collection Creation', collection_create_tests);
@@ -0,0 +1,322 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+    ContextMismatchError,
+    InvalidTokenError,
+    MemoryStore,
+    NotFoundError,
+    publicKeySet,
+    totpCode,
+    verifyToken,
+} from '../../dist/index.js';
+import type { SessionTokenAlgorithm, SessionTokenJwk, SessionTokenKey } from '../../dist/index.js';
+import { MockMagicAuthServer } from '../../dist/testing.js';
+
+const password = 'Passw0rd!';
+const ip_address = '95.107.167.200';
+const firefox = 'Mozilla/5.0 (X11; Linux x86_64; rv:120.0) Gecko/20100101 Firefox/120.0';
+const chrome =
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+const old_key: SessionTokenKey = { id: '2026-01', secret: 'session-token-secret-0123456789abcdef' };
+const new_key: SessionTokenKey = { id: '2026-07', secret: 'session-token-secret-fedcba9876543210' };
+
+let server: MockMagicAuthServer;
+
+async function rejection(promise: Promise<unknown>): Promise<InvalidTokenError> {
+    const error = await promise.catch((error) => error);
+    expect(error).toBeInstanceOf(InvalidTokenError);
+    return error as InvalidTokenError;
+}
+
+function base64url_json(value: unknown): string {
+    return btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function key_pair(id: string, algorithm: 'ES256' | 'EdDSA'): Promise<SessionTokenKey> {
+    const params = algorithm === 'ES256' ? { name: 'ECDSA', namedCurve: 'P-256' } : 'Ed25519';
+    const pair = (await crypto.subtle.generateKey(params, true, ['sign', 'verify'])) as {
+        privateKey: Parameters<typeof crypto.subtle.exportKey>[1];
+        publicKey: Parameters<typeof crypto.subtle.exportKey>[1];
+    };
+    const jwk = async (key: Parameters<typeof crypto.subtle.exportKey>[1]) =>
+        (await crypto.subtle.exportKey('jwk', key)) as SessionTokenJwk;
+    return {
+        id,
+        algorithm,
+        private_key: await jwk(pair.privateKey),
+        public_key: await jwk(pair.publicKey),
+    };
+}
+
+function verifier_keys(keys: SessionTokenKey[]): SessionTokenKey[] {
+    const { keys: jwks } = JSON.parse(JSON.stringify(publicKeySet(keys)));
+    return jwks.map((jwk: SessionTokenJwk & { kid: string; alg: SessionTokenAlgorithm }) => ({
+        id: jwk.kid,
+        algorithm: jwk.alg,
+        public_key: jwk,
+    }));
+}
+
+async function signed_in(keys: SessionTokenKey[] = [old_key], ttl?: number) {
+    const magicauth = server.collection({ session_tokens: { keys, ttl } });
+    const user = await magicauth.user(password);
+    const session = await magicauth.session(user.id, password, ip_address, firefox);
+    return { magicauth, user, session, token: session.token! };
+}
+
+function verify_tests() {
+    it('should verify tokens issued with sessions', async () => {
+        const { user, session, token } = await signed_in();
+        const claims = await verifyToken(
+            token,
+            { session_id: session.id, ip_address, user_agent: firefox },
+            { keys: [old_key] }
+        );
+
+        expect(claims).toMatchObject({ sub: user.id, ip: ip_address, ua: firefox });
+        expect(claims.exp - claims.iat).toBe(300);
+        expect(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/'))).not.toContain(
+            session.id
+        );
+    });
+
+    it('should verify with every key of the set and sign with the first', async () => {
+        const { token } = await signed_in([old_key]);
+        const rotated = await signed_in([new_key, old_key]);
+        const context = { ip_address, user_agent: firefox };
+
+        expect((await verifyToken(token, context, { keys: [new_key, old_key] })).sid).toBeTruthy();
+        expect(JSON.parse(atob(rotated.token.split('.')[0])).kid).toBe(new_key.id);
+        expect(
+            (await rejection(verifyToken(rotated.token, context, { keys: [old_key] }))).reason
+        ).toBe('signature');
+        const other_session = { ...context, session_id: rotated.session.id };
+        expect(
+            (await rejection(verifyToken(token, other_session, { keys: [old_key] }))).reason
+        ).toBe('session');
+    });
+
+    it('should sign with ES256 and EdDSA keys and verify with the public key set', async () => {
+        const es256 = await key_pair('es-2026', 'ES256');
+        const eddsa = await key_pair('ed-2026', 'EdDSA');
+        const context = { ip_address, user_agent: firefox };
+        const { keys: jwks } = publicKeySet([eddsa, es256, old_key]);
+
+        expect(jwks.map(({ kid, alg, kty, crv }) => ({ kid, alg, kty, crv }))).toEqual([
+            { kid: eddsa.id, alg: 'EdDSA', kty: 'OKP', crv: 'Ed25519' },
+            { kid: es256.id, alg: 'ES256', kty: 'EC', crv: 'P-256' },
+        ]);
+        expect(JSON.stringify(jwks)).not.toMatch(/"d"|secret/);
+        for (const key of [es256, eddsa]) {
+            const { user, token } = await signed_in([key]);
+            const [header, payload, signature] = token.split('.');
+            const forged = `${header}.${payload}.${signature.replace(/^./, (c) => (c === 'A' ? 'B' : 'A'))}`;
+
+            expect(JSON.parse(atob(header))).toEqual({
+                alg: key.algorithm,
+                typ: 'JWT',
+                kid: key.id,
+            });
+            expect(
+                (await verifyToken(token, context, { keys: verifier_keys([eddsa, es256]) })).sub
+            ).toBe(user.id);
+            expect(
+                (await rejection(verifyToken(forged, context, { keys: verifier_keys([key]) })))
+                    .reason
+            ).toBe('signature');
+        }
+    });
+
+    it('should rotate asymmetric keys by kid', async () => {
+        const old_pair = await key_pair('ed-2026-01', 'EdDSA');
+        const new_pair = await key_pair('es-2026-07', 'ES256');
+        const context = { ip_address, user_agent: firefox };
+        const { token } = await signed_in([old_pair]);
+        const rotated = await signed_in([new_pair, old_pair]);
+
+        expect(JSON.parse(atob(rotated.token.split('.')[0])).kid).toBe(new_pair.id);
+        for (const jwt of [token, rotated.token]) {
+            await expect(
+                verifyToken(jwt, context, { keys: verifier_keys([new_pair, old_pair]) })
+            ).resolves.toBeTruthy();
+        }
+        expect(
+            (await rejection(verifyToken(token, context, { keys: verifier_keys([new_pair]) })))
+                .reason
+        ).toBe('signature');
+    });
+
+    it('should reject tokens whose algorithm does not match the key', async () => {
+        const es256 = await key_pair('es-2026', 'ES256');
+        const { token } = await signed_in([es256]);
+        const [, payload, signature] = token.split('.');
+        const context = { ip_address, user_agent: firefox };
+        const as_eddsa = `${base64url_json({ alg: 'EdDSA', typ: 'JWT', kid: es256.id })}.${payload}.${signature}`;
+        const as_hs256 = `${base64url_json({ alg: 'HS256', typ: 'JWT', kid: es256.id })}.${payload}.${signature}`;
+
+        for (const jwt of [as_eddsa, as_hs256]) {
+            expect(
+                (await rejection(verifyToken(jwt, context, { keys: verifier_keys([es256]) })))
+                    .reason
+            ).toBe('signature');
+        }
+    });
+
+    it('should reject altered, unsigned and expired tokens', async () => {
+        const { token } = await signed_in();
+        const expired = await signed_in([old_key], 0);
+        const [header, payload, signature] = token.split('.');
+        const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+        const altered = `${header}.${base64url_json({ ...claims, sub: 'Auth_other' })}.${signature}`;
+        const unsigned = `${base64url_json({ alg: 'none', typ: 'JWT' })}.${payload}.`;
+        const context = { ip_address, user_agent: firefox };
+        const options = { keys: [old_key] };
+
+        expect((await rejection(verifyToken(altered, context, options))).reason).toBe('signature');
+        expect((await rejection(verifyToken(unsigned, context, options))).reason).toBe('malformed');
+        expect((await rejection(verifyToken('a.b', context, options))).reason).toBe('malformed');
+        expect((await rejection(verifyToken(expired.token, context, options))).reason).toBe(
+            'expired'
+        );
+    });
+
+    it('should compare the bound context', async () => {
+        const { token } = await signed_in();
+        const options = { keys: [old_key], ip_policy: { ipv4_prefix: 24 } };
+
+        await expect(
+            verifyToken(token, { ip_address: '95.107.167.9', user_agent: firefox }, options)
+        ).resolves.toBeTruthy();
+        await expect(
+            verifyToken(token, { ip_address: '203.0.113.7', user_agent: firefox }, options)
+        ).rejects.toThrow(ContextMismatchError);
+        await expect(
+            verifyToken(token, { ip_address, user_agent: chrome }, options)
+        ).rejects.toThrow(ContextMismatchError);
+    });
+}
+
+function collection_tests() {
+    it('should validate fresh tokens without the API', async () => {
+        const { magicauth, user, session, token } = await signed_in();
+        const requests = server.requests.length;
+
+        const verified = await magicauth.verify_token(token, session.id, ip_address, firefox);
+
+        expect(server.requests.length).toBe(requests);
+        expect(verified).toMatchObject({ id: session.id, credential: { id: user.id }, token });
+        await expect(magicauth.verify_token(token, session.id, ip_address, chrome)).rejects.toThrow(
+            ContextMismatchError
+        );
+    });
+
+    it('should fall back to validate for expired tokens', async () => {
+        const { magicauth, session, token } = await signed_in([old_key], 0);
+
+        const verified = await magicauth.verify_token(token, session.id, ip_address, firefox);
+
+        expect(server.requests.at(-1)?.path).toBe(`/sessions/${session.id}`);
+        expect(verified.token).toBeTruthy();
+        await magicauth.archive_session(session.id, ip_address, firefox);
+        await expect(
+            magicauth.verify_token(token, session.id, ip_address, firefox)
+        ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject forged, malformed and foreign tokens without validating', async () => {
+        const { magicauth, session, token } = await signed_in();
+        const other = await magicauth.session(session.credential.id, password, ip_address, firefox);
+        const [header, payload, signature] = token.split('.');
+        const forged = `${header}.${payload}.${signature.replace(/^./, (c) => (c === 'A' ? 'B' : 'A'))}`;
+        const unknown_key = (await signed_in([new_key])).token;
+        const requests = server.requests.length;
+
+        for (const [jwt, reason] of [
+            [forged, 'signature'],
+            [unknown_key, 'signature'],
+            ['a.b', 'malformed'],
+            [other.token!, 'session'],
+        ]) {
+            expect(
+                (await rejection(magicauth.verify_token(jwt, session.id, ip_address, firefox)))
+                    .reason
+            ).toBe(reason);
+        }
+        expect(server.requests.length).toBe(requests);
+    });
+
+    it('should only issue tokens once the second factor is verified', async () => {
+        const magicauth = server.collection({
+            session_tokens: { keys: [old_key] },
+            mfa: { store: new MemoryStore(), issuer: 'Example' },
+        });
+        const user = await magicauth.user(password);
+        const { secret } = await magicauth.mfa!.enroll(user.id, 'user@example.com');
+        await magicauth.mfa!.confirm(
+            user.id,
+            await totpCode(secret, { time: Date.now() - 30_000 })
+        );
+
+        const session = await magicauth.session(user.id, password, ip_address, firefox);
+        const verified = await magicauth.verify_second_factor(
+            session.id,
+            await totpCode(secret),
+            ip_address,
+            firefox
+        );
+        const validated = await magicauth.verify_token(
+            verified.token!,
+            session.id,
+            ip_address,
+            firefox
+        );
+
+        expect(session.token).toBeUndefined();
+        expect(validated.second_factor).toBe('verified');
+    });
+
+    it('should require a valid key set', () => {
+        expect(() => server.collection({ session_tokens: { keys: [] } })).toThrow(TypeError);
+        expect(() =>
+            server.collection({ session_tokens: { keys: [{ id: 'short', secret: 'short' }] } })
+        ).toThrow(TypeError);
+        expect(() =>
+            server.collection({
+                session_tokens: { keys: [old_key, { ...new_key, id: old_key.id }] },
+            })
+        ).toThrow(TypeError);
+    });
+
+    it('should require asymmetric keys to match their algorithm', async () => {
+        const es256 = await key_pair('es-2026', 'ES256');
+        const eddsa = await key_pair('ed-2026', 'EdDSA');
+        const verify_only = { ...es256, private_key: undefined };
+
+        expect(() => server.collection({ session_tokens: { keys: [verify_only] } })).toThrow(
+            /needs a private_key/
+        );
+        expect(() =>
+            server.collection({ session_tokens: { keys: [eddsa, verify_only] } })
+        ).not.toThrow();
+        expect(() =>
+            server.collection({
+                session_tokens: { keys: [{ ...es256, public_key: eddsa.public_key }] },
+            })
+        ).toThrow(/P-256/);
+        expect(() =>
+            server.collection({ session_tokens: { keys: [{ id: 'ed', algorithm: 'EdDSA' }] } })
+        ).toThrow(/needs a public_key/);
+    });
+}
+
+describe('Session Tokens', () => {
+    beforeAll(async () => {
+        server = await MockMagicAuthServer.start();
+    });
+    afterAll(async () => {
+        await server.close();
+    });
+
+    describe('verifyToken', verify_tests);
+    describe('Collection', collection_tests);
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    Collection,
+    NetworkError,
+    TimeoutError,
+    NotFoundError,
+    MagicAuthError,
+    InvalidResponseError,
+} from '../../dist/index.js';
+
+const session_id = '5Vx5aVjL8twCcuhnzOfo4bmGTpb-l8UexFXE305ITdQ=';
+const credential_id = 'Auth_U1-ZYkmQi66wrerQ7UgkorBwquhQF0G9EAFzz8=';
+const ip_address = '95.107.167.200';
+const user_agent = 'Mozilla/5.0 (X11; Linux x86_64)';
+
+type Reply = (() => Response) | Error;
+
+let calls: Request[];
+
+/**
+ * fetch replacement that answers with the given replies in order (repeating the last one)
+ */
+function fake_fetch(replies: Reply[]): typeof fetch {
+    return (async (input: string | URL | Request, init?: RequestInit) => {
+        calls.push(new Request(input, init));
+        const reply = replies[Math.min(calls.length - 1, replies.length - 1)];
+        if (reply instanceof Error) {
+            throw reply;
+        }
+        return reply();
+    }) as typeof fetch;
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): () => Response {
+    return () => new Response(JSON.stringify(body), { status, headers });
+}
+
+function session_reply(): () => Response {
+    return json(200, { id: session_id, credential: { id: credential_id } });
+}
+
+function collection(replies: Reply[]) {
+    return new Collection('collection-id', 'access-key', {
+        transport: { fetch: fake_fetch(replies), retries: 2, retry_delay: 1 },
+    });
+}
+
+function retry_tests() {
+    it('should retry validate on 503', async () => {
+        const magicauth = collection([json(503, {}), session_reply()]);
+        const session = await magicauth.validate(session_id, ip_address, user_agent);
+
+        expect(session.id).toBe(session_id);
+        expect(calls.length).toBe(2);
+    });
+
+    it('should retry validate on network errors', async () => {
+        const magicauth = collection([new TypeError('fetch failed'), session_reply()]);
+        const session = await magicauth.validate(session_id, ip_address, user_agent);
+
+        expect(session.id).toBe(session_id);
+        expect(calls.length).toBe(2);
+    });
+
+    it('should give up after the configured retries', async () => {
+        const magicauth = collection([json(503, {})]);
+
+        await expect(magicauth.validate(session_id, ip_address, user_agent)).rejects.toThrow(
+            MagicAuthError
+        );
+        expect(calls.length).toBe(3);
+    });
+
+    it('should not retry session creation on 502', async () => {
+        const magicauth = collection([json(502, {}), session_reply()]);
+
+        await expect(
+            magicauth.session(credential_id, 'Passw0rd!', ip_address, user_agent)
+        ).rejects.toThrow(MagicAuthError);
+        expect(calls.length).toBe(1);
+    });
+
+    it('should retry session creation when rate limited with Retry-After', async () => {
+        const magicauth = collection([json(429, {}, { 'Retry-After': '0' }), session_reply()]);
+        const session = await magicauth.session(credential_id, 'Passw0rd!', ip_address, user_agent);
+
+        expect(session.id).toBe(session_id);
+        expect(calls.length).toBe(2);
+    });
+
+    it('should not wait for a Retry-After beyond max_retry_delay', async () => {
+        const magicauth = collection([json(429, {}, { 'Retry-After': '3600' }), session_reply()]);
+
+        await expect(magicauth.validate(session_id, ip_address, user_agent)).rejects.toThrow(
+            MagicAuthError
+        );
+        expect(calls.length).toBe(1);
+    });
+}
+
+function response_tests() {
+    it('should use the HTTP status for non-JSON error pages', async () => {
+        const magicauth = collection([
+            () => new Response('<html>Not Found</html>', { status: 404 }),
+        ]);
+
+        await expect(magicauth.credential(credential_id)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should use the HTTP status when the JSON body has none', async () => {
+        const magicauth = collection([json(404, { message: 'No such session' })]);
+
+        await expect(magicauth.validate(session_id, ip_address, user_agent)).rejects.toThrow(
+            NotFoundError
+        );
+    });
+
+    it('should reject a successful non-JSON body', async () => {
+        const magicauth = collection([() => new Response('OK', { status: 200 })]);
+
+        await expect(magicauth.credential(credential_id)).rejects.toThrow(InvalidResponseError);
+    });
+}
+
+function abort_tests() {
+    const hanging_fetch = ((_input: string | URL | Request, init?: RequestInit) =>
+        new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })) as typeof fetch;
+
+    it('should time out', async () => {
+        const magicauth = new Collection('collection-id', 'access-key', {
+            transport: { fetch: hanging_fetch, retries: 0 },
+        });
+
+        await expect(
+            magicauth.validate(session_id, ip_address, user_agent, { timeout: 10 })
+        ).rejects.toThrow(TimeoutError);
+    });
+
+    it('should abort with a caller signal', async () => {
+        const magicauth = new Collection('collection-id', 'access-key', {
+            transport: { fetch: hanging_fetch, retries: 0, timeout: 0 },
+        });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 10);
+
+        await expect(
+            magicauth.validate(session_id, ip_address, user_agent, { signal: controller.signal })
+        ).rejects.toThrow(NetworkError);
+    });
+
+    it('should not start a timer for an already aborted signal', async () => {
+        const magicauth = new Collection('collection-id', 'access-key', {
+            transport: { fetch: hanging_fetch, retries: 0, timeout: 60_000 },
+        });
+        vi.useFakeTimers();
+        try {
+            await expect(
+                magicauth.validate(session_id, ip_address, user_agent, {
+                    signal: AbortSignal.abort(),
+                })
+            ).rejects.toThrow(NetworkError);
+            expect(vi.getTimerCount()).toBe(0);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+}
+
+describe('HTTP Transport', () => {
+    beforeEach(() => {
+        calls = [];
+    });
+
+    describe('Retries', retry_tests);
+    describe('Response Parsing', response_tests);
+    describe('Timeouts and Aborts', abort_tests);
+});
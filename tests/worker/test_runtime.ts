@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { builtinModules } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import vm from 'node:vm';
+import { build, type Plugin } from 'vite';
+import { MockMagicAuthServer } from '../../dist/testing.js';
+
+type Sdk = typeof import('../../dist/index.js');
+type BuildOutput = { output: { code: string }[] };
+
+const password = 'Passw0rd!';
+const ip_address = '95.107.167.200';
+const user_agent = 'Mozilla/5.0 (X11; Linux x86_64)';
+
+// The globals WinterCG runtimes (Cloudflare Workers, Vercel Edge, Deno) share; no `process`,
+// `Buffer` or `require`
+const WORKER_GLOBALS = [
+    'fetch',
+    'Request',
+    'Response',
+    'Headers',
+    'URL',
+    'URLSearchParams',
+    'AbortController',
+    'AbortSignal',
+    'Event',
+    'EventTarget',
+    'CustomEvent',
+    'TextEncoder',
+    'TextDecoder',
+    'crypto',
+    'atob',
+    'btoa',
+    'setTimeout',
+    'clearTimeout',
+    'queueMicrotask',
+    'structuredClone',
+    'console',
+    // Shared with the host realm, whose WebCrypto rejects buffers from other realms
+    'ArrayBuffer',
+    'DataView',
+    'Uint8Array',
+] as const;
+
+let server: MockMagicAuthServer;
+let context: vm.Context;
+let sdk: Sdk;
+
+// Fail the bundle on any Node.js import, the way a worker bundler without Node.js compatibility
+// would
+const no_node_modules: Plugin = {
+    name: 'no-node-modules',
+    enforce: 'pre',
+    resolveId(source) {
+        if (source.startsWith('node:') || builtinModules.includes(source)) {
+            this.error(`${source} is only available on Node.js`);
+        }
+        return null;
+    },
+};
+
+/**
+ * Bundle the ESM build for a worker and evaluate it in a context holding only worker globals
+ */
+async function load_worker_sdk(): Promise<{ context: vm.Context; sdk: Sdk }> {
+    const output = await build({
+        configFile: false,
+        logLevel: 'silent',
+        plugins: [no_node_modules],
+        resolve: { conditions: ['worker', 'browser', 'import', 'default'] },
+        build: {
+            write: false,
+            minify: false,
+            lib: {
+                entry: fileURLToPath(new URL('../../dist/index.js', import.meta.url)),
+                formats: ['iife'],
+                name: 'MagicAuth',
+            },
+        },
+    });
+    const [{ output: chunks }] = ([] as BuildOutput[]).concat(output as BuildOutput);
+
+    const context = vm.createContext(
+        Object.fromEntries(WORKER_GLOBALS.map((name) => [name, globalThis[name]]))
+    );
+    vm.runInContext(chunks[0].code, context);
+    return { context, sdk: context.MagicAuth };
+}
+
+function runtime_tests() {
+    it('should run without Node.js globals', () => {
+        expect(vm.runInContext('typeof process', context)).toBe('undefined');
+        expect(vm.runInContext('typeof Buffer', context)).toBe('undefined');
+        expect(vm.runInContext('typeof require', context)).toBe('undefined');
+    });
+
+    it('should check passwords', async () => {
+        expect((await sdk.checkPassword('correct horse battery')).valid).toBe(true);
+        expect((await sdk.checkPassword('Password123')).violations[0].rule).toBe('common');
+    });
+
+    it('should generate TOTP codes with WebCrypto', async () => {
+        const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+        expect(await sdk.totpCode(secret, { time: 59_000, digits: 8 })).toBe('94287082');
+        expect(await sdk.verifyTotp(secret, await sdk.totpCode(secret))).not.toBeNull();
+    });
+
+    it('should compare clients', () => {
+        const chrome =
+            'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+        expect(sdk.compare.userAgents(chrome, chrome)).toBe(true);
+        expect(sdk.compare.userAgents(chrome, `${user_agent} Gecko/20100101 Firefox/120.0`)).toBe(
+            false
+        );
+        expect(sdk.compare.ipAddresses(ip_address, `::ffff:${ip_address}`)).toBe(true);
+    });
+
+    it('should authenticate against the API', async () => {
+        const { id, access_key } = server.create_collection();
+        const events: string[] = [];
+        const magicauth = new sdk.Collection(id, access_key.key, {
+            base_url: server.url,
+            cache: { store: new sdk.MemoryStore() },
+            audit: (event) => {
+                events.push(event.type);
+            },
+            password_reset: {
+                secret: 'worker-reset-secret-0123456789abcdef',
+                on_credential_replaced: () => {},
+            },
+        });
+
+        const user = await magicauth.user(password);
+        const session = await magicauth.session(user.id, password, ip_address, user_agent);
+        const validated = await magicauth.validate(session.id, ip_address, user_agent);
+        const token = await magicauth.password_reset_token(user.id);
+
+        expect(validated.id).toBe(session.id);
+        expect((await magicauth.verify_reset_token(token)).id).toBe(user.id);
+        expect(events).toContain('session_created');
+        await expect(magicauth.session(user.id, 'wrong', ip_address, user_agent)).rejects.toThrow(
+            sdk.AuthenticationError
+        );
+    });
+}
+
+describe('Worker Runtime', () => {
+    beforeAll(async () => {
+        server = await MockMagicAuthServer.start();
+        ({ context, sdk } = await load_worker_sdk());
+    }, 60_000);
+    afterAll(async () => {
+        await server.close();
+    });
+
+    describe('Bundle', runtime_tests);
+});
@@ -4,7 +4,6 @@ export default defineConfig({
     test: {
         globals: true,
         environment: 'node',
-        include: ['tests/**/*.ts'],
         coverage: {
             provider: 'v8',
             reporter: ['text'],
@@ -15,5 +14,23 @@ export default defineConfig({
             branches: 80,
             statements: 80,
         },
+        projects: [
+            {
+                extends: true,
+                test: {
+                    name: 'node',
+                    include: ['tests/**/*.ts'],
+                    exclude: ['tests/worker/**'],
+                },
+            },
+            {
+                // The ESM build bundled for workers and run without Node.js globals
+                extends: true,
+                test: {
+                    name: 'worker',
+                    include: ['tests/worker/**/*.ts'],
+                },
+            },
+        ],
     },
 });